@@ -9,16 +9,33 @@ import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
 import NewApplicationPage from "./pages/NewApplicationPage";
 import EditApplicationPage from "./pages/EditApplicationPage";
+import BoardPage from "./pages/BoardPage";
+import AnalyticsPage from "./pages/AnalyticsPage";
+import ContactsPage from "./pages/ContactsPage";
+import CompaniesPage from "./pages/CompaniesPage";
+import CompanyDetailPage from "./pages/CompanyDetailPage";
 import Settings from "./pages/Settings";
 import Auth from "./pages/Auth";
 import ApiExample from "./components/examples/ApiExample";
 import { useAuthStore } from "./store/authStore";
+import { useScheduledSendDispatcher } from "./hooks/useScheduledSendDispatcher";
+import { isApiError } from "./services/apiErrors";
 
-const queryClient = new QueryClient();
+// Retrying won't fix auth, validation or missing-record errors
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: (failureCount, error) =>
+        failureCount < 3 && !isApiError(error, 'auth') && !isApiError(error, 'validation') && !isApiError(error, 'not_found'),
+    },
+  },
+});
 
 // Protected route wrapper component
 const ProtectedRoute = () => {
   const { isAuthenticated } = useAuthStore();
+  // Scheduled applications go out from whichever signed-in page is open
+  useScheduledSendDispatcher(isAuthenticated);
   
   if (!isAuthenticated) {
     return <Navigate to="/auth" replace />;
@@ -56,6 +73,11 @@ const App = () => (
             {/* Protected routes */}
             <Route element={<ProtectedRoute />}>
               <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/board" element={<BoardPage />} />
+              <Route path="/analytics" element={<AnalyticsPage />} />
+              <Route path="/contacts" element={<ContactsPage />} />
+              <Route path="/companies" element={<CompaniesPage />} />
+              <Route path="/companies/:id" element={<CompanyDetailPage />} />
               <Route path="/applications/new" element={<NewApplicationPage />} />
               <Route path="/applications/edit/:id" element={<EditApplicationPage />} />
               <Route path="/settings" element={<Settings />} />
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronDown, FilePlus, History, Mail, RefreshCw, Send } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { AttachmentRef, FollowUp, JobApplication, StatusChange } from '@/lib/api';
+import { formatAttachmentRef } from '@/lib/attachments';
+import { SYSTEM_STATUSES, getStatusBadgeVariant } from '@/lib/applicationStatus';
+import { useFollowUps } from '@/hooks/useApplicationQueries';
+import { getErrorMessage } from '@/services/apiErrors';
+import { cn } from '@/lib/utils';
+
+interface TimelineEmail {
+  recipient: string;
+  subject: string;
+  content: string;
+  attachments?: AttachmentRef[];
+}
+
+interface TimelineEntry {
+  id: string;
+  date: string;
+  kind: 'created' | 'sent' | 'follow_up' | 'status';
+  title: string;
+  email?: TimelineEmail;
+  status?: string;
+}
+
+const ENTRY_ICONS: Record<TimelineEntry['kind'], React.ElementType> = {
+  created: FilePlus,
+  sent: Mail,
+  follow_up: Send,
+  status: RefreshCw,
+};
+
+const formatDateTime = (dateString: string) => {
+  const date = new Date(dateString);
+  return isNaN(date.getTime()) ? 'Unknown date' : date.toLocaleString();
+};
+
+/**
+ * Status changes worth showing. Hops through the sending flow's own statuses
+ * are left out; the "sent" entry already covers a successful send.
+ */
+const isVisibleStatusChange = (change: StatusChange) =>
+  !SYSTEM_STATUSES.includes(change.to) && !(change.from === 'processing' && change.to === 'sent');
+
+/**
+ * Merge the application's own dates, its follow-ups and its status history
+ * into one list, oldest first
+ */
+const buildTimeline = (application: JobApplication, followUps: FollowUp[]): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [];
+
+  if (application.created_at) {
+    entries.push({
+      id: 'created',
+      date: application.created_at,
+      kind: 'created',
+      title: 'Application created',
+    });
+  }
+
+  if (application.sent_at) {
+    entries.push({
+      id: 'sent',
+      date: application.sent_at,
+      kind: 'sent',
+      title: `Application sent to ${application.recipient_email}`,
+      email: {
+        recipient: application.recipient_email,
+        subject: application.subject,
+        content: application.content,
+        attachments: application.attachments,
+      },
+    });
+  }
+
+  followUps.forEach(followUp => {
+    entries.push({
+      id: `follow-up-${followUp._id}`,
+      date: followUp.sent_at,
+      kind: 'follow_up',
+      title: `Follow-up #${followUp.follow_up_number} sent`,
+      status: followUp.status,
+      email: {
+        recipient: followUp.recipient_email,
+        subject: followUp.subject,
+        content: followUp.content,
+        attachments: followUp.attachments,
+      },
+    });
+  });
+
+  (application.status_history ?? []).filter(isVisibleStatusChange).forEach((change, index) => {
+    entries.push({
+      id: `status-${index}`,
+      date: change.changed_at,
+      kind: 'status',
+      title: change.from ? `Status changed from ${change.from} to ${change.to}` : `Status set to ${change.to}`,
+      status: change.to,
+    });
+  });
+
+  return entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+const TimelineItem: React.FC<{ entry: TimelineEntry }> = ({ entry }) => {
+  const [open, setOpen] = useState(false);
+  const Icon = ENTRY_ICONS[entry.kind];
+
+  const header = (
+    <div className="flex items-start justify-between gap-2 w-full text-left">
+      <div>
+        <p className="font-medium">{entry.title}</p>
+        <p className="text-sm text-muted-foreground">{formatDateTime(entry.date)}</p>
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        {entry.status && (
+          <Badge variant={getStatusBadgeVariant(entry.status)} className="capitalize">{entry.status}</Badge>
+        )}
+        {entry.email && (
+          <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <li className="relative pl-10 pb-6 last:pb-0">
+      <span className="absolute left-0 top-0 flex h-7 w-7 items-center justify-center rounded-full border bg-background">
+        <Icon className="h-3.5 w-3.5 text-primary" />
+      </span>
+      {entry.email ? (
+        <Collapsible open={open} onOpenChange={setOpen}>
+          <CollapsibleTrigger className="w-full">{header}</CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="mt-3 rounded-md border bg-muted/40 p-3 text-sm space-y-1">
+              <p><span className="font-medium">To:</span> {entry.email.recipient}</p>
+              <p><span className="font-medium">Subject:</span> {entry.email.subject}</p>
+              {entry.email.attachments && entry.email.attachments.length > 0 && (
+                <p>
+                  <span className="font-medium">Attachments:</span>{' '}
+                  {entry.email.attachments.map(formatAttachmentRef).join(', ')}
+                </p>
+              )}
+              <div className="whitespace-pre-wrap pt-2 border-t mt-2">{entry.email.content}</div>
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+      ) : header}
+    </li>
+  );
+};
+
+interface ApplicationTimelineProps {
+  application: JobApplication;
+}
+
+const ApplicationTimeline: React.FC<ApplicationTimelineProps> = ({ application }) => {
+  const followUpsQuery = useFollowUps({
+    applicationId: application._id,
+    sort_field: 'sent_at',
+    sort_order: 1
+  });
+
+  useEffect(() => {
+    if (followUpsQuery.error) {
+      toast.error(getErrorMessage(followUpsQuery.error, "Failed to load follow-ups"));
+    }
+  }, [followUpsQuery.error]);
+
+  const entries = buildTimeline(application, followUpsQuery.data ?? []);
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" /> Activity
+        </CardTitle>
+        <CardDescription>
+          Everything that happened to this application. Expand an email to see exactly what was sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {followUpsQuery.isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : entries.length > 0 ? (
+          <ol className="relative before:absolute before:left-3.5 before:top-2 before:bottom-2 before:w-px before:bg-border">
+            {entries.map(entry => <TimelineItem key={entry.id} entry={entry} />)}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground">No activity yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApplicationTimeline;
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, Search, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ApplicationTableState } from '@/hooks/useApplicationTableParams';
+import { APPLICATION_STATUSES } from '@/lib/applicationStatus';
+import DateRangePicker from './DateRangePicker';
+
+// Wait for a pause in typing before querying the backend
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface ApplicationsToolbarProps {
+  state: ApplicationTableState;
+  onChange: (changes: Partial<ApplicationTableState>) => void;
+  onReset: () => void;
+  isFiltered: boolean;
+}
+
+const ApplicationsToolbar: React.FC<ApplicationsToolbarProps> = ({ state, onChange, onReset, isFiltered }) => {
+  const [searchInput, setSearchInput] = useState(state.search);
+
+  // Keep the input in sync when the URL changes (back button, reset)
+  useEffect(() => {
+    setSearchInput(state.search);
+  }, [state.search]);
+
+  useEffect(() => {
+    if (searchInput === state.search) return;
+    const timer = setTimeout(() => onChange({ search: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, state.search, onChange]);
+
+  const toggleStatus = (status: string, checked: boolean) => {
+    onChange({
+      statuses: checked
+        ? APPLICATION_STATUSES.filter(option => option === status || state.statuses.includes(option))
+        : state.statuses.filter(option => option !== status)
+    });
+  };
+
+  const statusLabel = state.statuses.length === 0
+    ? "All statuses"
+    : state.statuses.length === 1
+      ? `Status: ${state.statuses[0]}`
+      : `${state.statuses.length} statuses`;
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-2 mb-4">
+      <div className="relative flex-1 min-w-[200px]">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search company, position or recipient..."
+          className="pl-8"
+          aria-label="Search applications"
+        />
+      </div>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="justify-between gap-2 capitalize">
+            {statusLabel}
+            <ChevronDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuLabel>Filter by status</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {APPLICATION_STATUSES.map(status => (
+            <DropdownMenuCheckboxItem
+              key={status}
+              checked={state.statuses.includes(status)}
+              onCheckedChange={(checked) => toggleStatus(status, checked === true)}
+              onSelect={(e) => e.preventDefault()} // Keep the menu open for multiple picks
+              className="capitalize"
+            >
+              {status}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DateRangePicker
+        from={state.dateFrom}
+        to={state.dateTo}
+        onChange={({ from, to }) => onChange({ dateFrom: from, dateTo: to })}
+        placeholder="Sent date"
+      />
+
+      {isFiltered && (
+        <Button variant="ghost" onClick={onReset} className="gap-1">
+          <X className="h-4 w-4" /> Reset
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ApplicationsToolbar;
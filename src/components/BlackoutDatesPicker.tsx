@@ -0,0 +1,64 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarOff, X } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+const DATE_KEY_FORMAT = 'yyyy-MM-dd';
+
+interface BlackoutDatesPickerProps {
+  value: string[]; // yyyy-MM-dd
+  onChange: (dates: string[]) => void;
+}
+
+/**
+ * Pick individual days (holidays, time off) from a calendar, shown as removable badges
+ */
+const BlackoutDatesPicker: React.FC<BlackoutDatesPickerProps> = ({ value, onChange }) => {
+  const selected = value.map(date => parseISO(date));
+
+  const handleSelect = (dates: Date[] | undefined) => {
+    onChange((dates ?? []).map(date => format(date, DATE_KEY_FORMAT)).sort());
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" className="gap-2 font-normal">
+            <CalendarOff className="h-4 w-4" />
+            {value.length > 0 ? `${value.length} day${value.length === 1 ? '' : 's'} blocked` : "Pick days"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="multiple"
+            selected={selected}
+            onSelect={handleSelect}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(date => (
+            <Badge key={date} variant="secondary" className="gap-1">
+              {format(parseISO(date), 'MMM d, yyyy')}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(other => other !== date))}
+                aria-label={`Remove ${date}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BlackoutDatesPicker;
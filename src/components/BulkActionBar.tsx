@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronDown, Pause, Play, Send, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { JobApplication, applicationsApi } from '@/lib/api';
+import {
+  APPLICATION_STATUSES,
+  ApplicationStatus,
+  canTransition,
+  describeIllegalTransition,
+  getManualTransitions
+} from '@/lib/applicationStatus';
+import { buildFollowUpRequest, changeApplicationStatus, getFollowUpBlocker, sendFollowUp } from '@/lib/followUps';
+import { useBulkAction } from '@/hooks/useBulkAction';
+import { EmailTemplateType, useEmailSettingsStore } from '@/store/emailSettingsStore';
+import { useTemplateChoices } from '@/hooks/useEmailTemplates';
+import { ApiRequestError } from '@/services/apiErrors';
+
+interface BulkActionBarProps {
+  selected: JobApplication[];
+  onClearSelection: () => void;
+  // Drafts have no follow-ups to pause or send
+  showFollowUpActions?: boolean;
+}
+
+const skipRow = (message: string) => new ApiRequestError({ code: 'validation', message, status: 0, fieldErrors: {} });
+
+/**
+ * Actions for the selected table rows, with progress and per-row failures
+ */
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selected,
+  onClearSelection,
+  showFollowUpActions = true
+}) => {
+  const { settings: emailSettings } = useEmailSettingsStore();
+  // Bulk follow-ups use the default follow-up template from the library
+  const { defaultChoice: followUpTemplate } = useTemplateChoices(EmailTemplateType.FOLLOW_UP);
+  const { progress, run, dismiss } = useBulkAction();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const running = progress?.running ?? false;
+
+  // Statuses at least one selected row can move to
+  const statusOptions = APPLICATION_STATUSES.filter(status =>
+    selected.some(app => getManualTransitions(app.status).includes(status))
+  );
+
+  const runOnSelection = async (action: string, task: (application: JobApplication) => Promise<void>) => {
+    const result = await run(action, selected, task);
+    const succeeded = result.total - result.failures.length;
+
+    if (result.failures.length === 0) {
+      toast.success(`${action}: ${succeeded} of ${result.total} done`);
+      onClearSelection();
+    } else {
+      toast.error(`${action}: ${result.failures.length} of ${result.total} failed`);
+    }
+  };
+
+  const handleChangeStatus = (status: ApplicationStatus) =>
+    runOnSelection(`Mark ${status}`, async application => {
+      if (application.status === status) return;
+      if (!canTransition(application.status, status)) {
+        throw skipRow(describeIllegalTransition(application.status, status));
+      }
+      await changeApplicationStatus(application, status);
+    });
+
+  const handleSetPaused = (paused: boolean) =>
+    runOnSelection(paused ? 'Pause follow-ups' : 'Resume follow-ups', async application => {
+      if (!application.follow_up_settings) {
+        throw skipRow("This application has no follow-up settings");
+      }
+      await applicationsApi.updateFollowUpSettings(application._id, {
+        ...application.follow_up_settings,
+        paused
+      });
+    });
+
+  const handleSendFollowUps = () => {
+    // Check if email settings are configured
+    if (!emailSettings.senderEmail || !emailSettings.senderPassword) {
+      toast.error("Please configure your email settings first");
+      return;
+    }
+
+    runOnSelection('Send follow-ups', async application => {
+      const blocker = getFollowUpBlocker(application);
+      if (blocker) {
+        throw skipRow(blocker);
+      }
+
+      const result = await sendFollowUp(application, buildFollowUpRequest(application, emailSettings, followUpTemplate));
+      if (!result.email_sent && result.email_error) {
+        // The follow-up was recorded; only the email failed
+        throw new ApiRequestError({ code: 'smtp', message: result.email_error, status: 0 });
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    setConfirmDelete(false);
+    runOnSelection('Delete', application => applicationsApi.delete(application._id));
+  };
+
+  if (selected.length === 0 && !progress) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 rounded-lg border bg-muted/40 p-3 space-y-3">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium mr-2">{selected.length} selected</span>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={running || statusOptions.length === 0} className="gap-1">
+                Change status <ChevronDown className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuLabel>Move selected to</DropdownMenuLabel>
+              {statusOptions.map(status => (
+                <DropdownMenuItem key={status} className="capitalize" onSelect={() => handleChangeStatus(status)}>
+                  {status}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {showFollowUpActions && (
+            <>
+              <Button variant="outline" size="sm" disabled={running} onClick={handleSendFollowUps} className="gap-1">
+                <Send className="h-4 w-4" /> Send follow-ups
+              </Button>
+              <Button variant="outline" size="sm" disabled={running} onClick={() => handleSetPaused(true)} className="gap-1">
+                <Pause className="h-4 w-4" /> Pause follow-ups
+              </Button>
+              <Button variant="outline" size="sm" disabled={running} onClick={() => handleSetPaused(false)} className="gap-1">
+                <Play className="h-4 w-4" /> Resume follow-ups
+              </Button>
+            </>
+          )}
+
+          <Button variant="destructive" size="sm" disabled={running} onClick={() => setConfirmDelete(true)} className="gap-1">
+            <Trash2 className="h-4 w-4" /> Delete
+          </Button>
+          <Button variant="ghost" size="sm" disabled={running} onClick={onClearSelection}>
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      {progress && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span>
+              {progress.action}: {progress.done} of {progress.total}
+              {progress.running ? '...' : ' done'}
+              {progress.failures.length > 0 && `, ${progress.failures.length} failed`}
+            </span>
+            {!progress.running && (
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={dismiss}>
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+          {progress.failures.length > 0 && (
+            <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+              {progress.failures.map(failure => (
+                <li key={failure.id} className="text-destructive">
+                  <span className="font-medium">{failure.label}:</span> {failure.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selected.length} application{selected.length === 1 ? '' : 's'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the selected applications. Emails that were already sent are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { Download, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { DocumentFormat } from '@/lib/documentExport';
+import { formatPlaceholders } from '@/lib/templateEngine';
+import { COVER_LETTER_FORMAT_LABELS, createCoverLetterFile } from '@/lib/coverLetters';
+import { CoverLetterState } from '@/hooks/useCoverLetter';
+
+interface CoverLetterSectionProps {
+  coverLetter: CoverLetterState;
+  author?: string;
+  disabled?: boolean;
+}
+
+// Save a generated file through a temporary link
+const downloadFile = (file: File) => {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Generate a cover letter from a template and attach it to the application
+ * as a PDF or Word document
+ */
+const CoverLetterSection: React.FC<CoverLetterSectionProps> = ({ coverLetter, author, disabled }) => {
+  const { enabled, choices, choice, format, text, isEdited, leftOver, letter } = coverLetter;
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="cover-letter-enabled">Attach a cover letter</Label>
+          <p className="text-xs text-muted-foreground">
+            Filled in from this application and attached when it is sent.
+          </p>
+        </div>
+        <Switch
+          id="cover-letter-enabled"
+          checked={enabled}
+          onCheckedChange={coverLetter.setEnabled}
+          disabled={disabled}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={choice?.id ?? ''} onValueChange={coverLetter.selectTemplate} disabled={disabled}>
+              <SelectTrigger className="w-[240px] h-9">
+                <SelectValue placeholder="Pick a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {choices.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={format}
+              onValueChange={(value) => coverLetter.setFormat(value as DocumentFormat)}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-[160px] h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(COVER_LETTER_FORMAT_LABELS).map(([value, name]) => (
+                  <SelectItem key={value} value={value}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => letter && downloadFile(createCoverLetterFile(letter, author))}
+              disabled={!letter}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+            {isEdited && (
+              <Button type="button" variant="ghost" size="sm" onClick={coverLetter.resetText} disabled={disabled}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Reset to template
+              </Button>
+            )}
+          </div>
+
+          <Textarea
+            aria-label="Cover letter"
+            value={text}
+            onChange={(e) => coverLetter.setText(e.target.value)}
+            className="min-h-[240px] text-sm"
+            disabled={disabled}
+          />
+          {leftOver.length > 0 ? (
+            <p className="text-sm text-destructive">Fill in {formatPlaceholders(leftOver)} before sending.</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {isEdited
+                ? 'Edited by hand, so changes to the form no longer update the letter.'
+                : 'Updates as you fill in the form. Edit the text to adjust it for this application.'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CoverLetterSection;
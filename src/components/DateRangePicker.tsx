@@ -0,0 +1,70 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { CalendarRange } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from '@/lib/utils';
+
+const DATE_PARAM_FORMAT = 'yyyy-MM-dd';
+const DATE_LABEL_FORMAT = 'MMM d, yyyy';
+
+interface DateRangePickerProps {
+  from?: string; // yyyy-MM-dd
+  to?: string; // yyyy-MM-dd
+  onChange: (range: { from?: string; to?: string }) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Button that opens a two-month calendar for picking an inclusive date range
+ */
+const DateRangePicker: React.FC<DateRangePickerProps> = ({
+  from,
+  to,
+  onChange,
+  placeholder = "Any date",
+  className
+}) => {
+  const selected: DateRange | undefined = from || to
+    ? { from: from ? parseISO(from) : undefined, to: to ? parseISO(to) : undefined }
+    : undefined;
+
+  const handleSelect = (range: DateRange | undefined) => {
+    onChange({
+      from: range?.from ? format(range.from, DATE_PARAM_FORMAT) : undefined,
+      to: range?.to ? format(range.to, DATE_PARAM_FORMAT) : undefined
+    });
+  };
+
+  const label = () => {
+    if (!selected?.from) return placeholder;
+    if (!selected.to) return `From ${format(selected.from, DATE_LABEL_FORMAT)}`;
+    return `${format(selected.from, DATE_LABEL_FORMAT)} - ${format(selected.to, DATE_LABEL_FORMAT)}`;
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn("justify-start gap-2 font-normal", className)}>
+          <CalendarRange className="h-4 w-4" />
+          {label()}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="range"
+          selected={selected}
+          onSelect={handleSelect}
+          defaultMonth={selected?.from}
+          numberOfMonths={2}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { format, setHours, setMinutes, startOfDay } from 'date-fns';
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface DateTimePickerProps {
+  value: Date | undefined;
+  onChange: (date: Date | undefined) => void;
+  disablePast?: boolean;
+}
+
+const withTime = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return setMinutes(setHours(date, hours || 0), minutes || 0);
+};
+
+/**
+ * Pick a day from a calendar and a time of day, in the browser's time zone
+ */
+const DateTimePicker: React.FC<DateTimePickerProps> = ({ value, onChange, disablePast }) => {
+  const time = value ? format(value, 'HH:mm') : '09:00';
+
+  return (
+    <div className="flex flex-col gap-3 sm:flex-row sm:items-start">
+      <Calendar
+        mode="single"
+        selected={value}
+        onSelect={(day) => onChange(day ? withTime(day, time) : undefined)}
+        disabled={disablePast ? { before: startOfDay(new Date()) } : undefined}
+        className="rounded-md border"
+        initialFocus
+      />
+      <div className="space-y-2">
+        <Label htmlFor="date-time-picker-time">Time</Label>
+        <Input
+          id="date-time-picker-time"
+          type="time"
+          value={time}
+          onChange={(e) => value && e.target.value && onChange(withTime(value, e.target.value))}
+          disabled={!value}
+          className="w-32"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DateTimePicker;
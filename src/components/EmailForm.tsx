@@ -24,8 +24,11 @@ import ApplicationForm from './email/ApplicationForm';
 import DraftsList from './email/DraftsList';
 import NewDraftDialog from './email/NewDraftDialog';
 import FollowUpForm from './email/FollowUpForm';
-import FollowUpSettingsDialog from './email/FollowUpSettingsDialog';
+import FollowUpSettingsDialog from './FollowUpSettingsDialog';
 import { applicationsApi, checkApiHealth } from '@/lib/api';
+import { useApplications, useUpdateFollowUpSettings } from '@/hooks/useApplicationQueries';
+import { findServerApplication, useLocalFollowUpMigration } from '@/hooks/useLocalFollowUpMigration';
+import { getErrorMessage, isApiError } from '@/services/apiErrors';
 
 interface EmailFormProps {
   onPreview: (recipient: string, subject: string, body: string) => void;
@@ -54,11 +57,6 @@ const EmailForm: React.FC<EmailFormProps> = ({ onPreview }) => {
   
   const [isFollowUpDialogOpen, setIsFollowUpDialogOpen] = useState(false);
   const [selectedApplicationId, setSelectedApplicationId] = useState<string | null>(null);
-  const [followUpSettings, setFollowUpSettings] = useState({
-    interval: 2,
-    intervalType: 'days' as 'days' | 'hours' | 'minutes',
-    maxFollowUps: 5,
-  });
 
   const [isNewDraftDialogOpen, setIsNewDraftDialogOpen] = useState(false);
   const [draftApplications, setDraftApplications] = useState<Application[]>([]);
@@ -78,6 +76,17 @@ const EmailForm: React.FC<EmailFormProps> = ({ onPreview }) => {
 
   const [apiReady, setApiReady] = useState<boolean | null>(null);
 
+  // Follow-up settings live on the server copies of the locally listed applications
+  const serverApplicationsQuery = useApplications(undefined, { enabled: apiReady === true });
+  const serverApplications = serverApplicationsQuery.data;
+  const updateFollowUpSettingsMutation = useUpdateFollowUpSettings();
+  useLocalFollowUpMigration(serverApplications);
+
+  const getServerApplication = useCallback(
+    (app: Application) => findServerApplication(app, serverApplications ?? []),
+    [serverApplications]
+  );
+
   useEffect(() => {
     const requiredFields = ['fullName', 'position', 'company'];
     const followUpFields = emailType === 'followUp' ? ['sentDate'] : [];
@@ -195,6 +204,9 @@ const EmailForm: React.FC<EmailFormProps> = ({ onPreview }) => {
             
             if (result && result.success) {
               console.log("Application saved to database with ID:", result.id);
+              if (result.id) {
+                updateApplication(appId, { serverId: result.id });
+              }
               toast.success("Application saved to database!");
             } else {
               console.error("Failed to save application to database", result);
@@ -202,7 +214,9 @@ const EmailForm: React.FC<EmailFormProps> = ({ onPreview }) => {
             }
           } catch (error) {
             console.error("Error saving application to database:", error);
-            toast.error("Application saved locally but couldn't connect to database");
+            toast.error(isApiError(error, 'network') || isApiError(error, 'timeout')
+              ? "Application saved locally but couldn't connect to database"
+              : "Application saved locally but failed to save to database");
           }
         } else {
           console.log("Backend API not available, application only stored locally");
@@ -284,47 +298,32 @@ const EmailForm: React.FC<EmailFormProps> = ({ onPreview }) => {
   };
 
   const handleSetupAutoFollowUp = (app: Application) => {
+    if (!getServerApplication(app)) {
+      toast.error("This application isn't saved to your account yet, so its follow-ups can't be scheduled");
+      return;
+    }
+    
     setSelectedApplicationId(app.id);
-    setFollowUpSettings({
-      interval: app.autoFollowUp.interval,
-      intervalType: app.autoFollowUp.intervalType,
-      maxFollowUps: app.autoFollowUp.maxFollowUps,
-    });
     setIsFollowUpDialogOpen(true);
   };
 
-  const saveAutoFollowUpSettings = () => {
-    if (selectedApplicationId) {
-      updateApplication(selectedApplicationId, {
-        autoFollowUp: {
-          enabled: true,
-          interval: followUpSettings.interval,
-          intervalType: followUpSettings.intervalType,
-          maxFollowUps: followUpSettings.maxFollowUps,
-        }
-      });
-      
-      const intervalTypeLabel = followUpSettings.intervalType;
-      
-      toast.success(
-        `Auto follow-up set for every ${followUpSettings.interval} ${intervalTypeLabel} (max ${followUpSettings.maxFollowUps} times)`
-      );
-      
-      setIsFollowUpDialogOpen(false);
+  const disableAutoFollowUp = async (id: string) => {
+    const local = applications.find(app => app.id === id);
+    const server = local && getServerApplication(local);
+    if (!server) {
+      return;
     }
-  };
-
-  const disableAutoFollowUp = (id: string) => {
-    updateApplication(id, {
-      autoFollowUp: {
-        enabled: false,
-        interval: 2,
-        intervalType: 'days',
-        maxFollowUps: 5,
-      }
-    });
     
-    toast.success("Auto follow-up disabled");
+    try {
+      await updateFollowUpSettingsMutation.mutateAsync({
+        id: server._id,
+        settings: { ...server.follow_up_settings, paused: true }
+      });
+      toast.success("Auto follow-up paused");
+    } catch (error) {
+      console.error("Error pausing follow-ups:", error);
+      toast.error(getErrorMessage(error, "Failed to pause follow-ups"));
+    }
   };
 
   const handleNewDraft = (data: DraftFormValues) => {
@@ -370,6 +369,7 @@ const EmailForm: React.FC<EmailFormProps> = ({ onPreview }) => {
   };
 
   const selectedApplication = applications.find(app => app.id === selectedApplicationId) || null;
+  const selectedServerApplication = selectedApplication ? getServerApplication(selectedApplication) : undefined;
 
   return (
     <motion.div
@@ -470,6 +470,7 @@ const EmailForm: React.FC<EmailFormProps> = ({ onPreview }) => {
                       selectedApplicationId={selectedApplicationId}
                       handleSelectApplication={handleSelectApplication}
                       handleSetupAutoFollowUp={handleSetupAutoFollowUp}
+                      getFollowUpSettings={app => getServerApplication(app)?.follow_up_settings}
                       disableAutoFollowUp={disableAutoFollowUp}
                       isFollowUpDialogOpen={isFollowUpDialogOpen}
                       setIsFollowUpDialogOpen={setIsFollowUpDialogOpen}
@@ -478,14 +479,13 @@ const EmailForm: React.FC<EmailFormProps> = ({ onPreview }) => {
                       setEmailType={setEmailType}
                     />
                     
-                    <FollowUpSettingsDialog 
-                      open={isFollowUpDialogOpen}
-                      onOpenChange={setIsFollowUpDialogOpen}
-                      selectedApplication={selectedApplication}
-                      followUpSettings={followUpSettings}
-                      setFollowUpSettings={setFollowUpSettings}
-                      saveAutoFollowUpSettings={saveAutoFollowUpSettings}
-                    />
+                    {selectedServerApplication && (
+                      <FollowUpSettingsDialog 
+                        application={selectedServerApplication}
+                        open={isFollowUpDialogOpen}
+                        onOpenChange={setIsFollowUpDialogOpen}
+                      />
+                    )}
 
                     {selectedApplicationId && (
                       <div className="mt-6 flex justify-end">
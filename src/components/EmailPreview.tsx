@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
@@ -7,16 +7,19 @@ import { Loader2, Send, CheckCircle, Copy, Settings } from 'lucide-react';
 import { useApplicationStore } from '@/store/applicationStore';
 import { useEmailSettingsStore } from '@/store/emailSettingsStore';
 import { emailApi } from '@/lib/api';
+import { getErrorMessage } from '@/services/apiErrors';
+import { EMAIL_HTML_CLASS_NAME, htmlToPlainText, plainTextToHtml, sanitizeEmailHtml } from '@/lib/emailHtml';
 import EmailSettingsDialog from './email/EmailSettingsDialog';
 
 interface EmailPreviewProps {
   recipient: string;
   subject: string;
-  body: string;
+  body: string; // Plain text, or the fallback when there is no HTML
+  html?: string; // Rich-text body; built from the plain text when missing
   onBack: () => void;
 }
 
-const EmailPreview: React.FC<EmailPreviewProps> = ({ recipient, subject, body, onBack }) => {
+const EmailPreview: React.FC<EmailPreviewProps> = ({ recipient, subject, body, html, onBack }) => {
   const [isSending, setIsSending] = useState(false);
   const [sent, setSent] = useState(false);
   const [copied, setCopied] = useState(false);
@@ -27,12 +30,16 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({ recipient, subject, body, o
   
   // Get the application by email to update its status when sent
   const { getApplicationByEmail, incrementFollowUpCount } = useApplicationStore();
+  
+  // The email goes out as HTML with a plain-text alternative
+  const contentHtml = useMemo(() => sanitizeEmailHtml(html ?? plainTextToHtml(body)), [html, body]);
+  const plainText = useMemo(() => (html ? htmlToPlainText(contentHtml) : body), [html, contentHtml, body]);
 
   const handleCopy = useCallback(async () => {
     if (copied) return;
     
     try {
-      await navigator.clipboard.writeText(`Subject: ${subject}\n\n${body}`);
+      await navigator.clipboard.writeText(`Subject: ${subject}\n\n${plainText}`);
       setCopied(true);
       toast.success("Email content copied to clipboard");
       setTimeout(() => setCopied(false), 2000);
@@ -40,7 +47,7 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({ recipient, subject, body, o
       console.error('Copy failed:', err);
       toast.error("Failed to copy to clipboard");
     }
-  }, [subject, body, copied]);
+  }, [subject, plainText, copied]);
 
   const handleSend = useCallback(async () => {
     if (isSending || sent) return;
@@ -59,43 +66,33 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({ recipient, subject, body, o
       const application = getApplicationByEmail(recipient);
       
       // Send email via API
-      const result = await emailApi.send({
+      await emailApi.sendEmail({
         sender_email: settings.senderEmail,
         sender_name: settings.senderName,
         sender_password: settings.senderPassword,
         recipient_email: recipient,
         subject: subject,
-        email_content: body,
+        email_content: plainText,
+        email_content_html: contentHtml,
         smtp_server: settings.smtpServer,
         smtp_port: settings.smtpPort,
         application_id: application?.id
       });
       
-      if (result && result.success) {
-        // Update application status if it exists
-        if (application) {
-          incrementFollowUpCount(application.id);
-        }
-        
-        setSent(true);
-        toast.success("Email sent successfully");
-      } else {
-        throw new Error(result?.message || "Failed to send email");
+      // Update application status if it exists
+      if (application) {
+        incrementFollowUpCount(application.id);
       }
+      
+      setSent(true);
+      toast.success("Email sent successfully");
     } catch (error) {
       console.error('Send failed:', error);
-      toast.error("Failed to send email");
+      toast.error(getErrorMessage(error, "Failed to send email"));
     } finally {
       setIsSending(false);
     }
-  }, [recipient, subject, body, isSending, sent, getApplicationByEmail, incrementFollowUpCount, settings]);
-
-  const formattedBody = body.split('\n').map((line, i) => (
-    <React.Fragment key={i}>
-      {line}
-      <br />
-    </React.Fragment>
-  ));
+  }, [recipient, subject, plainText, contentHtml, isSending, sent, getApplicationByEmail, incrementFollowUpCount, settings]);
 
   return (
     <motion.div
@@ -103,7 +100,7 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({ recipient, subject, body, o
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, y: -20 }}
       transition={{ duration: 0.3 }}
-      className="w-full max-w-2xl mx-auto"
+      className="w-full max-w-4xl mx-auto"
     >
       <Card className="shadow-lg">
         <CardHeader className="pb-4">
@@ -141,17 +138,27 @@ const EmailPreview: React.FC<EmailPreviewProps> = ({ recipient, subject, body, o
               <p className="text-sm font-medium text-muted-foreground mb-1">Subject:</p>
               <p className="text-sm font-medium">{subject}</p>
             </div>
-            <div>
-              <p className="text-sm font-medium text-muted-foreground mb-1">Message:</p>
-              <motion.div 
-                className="p-4 bg-secondary/50 rounded-md text-sm whitespace-pre-line"
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ delay: 0.2, duration: 0.3 }}
-              >
-                {formattedBody}
-              </motion.div>
-            </div>
+            <motion.div
+              className="grid grid-cols-1 gap-4 md:grid-cols-2"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.2, duration: 0.3 }}
+            >
+              <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">Formatted (HTML):</p>
+                <div
+                  className={`p-4 bg-secondary/50 rounded-md text-sm ${EMAIL_HTML_CLASS_NAME}`}
+                  // Sanitized above: only formatting tags and http(s)/mailto links remain
+                  dangerouslySetInnerHTML={{ __html: contentHtml }}
+                />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">Plain text:</p>
+                <div className="p-4 bg-secondary/50 rounded-md text-sm whitespace-pre-wrap break-words font-mono">
+                  {plainText}
+                </div>
+              </div>
+            </motion.div>
           </div>
         </CardContent>
         <CardFooter className="justify-end">
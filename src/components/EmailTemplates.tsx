@@ -1,4 +1,5 @@
 import React from 'react';
+import { TemplateValues, renderTemplate } from '@/lib/templateEngine';
 
 export type EmailTemplateType = 'application' | 'followUp';
 
@@ -17,48 +18,68 @@ interface EmailTemplate {
   body: string;
 }
 
-export const generateEmailTemplate = (
-  type: EmailTemplateType,
-  data: TemplateData
-): EmailTemplate => {
-  if (type === 'application') {
-    return {
-      subject: `${data.fullName} - Application for ${data.position} position`,
-      body: `Dear Hiring Manager,
+// Built-in templates for the quick composer, in the shared template syntax
+const BUILT_IN_TEMPLATES: Record<EmailTemplateType, EmailTemplate> = {
+  application: {
+    subject: '{senderName} - Application for {position} position',
+    body: `Dear {recipientName},
 
-I hope this email finds you well. I am reaching out to express my strong interest in the ${data.position} position at ${data.company}. I was excited to learn about this opportunity and believe my skills and experience align well with what you're looking for.
+I hope this email finds you well. I am reaching out to express my strong interest in the {position} position at {company}. I was excited to learn about this opportunity and believe my skills and experience align well with what you're looking for.
 
-Throughout my career, I have developed expertise relevant to this role, and I'm particularly drawn to ${data.company} because of your reputation for innovation and excellence in the industry.
+Throughout my career, I have developed expertise relevant to this role, and I'm particularly drawn to {company} because of your reputation for innovation and excellence in the industry.
 
-${data.portfolio ? `To provide a better understanding of my work, please visit my portfolio at: ${data.portfolio}` : ''}
-${data.linkedIn ? `For a detailed overview of my professional background: ${data.linkedIn}` : ''}
+{#if portfolioUrl}To provide a better understanding of my work, please visit my portfolio at: {portfolioUrl}{/if}
+{#if linkedinUrl}For a detailed overview of my professional background: {linkedinUrl}{/if}
 
 I have attached my resume and cover letter that outline my qualifications in more detail. I would appreciate the opportunity to discuss how my background, skills, and enthusiasm would make me a valuable addition to your team.
 
 Thank you for considering my application. I look forward to the possibility of speaking with you soon.
 
 Best regards,
-${data.fullName}`
-    };
-  } else {
-    return {
-      subject: `Follow-up: ${data.fullName} - Application for ${data.position} position`,
-      body: `Dear Hiring Manager,
+{senderName}`
+  },
+  followUp: {
+    subject: 'Follow-up: {senderName} - Application for {position} position',
+    body: `Dear {recipientName},
+
+I hope this message finds you well. I am writing to follow up on my application for the {position} position that I submitted {#if applicationDate}on {applicationDate}{else}recently{/if}.
+
+I remain very enthusiastic about the opportunity to join {company} and contribute to your team. I'm particularly interested in discussing how my experience can help address the challenges and goals of your organization.
 
-I hope this message finds you well. I am writing to follow up on my application for the ${data.position} position that I submitted ${data.sentDate ? `on ${data.sentDate}` : 'recently'}.
+{#if previousEmail}For your convenience, I've included my original application below.
 
-I remain very enthusiastic about the opportunity to join ${data.company} and contribute to your team. I'm particularly interested in discussing how my experience can help address the challenges and goals of your organization.
+---
 
-${data.previousEmail ? `For your convenience, I've included my original application below.\n\n---\n\n${data.previousEmail}` : ''}
+{previousEmail}{/if}
 
 Thank you for your time and consideration. I understand that the hiring process can take time, and I appreciate your thoroughness in selecting the right candidate. Please let me know if you need any additional information from me.
 
 Best regards,
-${data.fullName}`
-    };
+{senderName}`
   }
 };
 
+export const generateEmailTemplate = (
+  type: EmailTemplateType,
+  data: TemplateData
+): EmailTemplate => {
+  const values: TemplateValues = {
+    senderName: data.fullName,
+    position: data.position,
+    company: data.company,
+    portfolioUrl: data.portfolio,
+    linkedinUrl: data.linkedIn,
+    previousEmail: data.previousEmail,
+    applicationDate: data.sentDate
+  };
+  const template = BUILT_IN_TEMPLATES[type];
+
+  return {
+    subject: renderTemplate(template.subject, values).text,
+    body: renderTemplate(template.body, values).text
+  };
+};
+
 const EmailTemplates: React.FC<{
   type: EmailTemplateType;
   data: TemplateData;
@@ -0,0 +1,155 @@
+import React from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, CalendarClock, CalendarDays, Eye, Send } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { JobApplication } from '@/lib/api';
+import { FollowUpQueue as Queue, ScheduledFollowUp, getFollowUpLimit } from '@/lib/followUpSchedule';
+import { getNextSequenceStep } from '@/lib/followUpSequences';
+
+interface FollowUpQueueProps {
+  queue: Queue;
+  onSend: (application: JobApplication) => void;
+  onOpen: (application: JobApplication) => void;
+  isSending?: boolean;
+}
+
+interface QueueSectionProps {
+  title: string;
+  description: string;
+  icon: React.ElementType;
+  entries: ScheduledFollowUp[];
+  emptyText: string;
+  tone?: 'destructive' | 'default';
+  onSend?: (application: JobApplication) => void;
+  onOpen: (application: JobApplication) => void;
+  isSending?: boolean;
+}
+
+const QueueSection: React.FC<QueueSectionProps> = ({
+  title,
+  description,
+  icon: Icon,
+  entries,
+  emptyText,
+  tone = 'default',
+  onSend,
+  onOpen,
+  isSending
+}) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardTitle className="flex items-center gap-2 text-lg">
+        <Icon className={tone === 'destructive' ? "h-5 w-5 text-destructive" : "h-5 w-5 text-primary"} />
+        {title}
+        <Badge variant={tone === 'destructive' && entries.length > 0 ? 'destructive' : 'secondary'}>{entries.length}</Badge>
+      </CardTitle>
+      <CardDescription>{description}</CardDescription>
+    </CardHeader>
+    <CardContent>
+      {entries.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Due</TableHead>
+              <TableHead>Company</TableHead>
+              <TableHead>Position</TableHead>
+              <TableHead>Recipient</TableHead>
+              <TableHead>Follow-up #</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(({ application, dueDate }) => (
+              <TableRow key={application._id}>
+                <TableCell>
+                  <div>{format(dueDate, 'MMM d, yyyy')}</div>
+                  <div className="text-xs text-muted-foreground">{formatDistanceToNow(dueDate, { addSuffix: true })}</div>
+                </TableCell>
+                <TableCell>{application.company || 'N/A'}</TableCell>
+                <TableCell>{application.position || 'N/A'}</TableCell>
+                <TableCell>{application.recipient_email}</TableCell>
+                <TableCell>
+                  {(application.follow_up_settings?.follow_up_count || 0) + 1} of {getFollowUpLimit(application.follow_up_settings)}
+                  {getNextSequenceStep(application.follow_up_settings) && (
+                    <div className="text-xs text-muted-foreground">
+                      {getNextSequenceStep(application.follow_up_settings)?.name}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    {onSend && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onSend(application)}
+                        disabled={isSending}
+                        className="flex items-center gap-2"
+                      >
+                        <Send className="h-4 w-4" /> Send now
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onOpen(application)}
+                      className="flex items-center gap-2"
+                    >
+                      <Eye className="h-4 w-4" /> View/Edit
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      )}
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Pending follow-ups grouped into overdue, due today and upcoming
+ */
+const FollowUpQueue: React.FC<FollowUpQueueProps> = ({ queue, onSend, onOpen, isSending }) => (
+  <div className="space-y-6">
+    <QueueSection
+      title="Overdue"
+      description="These should have gone out already"
+      icon={AlertTriangle}
+      tone="destructive"
+      entries={queue.overdue}
+      emptyText="Nothing overdue."
+      onSend={onSend}
+      onOpen={onOpen}
+      isSending={isSending}
+    />
+    <QueueSection
+      title="Due today"
+      description="Follow-ups to send today"
+      icon={CalendarClock}
+      entries={queue.dueToday}
+      emptyText="No follow-ups due today."
+      onSend={onSend}
+      onOpen={onOpen}
+      isSending={isSending}
+    />
+    <QueueSection
+      title="Upcoming"
+      description="Scheduled for later, based on each application's follow-up settings"
+      icon={CalendarDays}
+      entries={queue.upcoming}
+      emptyText="No upcoming follow-ups."
+      onSend={onSend}
+      onOpen={onOpen}
+      isSending={isSending}
+    />
+  </div>
+);
+
+export default FollowUpQueue;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { toast } from "sonner";
 import { 
   Dialog, 
@@ -27,63 +27,166 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import BlackoutDatesPicker from './BlackoutDatesPicker';
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
-import { FollowUpSettings, JobApplication, applicationsApi } from '@/lib/api';
+import { FollowUpIntervalUnit, FollowUpSettings, JobApplication } from '@/lib/api';
+import { withNextFollowUpDate } from '@/lib/followUpSchedule';
+import { INTERVAL_LIMITS, convertInterval, formatInterval, getInterval, toIntervalFields } from '@/lib/followUpPolicy';
+import { useUpdateFollowUpSettings } from '@/hooks/useApplicationQueries';
+import { getLocalTimeZone, getTimeZones, isValidTimeZone } from '@/lib/zonedTime';
+import { getErrorMessage } from '@/services/apiErrors';
+import { useFollowUpSequenceStore } from '@/store/followUpSequenceStore';
+
+// Select value for "no sequence" (Radix selects can't use an empty string)
+const NO_SEQUENCE = "none";
 
 // Define form validation schema
 const formSchema = z.object({
   type: z.enum(["one_time", "periodic_limited", "until_response"], {
     required_error: "Please select a follow-up type",
   }),
-  interval_days: z.coerce.number()
-    .min(1, "Interval must be at least 1 day")
-    .max(30, "Interval must be at most 30 days"),
+  enabled: z.boolean(),
+  sequence_id: z.string(),
+  interval: z.coerce.number(),
+  interval_unit: z.enum(["minutes", "hours", "days"]),
   max_count: z.coerce.number()
     .min(1, "Maximum follow-up count must be at least 1")
     .max(10, "Maximum follow-up count must be at most 10"),
-  follow_up_count: z.coerce.number().optional()
+  follow_up_count: z.coerce.number().optional(),
+  business_days_only: z.boolean(),
+  window_start: z.string(),
+  window_end: z.string(),
+  recipient_timezone: z.string().trim(),
+  blackout_dates: z.array(z.string())
+}).superRefine((values, ctx) => {
+  // The allowed interval depends on its unit; a sequence brings its own delays
+  const { min, max } = INTERVAL_LIMITS[values.interval_unit];
+  if (values.sequence_id === NO_SEQUENCE && (values.interval < min || values.interval > max)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["interval"],
+      message: `Interval must be between ${min} and ${max} ${values.interval_unit}`,
+    });
+  }
+
+  // A sending window needs both ends, in order (HH:mm compares as text)
+  if (!!values.window_start !== !!values.window_end) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["window_end"],
+      message: "Set both a start and an end time, or neither",
+    });
+  } else if (values.window_start && values.window_start >= values.window_end) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["window_end"],
+      message: "The window must end after it starts",
+    });
+  }
+
+  if (values.recipient_timezone && !isValidTimeZone(values.recipient_timezone)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["recipient_timezone"],
+      message: "Unknown time zone, e.g. use Europe/Berlin",
+    });
+  }
 });
 
+const TIME_ZONES = getTimeZones();
+
 interface FollowUpSettingsDialogProps {
   application: JobApplication;
-  onSettingsUpdated: (updatedSettings: FollowUpSettings) => void;
+  onSettingsUpdated?: (updatedSettings: FollowUpSettings) => void;
   trigger?: React.ReactNode;
+  // Pass open/onOpenChange to control the dialog from outside instead of a trigger
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
 }
 
+const toFormValues = (settings: FollowUpSettings | undefined) => {
+  const interval = getInterval(settings);
+  return {
+    type: settings?.type || "periodic_limited",
+    enabled: !settings?.paused,
+    sequence_id: settings?.sequence_id || NO_SEQUENCE,
+    interval: interval.value,
+    interval_unit: interval.unit,
+    max_count: settings?.max_count || 3,
+    follow_up_count: settings?.follow_up_count || 0,
+    business_days_only: settings?.business_days_only ?? false,
+    window_start: settings?.send_window?.start ?? "",
+    window_end: settings?.send_window?.end ?? "",
+    recipient_timezone: settings?.recipient_timezone ?? "",
+    blackout_dates: settings?.blackout_dates ?? []
+  };
+};
+
+/**
+ * Edit an application's follow-up policy: type, interval (minutes to days),
+ * maximum count, whether follow-ups are enabled and when they may be sent.
+ * Saved to the backend.
+ */
 const FollowUpSettingsDialog: React.FC<FollowUpSettingsDialogProps> = ({ 
   application, 
   onSettingsUpdated,
-  trigger 
+  trigger,
+  open: controlledOpen,
+  onOpenChange
 }) => {
-  const [open, setOpen] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const open = controlledOpen ?? uncontrolledOpen;
+  const setOpen = (value: boolean) => {
+    setUncontrolledOpen(value);
+    onOpenChange?.(value);
+  };
+  const updateSettingsMutation = useUpdateFollowUpSettings();
+  const isSubmitting = updateSettingsMutation.isPending;
   
   // Set up form with default values from application
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      type: application.follow_up_settings?.type || "periodic_limited",
-      interval_days: application.follow_up_settings?.interval_days || 7,
-      max_count: application.follow_up_settings?.max_count || 3,
-      follow_up_count: application.follow_up_settings?.follow_up_count || 0
-    },
+    defaultValues: toFormValues(application.follow_up_settings),
   });
+  
+  // Start from the saved settings every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(application.follow_up_settings));
+    }
+  }, [open, application.follow_up_settings, form]);
+  
+  const intervalUnit = form.watch("interval_unit");
+  const sequences = useFollowUpSequenceStore(state => state.sequences);
+  const sequenceId = form.watch("sequence_id");
+  const selectedSequence = sequences.find(sequence => sequence.id === sequenceId);
+  // Sequences are saved per browser, so the assigned one may not be here
+  const isSequenceMissing = sequenceId !== NO_SEQUENCE && !selectedSequence;
 
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
     try {
-      setIsSubmitting(true);
-      
       // Prepare settings object
-      const updatedSettings: FollowUpSettings = {
+      // Keep the rest of the schedule (e.g. paused) and recompute the next due date
+      const updatedSettings: FollowUpSettings = withNextFollowUpDate({
+        ...application.follow_up_settings,
         type: values.type,
-        interval_days: values.interval_days,
+        ...toIntervalFields(values.interval, values.interval_unit),
         max_count: values.max_count,
+        paused: !values.enabled,
+        sequence_id: values.sequence_id === NO_SEQUENCE ? null : values.sequence_id,
+        business_days_only: values.business_days_only,
+        send_window: values.window_start && values.window_end
+          ? { start: values.window_start, end: values.window_end }
+          : null,
+        recipient_timezone: values.recipient_timezone || null,
+        blackout_dates: values.blackout_dates,
         follow_up_count: values.follow_up_count || application.follow_up_settings?.follow_up_count || 0,
-        last_follow_up_date: application.follow_up_settings?.last_follow_up_date || null,
-        next_follow_up_date: application.follow_up_settings?.next_follow_up_date || null
-      };
+        last_follow_up_date: application.follow_up_settings?.last_follow_up_date || null
+      }, application.sent_at);
       
       console.log("Updating follow-up settings for application:", application);
       console.log("Application ID:", application._id, "Type:", typeof application._id);
@@ -104,31 +207,25 @@ const FollowUpSettingsDialog: React.FC<FollowUpSettingsDialogProps> = ({
       console.log("Using application ID for update:", applicationId);
       
       // Update follow-up settings through API
-      const success = await applicationsApi.updateFollowUpSettings(applicationId, updatedSettings);
+      await updateSettingsMutation.mutateAsync({ id: applicationId, settings: updatedSettings });
       
-      console.log("API update result:", success);
-      
-      if (success) {
-        toast.success("Follow-up settings updated successfully");
-        onSettingsUpdated(updatedSettings);
-        setOpen(false);
-      } else {
-        toast.error("Failed to update follow-up settings");
-      }
+      toast.success("Follow-up settings updated successfully");
+      onSettingsUpdated?.(updatedSettings);
+      setOpen(false);
     } catch (error) {
       console.error("Error updating follow-up settings:", error);
-      toast.error("An error occurred while updating follow-up settings");
-    } finally {
-      setIsSubmitting(false);
+      toast.error(getErrorMessage(error, "An error occurred while updating follow-up settings"));
     }
   };
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        {trigger || <Button variant="outline">Edit Follow-up Settings</Button>}
-      </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      {controlledOpen === undefined && (
+        <DialogTrigger asChild>
+          {trigger || <Button variant="outline">Edit Follow-up Settings</Button>}
+        </DialogTrigger>
+      )}
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Follow-up Settings</DialogTitle>
           <DialogDescription>
@@ -140,46 +237,230 @@ const FollowUpSettingsDialog: React.FC<FollowUpSettingsDialogProps> = ({
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <FormField
               control={form.control}
-              name="type"
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Follow-ups enabled</FormLabel>
+                    <FormDescription>
+                      Pausing keeps the schedule and count so you can resume later
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="sequence_id"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Follow-up Type</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange} 
-                    defaultValue={field.value}
-                  >
+                  <FormLabel>Sequence</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select a follow-up type" />
+                        <SelectValue placeholder="Select a sequence" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="one_time">One Time</SelectItem>
-                      <SelectItem value="periodic_limited">Periodic (Limited)</SelectItem>
-                      <SelectItem value="until_response">Until Response</SelectItem>
+                      <SelectItem value={NO_SEQUENCE}>None (same email at a fixed interval)</SelectItem>
+                      {isSequenceMissing && (
+                        <SelectItem value={sequenceId}>Unavailable sequence</SelectItem>
+                      )}
+                      {sequences.map(sequence => (
+                        <SelectItem key={sequence.id} value={sequence.id}>{sequence.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormDescription>
-                    {field.value === 'one_time' && "Send a single follow-up email"}
-                    {field.value === 'periodic_limited' && "Send follow-ups periodically with a maximum count"}
-                    {field.value === 'until_response' && "Send follow-ups until a response is received"}
+                    Sequences are managed under Settings &gt; Follow-up Sequences
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
             
+            {selectedSequence ? (
+              <ol className="space-y-1 rounded-md border p-3 text-sm">
+                {selectedSequence.steps.map((step, index) => (
+                  <li key={step.id} className="flex justify-between gap-2">
+                    <span>{index + 1}. {step.name || `Step ${index + 1}`}</span>
+                    <span className="text-muted-foreground">
+                      after {formatInterval(toIntervalFields(step.delay, step.delayUnit))}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            ) : isSequenceMissing ? (
+              <p className="rounded-md border border-destructive p-3 text-sm text-destructive">
+                This application's sequence isn't saved in this browser, so no follow-ups are
+                scheduled from it here. Pick a sequence, or none to use a fixed interval.
+              </p>
+            ) : (
+              <>
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Follow-up Type</FormLabel>
+                    <Select 
+                      onValueChange={field.onChange} 
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a follow-up type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="one_time">One Time</SelectItem>
+                        <SelectItem value="periodic_limited">Periodic (Limited)</SelectItem>
+                        <SelectItem value="until_response">Until Response</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {field.value === 'one_time' && "Send a single follow-up email"}
+                      {field.value === 'periodic_limited' && "Send follow-ups periodically with a maximum count"}
+                      {field.value === 'until_response' && "Send follow-ups until a response is received"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            
+              <FormField
+                control={form.control}
+                name="interval"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Follow-up Interval</FormLabel>
+                    <div className="flex items-center gap-2">
+                      <FormControl>
+                        <Input
+                          type="number"
+                          {...field}
+                          min={INTERVAL_LIMITS[intervalUnit].min}
+                          max={INTERVAL_LIMITS[intervalUnit].max}
+                          className="w-24"
+                        />
+                      </FormControl>
+                      <Select
+                        value={intervalUnit}
+                        onValueChange={(unit: FollowUpIntervalUnit) => {
+                          // Keep the same length of time, within the new unit's limits
+                          form.setValue("interval", convertInterval(Number(field.value) || 1, intervalUnit, unit));
+                          form.setValue("interval_unit", unit);
+                        }}
+                      >
+                        <SelectTrigger className="w-[110px]">
+                          <SelectValue placeholder="Select unit" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="minutes">minutes</SelectItem>
+                          <SelectItem value="hours">hours</SelectItem>
+                          <SelectItem value="days">days</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <FormDescription>
+                      Time to wait between follow-up emails. {INTERVAL_LIMITS[intervalUnit].hint}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            
+              <FormField
+                control={form.control}
+                name="max_count"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Maximum Follow-ups</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} min={1} max={10} />
+                    </FormControl>
+                    <FormDescription>
+                      Maximum number of follow-up emails to send
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            
+              </>
+            )}
+            
+            <Separator />
+            <div>
+              <h4 className="text-sm font-medium">Sending rules</h4>
+              <p className="text-sm text-muted-foreground">
+                Due dates that fall outside these rules move to the next allowed time.
+              </p>
+            </div>
+            
             <FormField
               control={form.control}
-              name="interval_days"
+              name="business_days_only"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Business days only</FormLabel>
+                    <FormDescription>Never send on Saturdays or Sundays</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="window_start"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Send from</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="window_end"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Until</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
+            <FormField
+              control={form.control}
+              name="recipient_timezone"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Follow-up Interval (days)</FormLabel>
+                  <FormLabel>Recipient Time Zone</FormLabel>
                   <FormControl>
-                    <Input type="number" {...field} min={1} max={30} />
+                    <Input {...field} list="follow-up-time-zones" placeholder={getLocalTimeZone()} />
                   </FormControl>
+                  <datalist id="follow-up-time-zones">
+                    {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                  </datalist>
                   <FormDescription>
-                    Number of days to wait between follow-up emails
+                    The sending window and blocked days use this zone. Leave empty to use yours.
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -188,21 +469,21 @@ const FollowUpSettingsDialog: React.FC<FollowUpSettingsDialogProps> = ({
             
             <FormField
               control={form.control}
-              name="max_count"
+              name="blackout_dates"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Maximum Follow-ups</FormLabel>
+                  <FormLabel>Blocked Days</FormLabel>
                   <FormControl>
-                    <Input type="number" {...field} min={1} max={10} />
+                    <BlackoutDatesPicker value={field.value} onChange={field.onChange} />
                   </FormControl>
-                  <FormDescription>
-                    Maximum number of follow-up emails to send
-                  </FormDescription>
+                  <FormDescription>Holidays or other days to skip</FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
             
+            <Separator />
+            
             <FormField
               control={form.control}
               name="follow_up_count"
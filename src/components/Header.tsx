@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Send, Moon, Sun, LayoutDashboard, Settings, LogOut, User } from 'lucide-react';
+import { Send, Moon, Sun, LayoutDashboard, FolderKanban, BarChart3, Building2, Contact, Settings, LogOut, User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useTheme } from 'next-themes';
 import { Link, useNavigate } from 'react-router-dom';
@@ -55,6 +55,42 @@ const Header = () => {
                 <LayoutDashboard className="h-5 w-5" />
               </Button>
             </Link>
+            <Link to="/board">
+              <Button 
+                variant="ghost" 
+                size="icon"
+                aria-label="Go to pipeline board"
+              >
+                <FolderKanban className="h-5 w-5" />
+              </Button>
+            </Link>
+            <Link to="/analytics">
+              <Button 
+                variant="ghost" 
+                size="icon"
+                aria-label="Go to analytics"
+              >
+                <BarChart3 className="h-5 w-5" />
+              </Button>
+            </Link>
+            <Link to="/contacts">
+              <Button 
+                variant="ghost" 
+                size="icon"
+                aria-label="Go to contacts"
+              >
+                <Contact className="h-5 w-5" />
+              </Button>
+            </Link>
+            <Link to="/companies">
+              <Button 
+                variant="ghost" 
+                size="icon"
+                aria-label="Go to companies"
+              >
+                <Building2 className="h-5 w-5" />
+              </Button>
+            </Link>
             <Link to="/settings">
               <Button 
                 variant="ghost" 
@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { cn } from '@/lib/utils';
+
+interface PlainTextVersionProps {
+  text: string;
+}
+
+/**
+ * The plain-text alternative generated from the rich-text body, for mail
+ * clients that don't show HTML
+ */
+const PlainTextVersion: React.FC<PlainTextVersionProps> = ({ text }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+        <ChevronDown className={cn("h-3 w-3 transition-transform", open && "rotate-180")} />
+        Plain-text version
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="mt-2 rounded-md border bg-muted/40 p-3 font-mono text-xs whitespace-pre-wrap">
+          {text || 'Nothing written yet.'}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default PlainTextVersion;
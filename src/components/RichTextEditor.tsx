@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bold, Italic, Link, List, ListOrdered, RemoveFormatting, Underline, Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import { cn } from '@/lib/utils';
+import { EMAIL_HTML_CLASS_NAME, escapeHtml, htmlToPlainText, sanitizeEmailHtml } from '@/lib/emailHtml';
+
+interface RichTextEditorProps {
+  id?: string;
+  value: string; // HTML
+  onChange: (html: string) => void;
+  placeholder?: string;
+  invalid?: boolean;
+  className?: string;
+}
+
+type FormatCommand = 'bold' | 'italic' | 'underline' | 'insertUnorderedList' | 'insertOrderedList';
+
+const FORMAT_BUTTONS: { command: FormatCommand; label: string; icon: React.ElementType }[] = [
+  { command: 'bold', label: 'Bold', icon: Bold },
+  { command: 'italic', label: 'Italic', icon: Italic },
+  { command: 'underline', label: 'Underline', icon: Underline },
+  { command: 'insertUnorderedList', label: 'Bulleted list', icon: List },
+  { command: 'insertOrderedList', label: 'Numbered list', icon: ListOrdered },
+];
+
+// Bare addresses like "linkedin.com/in/me" are taken as web links
+const normalizeUrl = (url: string): string => {
+  const trimmed = url.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) return `mailto:${trimmed}`;
+  return `https://${trimmed}`;
+};
+
+/**
+ * Email body editor with bold, italic, links and lists. Emits the editor's
+ * HTML as typed; sanitize it with sanitizeEmailHtml before sending.
+ */
+const RichTextEditor: React.FC<RichTextEditorProps> = ({ id, value, onChange, placeholder, invalid, className }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // The selection to turn into a link, kept while the link popover has focus
+  const linkRange = useRef<Range | null>(null);
+  const [isLinkOpen, setIsLinkOpen] = useState(false);
+  const [linkUrl, setLinkUrl] = useState('');
+  const [activeFormats, setActiveFormats] = useState<Set<FormatCommand>>(new Set());
+
+  // Load outside changes (an applied template, a loaded application); typing
+  // already matches the value, so the cursor stays put
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== value) {
+      editor.innerHTML = sanitizeEmailHtml(value);
+    }
+  }, [value]);
+
+  // Highlight the toolbar buttons for the formatting at the cursor
+  useEffect(() => {
+    const updateActiveFormats = () => {
+      const selection = document.getSelection();
+      if (!selection?.anchorNode || !editorRef.current?.contains(selection.anchorNode)) return;
+      setActiveFormats(new Set(FORMAT_BUTTONS.map(button => button.command).filter(command => document.queryCommandState(command))));
+    };
+    document.addEventListener('selectionchange', updateActiveFormats);
+    return () => document.removeEventListener('selectionchange', updateActiveFormats);
+  }, []);
+
+  const emitChange = () => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== value) onChange(editor.innerHTML);
+  };
+
+  const runCommand = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  // Pasted content keeps only the formatting emails allow
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html');
+    const text = e.clipboardData.getData('text/plain');
+    runCommand('insertHTML', html ? sanitizeEmailHtml(html) : escapeHtml(text).replace(/\n/g, '<br>'));
+  };
+
+  const openLinkPopover = (open: boolean) => {
+    if (open) {
+      const selection = document.getSelection();
+      linkRange.current = selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.anchorNode)
+        ? selection.getRangeAt(0).cloneRange()
+        : null;
+      setLinkUrl('');
+    }
+    setIsLinkOpen(open);
+  };
+
+  const insertLink = () => {
+    if (!linkUrl.trim()) return;
+    const url = normalizeUrl(linkUrl);
+
+    editorRef.current?.focus();
+    const selection = document.getSelection();
+    if (linkRange.current && selection) {
+      selection.removeAllRanges();
+      selection.addRange(linkRange.current);
+    }
+
+    // With nothing selected, the address itself becomes the link text
+    if (!selection || selection.isCollapsed) {
+      runCommand('insertHTML', `<a href="${escapeHtml(url)}">${escapeHtml(linkUrl.trim())}</a>`);
+    } else {
+      runCommand('createLink', url);
+    }
+    setIsLinkOpen(false);
+  };
+
+  const isEmpty = !htmlToPlainText(value);
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border border-input bg-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2",
+        invalid && "border-destructive",
+        className
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-1 border-b p-1">
+        {FORMAT_BUTTONS.map(({ command, label, icon: Icon }) => (
+          <Button
+            key={command}
+            type="button"
+            variant={activeFormats.has(command) ? "secondary" : "ghost"}
+            size="icon"
+            className="h-8 w-8"
+            title={label}
+            aria-label={label}
+            aria-pressed={activeFormats.has(command)}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => runCommand(command)}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <Separator orientation="vertical" className="mx-1 h-6" />
+        <Popover open={isLinkOpen} onOpenChange={openLinkPopover}>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Add link"
+              aria-label="Add link"
+              onMouseDown={(e) => e.preventDefault()}
+            >
+              <Link className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80" align="start">
+            <div className="flex gap-2">
+              <Input
+                autoFocus
+                value={linkUrl}
+                onChange={(e) => setLinkUrl(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    insertLink();
+                  }
+                }}
+                placeholder="https://..."
+                className="h-8"
+              />
+              <Button type="button" size="sm" onClick={insertLink} disabled={!linkUrl.trim()}>
+                Add
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          title="Remove link"
+          aria-label="Remove link"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => runCommand('unlink')}
+        >
+          <Unlink className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          title="Clear formatting"
+          aria-label="Clear formatting"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => runCommand('removeFormat')}
+        >
+          <RemoveFormatting className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="relative">
+        {isEmpty && placeholder && (
+          <p className="pointer-events-none absolute left-3 top-2 text-sm text-muted-foreground">{placeholder}</p>
+        )}
+        <div
+          id={id}
+          ref={editorRef}
+          role="textbox"
+          aria-multiline="true"
+          aria-invalid={invalid}
+          contentEditable
+          suppressContentEditableWarning
+          // Enter starts a new paragraph (browsers default to <div>)
+          onFocus={() => document.execCommand('defaultParagraphSeparator', false, 'p')}
+          onInput={emitChange}
+          onBlur={emitChange}
+          onPaste={handlePaste}
+          className={cn("min-h-[300px] px-3 py-2 text-sm outline-none", EMAIL_HTML_CLASS_NAME)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RichTextEditor;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { addDays, format, formatDistanceToNow, nextMonday, setHours, startOfDay } from 'date-fns';
+import { Clock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import DateTimePicker from './DateTimePicker';
+import { getScheduleError } from '@/lib/scheduledSends';
+
+interface ScheduleSendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (scheduledAt: Date) => void;
+  initialValue?: Date | null;
+  title?: string;
+  isSubmitting?: boolean;
+}
+
+// Business-hours shortcuts, so night-time drafts land in the morning
+const getPresets = (now: Date) => [
+  { label: 'Tomorrow 9:00', date: setHours(startOfDay(addDays(now, 1)), 9) },
+  { label: 'Tomorrow 13:00', date: setHours(startOfDay(addDays(now, 1)), 13) },
+  { label: 'Monday 9:00', date: setHours(startOfDay(nextMonday(now)), 9) },
+];
+
+/**
+ * Pick when an application should be sent
+ */
+const ScheduleSendDialog: React.FC<ScheduleSendDialogProps> = ({
+  open,
+  onOpenChange,
+  onConfirm,
+  initialValue,
+  title = "Send later",
+  isSubmitting
+}) => {
+  const [scheduledAt, setScheduledAt] = useState<Date | undefined>();
+  const [showError, setShowError] = useState(false);
+
+  // Start from the current schedule (or nothing) every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setScheduledAt(initialValue ?? undefined);
+      setShowError(false);
+    }
+  }, [open, initialValue]);
+
+  const error = getScheduleError(scheduledAt);
+
+  const handleConfirm = () => {
+    if (error || !scheduledAt) {
+      setShowError(true);
+      return;
+    }
+    onConfirm(scheduledAt);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            The application is sent at this time (your local time) while the app is open in a browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {getPresets(new Date()).map(preset => (
+              <Button
+                key={preset.label}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setScheduledAt(preset.date)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+
+          <DateTimePicker value={scheduledAt} onChange={setScheduledAt} disablePast />
+
+          {scheduledAt && !error && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              {format(scheduledAt, 'EEEE, MMM d, yyyy HH:mm')} ({formatDistanceToNow(scheduledAt, { addSuffix: true })})
+            </p>
+          )}
+          {showError && error && <p className="text-sm font-medium text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleConfirm} disabled={isSubmitting}>
+            {isSubmitting ? "Scheduling..." : "Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleSendDialog;
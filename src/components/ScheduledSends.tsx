@@ -0,0 +1,110 @@
+import React from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { CalendarClock, Eye, Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { JobApplication } from '@/lib/api';
+
+interface ScheduledSendsProps {
+  applications: JobApplication[];
+  onSendNow: (application: JobApplication) => void;
+  onReschedule: (application: JobApplication) => void;
+  onCancel: (application: JobApplication) => void;
+  onOpen: (application: JobApplication) => void;
+  isBusy?: boolean;
+  sendingIds?: ReadonlySet<string>; // Being sent right now, by this tab or another
+}
+
+/**
+ * Applications waiting for their scheduled send time, soonest first
+ */
+const ScheduledSends: React.FC<ScheduledSendsProps> = ({
+  applications,
+  onSendNow,
+  onReschedule,
+  onCancel,
+  onOpen,
+  isBusy,
+  sendingIds
+}) => {
+  if (applications.length === 0) {
+    return <p>No scheduled applications. Use "Send Later" when creating an application, or schedule a draft.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Sends</TableHead>
+          <TableHead>Company</TableHead>
+          <TableHead>Position</TableHead>
+          <TableHead>Recipient</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {applications.map(application => {
+          const scheduledAt = application.scheduled_at ? new Date(application.scheduled_at) : null;
+          const isSending = !!sendingIds?.has(application._id);
+
+          return (
+            <TableRow key={application._id}>
+              <TableCell>
+                {scheduledAt ? (
+                  <>
+                    <div>{format(scheduledAt, 'EEE, MMM d, HH:mm')}</div>
+                    <div className="text-xs text-muted-foreground">{formatDistanceToNow(scheduledAt, { addSuffix: true })}</div>
+                  </>
+                ) : 'N/A'}
+              </TableCell>
+              <TableCell>{application.company || 'N/A'}</TableCell>
+              <TableCell>{application.position || 'N/A'}</TableCell>
+              <TableCell>{application.recipient_email}</TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onSendNow(application)}
+                    disabled={isBusy || isSending}
+                    className="flex items-center gap-2"
+                  >
+                    <Send className="h-4 w-4" /> {isSending ? 'Sending...' : 'Send now'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onReschedule(application)}
+                    disabled={isBusy || isSending}
+                    className="flex items-center gap-2"
+                  >
+                    <CalendarClock className="h-4 w-4" /> Reschedule
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onCancel(application)}
+                    disabled={isBusy || isSending}
+                    className="flex items-center gap-2"
+                  >
+                    <X className="h-4 w-4" /> Cancel
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onOpen(application)}
+                    className="flex items-center gap-2"
+                  >
+                    <Eye className="h-4 w-4" /> View/Edit
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default ScheduledSends;
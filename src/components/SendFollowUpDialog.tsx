@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListOrdered, Send } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import TemplatePicker from './email-templates/TemplatePicker';
+import AttachmentPicker from './attachments/AttachmentPicker';
+import { Attachment, JobApplication } from '@/lib/api';
+import { getAttachmentFields, getAttachmentsSizeError } from '@/lib/attachments';
+import { FollowUpRequest, FollowUpTemplate, buildFollowUpRequest } from '@/lib/followUps';
+import { getNextSequenceStep } from '@/lib/followUpSequences';
+import { useTemplateChoices } from '@/hooks/useEmailTemplates';
+import { EmailTemplateType, useEmailSettingsStore } from '@/store/emailSettingsStore';
+
+interface SendFollowUpDialogProps {
+  application: JobApplication | null; // Open while set
+  onOpenChange: (open: boolean) => void;
+  onSend: (application: JobApplication, followUp: FollowUpRequest) => void;
+  isSending?: boolean;
+}
+
+/**
+ * Review a follow-up before it goes out: pick a library template, then edit
+ * the filled-in subject and body
+ */
+const SendFollowUpDialog: React.FC<SendFollowUpDialogProps> = ({
+  application,
+  onOpenChange,
+  onSend,
+  isSending
+}) => {
+  const { settings: emailSettings } = useEmailSettingsStore();
+  const { defaultChoice, isLoading } = useTemplateChoices(EmailTemplateType.FOLLOW_UP);
+  const [subject, setSubject] = useState('');
+  const [content, setContent] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Application the fields were last filled for, so refetches don't overwrite edits
+  const prefilledFor = useRef<string | null>(null);
+
+  const step = application ? getNextSequenceStep(application.follow_up_settings) : undefined;
+
+  const fillFrom = (app: JobApplication, template?: FollowUpTemplate) => {
+    const request = buildFollowUpRequest(app, emailSettings, template);
+    setSubject(request.subject);
+    setContent(request.content);
+  };
+
+  // Fill in the default template once it has loaded for each application opened
+  useEffect(() => {
+    if (!application) {
+      prefilledFor.current = null;
+      return;
+    }
+    if (isLoading || prefilledFor.current === application._id) return;
+
+    prefilledFor.current = application._id;
+    const request = buildFollowUpRequest(application, emailSettings, defaultChoice);
+    setSubject(request.subject);
+    setContent(request.content);
+    setAttachments([]);
+  }, [application, isLoading, defaultChoice, emailSettings]);
+
+  const handleSend = () => {
+    if (!application) return;
+    onSend(application, {
+      ...buildFollowUpRequest(application, emailSettings),
+      subject,
+      content,
+      ...(attachments.length > 0 ? getAttachmentFields(attachments) : {})
+    });
+  };
+
+  return (
+    <Dialog open={application !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Send follow-up</DialogTitle>
+          <DialogDescription>
+            {application
+              ? `To ${application.recipient_email} about ${application.position || 'your application'} at ${application.company || 'N/A'}`
+              : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {step ? (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <ListOrdered className="h-4 w-4" />
+              This application follows a sequence, so the "{step.name || 'next step'}" step's template is used.
+            </p>
+          ) : (
+            <TemplatePicker
+              type={EmailTemplateType.FOLLOW_UP}
+              onApply={(choice) => application && fillFrom(application, choice)}
+            />
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="follow-up-subject">Subject</Label>
+            <Input
+              id="follow-up-subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="follow-up-content">Content</Label>
+            <Textarea
+              id="follow-up-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="min-h-[240px]"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Attachments</Label>
+            <AttachmentPicker value={attachments} onChange={setAttachments} disabled={isSending} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={isSending || !subject.trim() || !content.trim() || !!getAttachmentsSizeError(attachments)}
+            className="flex items-center gap-2"
+          >
+            <Send className="h-4 w-4" />
+            {isSending ? "Sending..." : "Send Follow-up"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SendFollowUpDialog;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { TableHead } from "@/components/ui/table";
+import { cn } from '@/lib/utils';
+
+interface SortableTableHeadProps {
+  label: string;
+  active: boolean;
+  order: 'asc' | 'desc';
+  onSort: () => void;
+  className?: string;
+}
+
+/**
+ * Table header cell that toggles sorting when clicked
+ */
+const SortableTableHead: React.FC<SortableTableHeadProps> = ({ label, active, order, onSort, className }) => {
+  const Icon = !active ? ArrowUpDown : order === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead
+      className={className}
+      aria-sort={active ? (order === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <button
+        type="button"
+        onClick={onSort}
+        className={cn(
+          "inline-flex items-center gap-1 hover:text-foreground",
+          active && "text-foreground"
+        )}
+      >
+        {label}
+        <Icon className={cn("h-3.5 w-3.5", !active && "opacity-50")} />
+      </button>
+    </TableHead>
+  );
+};
+
+export default SortableTableHead;
@@ -0,0 +1,104 @@
+import React from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { cn } from '@/lib/utils';
+
+interface TablePaginationProps {
+  page: number; // 1-based
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  className?: string;
+}
+
+// How many page numbers to show on each side of the current page
+const SIBLING_COUNT = 1;
+
+/**
+ * Page numbers to render, with null marking a gap (ellipsis)
+ */
+const getPageNumbers = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  const start = Math.max(2, page - SIBLING_COUNT);
+  const end = Math.min(pageCount - 1, page + SIBLING_COUNT);
+
+  pages.push(1);
+  if (start > 2) pages.push(null);
+  for (let i = start; i <= end; i++) pages.push(i);
+  if (end < pageCount - 1) pages.push(null);
+  if (pageCount > 1) pages.push(pageCount);
+
+  return pages;
+};
+
+const TablePagination: React.FC<TablePaginationProps> = ({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+  className
+}) => {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const firstItem = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastItem = Math.min(page * pageSize, total);
+
+  // Links are anchors in the shadcn component, so keep them from navigating
+  const goTo = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  if (total <= pageSize && page === 1) {
+    return null;
+  }
+
+  return (
+    <div className={cn("flex flex-col sm:flex-row items-center justify-between gap-2 mt-4", className)}>
+      <p className="text-sm text-muted-foreground whitespace-nowrap">
+        Showing {firstItem}-{lastItem} of {total}
+      </p>
+      <Pagination className="sm:justify-end">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={goTo(page - 1)}
+              aria-disabled={page <= 1}
+              className={cn(page <= 1 && "pointer-events-none opacity-50")}
+            />
+          </PaginationItem>
+          {getPageNumbers(page, pageCount).map((pageNumber, index) => (
+            <PaginationItem key={pageNumber ?? `gap-${index}`}>
+              {pageNumber === null ? (
+                <PaginationEllipsis />
+              ) : (
+                <PaginationLink href="#" isActive={pageNumber === page} onClick={goTo(pageNumber)}>
+                  {pageNumber}
+                </PaginationLink>
+              )}
+            </PaginationItem>
+          ))}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={goTo(page + 1)}
+              aria-disabled={page >= pageCount}
+              className={cn(page >= pageCount && "pointer-events-none opacity-50")}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+};
+
+export default TablePagination;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Eye, Paperclip } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Attachment, AttachmentRef } from '@/lib/api';
+import {
+  ATTACHMENT_KIND_LABELS,
+  formatFileSize,
+  getAttachmentsSizeError,
+  isLatestVersion,
+  toAttachmentRef
+} from '@/lib/attachments';
+import { useAttachments } from '@/hooks/useAttachments';
+import AttachmentPreviewDialog from './AttachmentPreviewDialog';
+
+const NO_ATTACHMENTS: Attachment[] = [];
+
+interface AttachmentPickerProps {
+  value: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Checklist of library attachments to send with an email. Only the latest
+ * version of each file is listed unless older ones are asked for (or picked).
+ */
+const AttachmentPicker: React.FC<AttachmentPickerProps> = ({ value, onChange, disabled }) => {
+  const { data: attachments = NO_ATTACHMENTS, isLoading } = useAttachments();
+  const [showAllVersions, setShowAllVersions] = useState(false);
+  const [previewing, setPreviewing] = useState<AttachmentRef | null>(null);
+
+  const selectedIds = new Set(value.map(attachment => attachment._id));
+  const visible = attachments.filter(attachment =>
+    showAllVersions || selectedIds.has(attachment._id) || isLatestVersion(attachment, attachments)
+  );
+  const hasOlderVersions = visible.length < attachments.length || showAllVersions;
+  const sizeError = getAttachmentsSizeError(value);
+
+  const toggle = (attachment: Attachment, checked: boolean) => {
+    onChange(checked ? [...value, attachment] : value.filter(selected => selected._id !== attachment._id));
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading attachments...</p>;
+  }
+
+  if (attachments.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No attachments uploaded yet. Add your resume under{' '}
+        <Link to="/settings" className="underline">Settings → Attachments</Link>.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1 rounded-md border p-2">
+        {visible.map(attachment => (
+          <div key={attachment._id} className="flex items-center gap-2 rounded px-1 py-1 hover:bg-muted/50">
+            <Checkbox
+              id={`attachment-${attachment._id}`}
+              checked={selectedIds.has(attachment._id)}
+              onCheckedChange={(checked) => toggle(attachment, checked === true)}
+              disabled={disabled}
+            />
+            <label htmlFor={`attachment-${attachment._id}`} className="flex flex-1 items-center gap-2 text-sm cursor-pointer">
+              <Paperclip className="h-3 w-3 text-muted-foreground" />
+              <span className="font-medium">{attachment.label}</span>
+              <Badge variant="outline">v{attachment.version}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {ATTACHMENT_KIND_LABELS[attachment.kind]} · {formatFileSize(attachment.size)}
+              </span>
+            </label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => setPreviewing(toAttachmentRef(attachment))}
+            >
+              <Eye className="h-4 w-4" />
+              <span className="sr-only">Preview</span>
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        {sizeError ? (
+          <p className="text-sm text-destructive">{sizeError}</p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {value.length === 0 ? 'Nothing attached' : `${value.length} attached`}
+          </p>
+        )}
+        {hasOlderVersions && (
+          <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setShowAllVersions(!showAllVersions)}>
+            {showAllVersions ? 'Latest versions only' : 'Show older versions'}
+          </Button>
+        )}
+      </div>
+
+      <AttachmentPreviewDialog attachment={previewing} onOpenChange={(open) => !open && setPreviewing(null)} />
+    </div>
+  );
+};
+
+export default AttachmentPicker;
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { AttachmentRef } from '@/lib/api';
+import { formatAttachmentRef, isPdf } from '@/lib/attachments';
+import { useAttachmentFile } from '@/hooks/useAttachments';
+import { getErrorMessage, isApiError } from '@/services/apiErrors';
+
+interface AttachmentPreviewDialogProps {
+  attachment: AttachmentRef | null; // Open while set
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Shows a PDF attachment inline; Word documents can only be downloaded
+ */
+const AttachmentPreviewDialog: React.FC<AttachmentPreviewDialogProps> = ({ attachment, onOpenChange }) => {
+  const { data: file, isLoading, isError, error } = useAttachmentFile(attachment?.attachment_id);
+  const [url, setUrl] = useState<string | null>(null);
+
+  // Object URLs hold on to the file until revoked
+  useEffect(() => {
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  const canPreview = attachment !== null && isPdf(attachment);
+
+  return (
+    <Dialog open={attachment !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{attachment?.label} v{attachment?.version}</DialogTitle>
+          <DialogDescription>{attachment ? formatAttachmentRef(attachment) : ''}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex h-[60vh] items-center justify-center text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading file...
+          </div>
+        ) : isError ? (
+          <div className="py-8 text-center text-sm text-destructive">
+            {isApiError(error, 'not_found')
+              ? "The file couldn't be loaded. It may have been deleted from the attachments library."
+              : getErrorMessage(error, "The file couldn't be loaded.")}
+          </div>
+        ) : url && canPreview ? (
+          <iframe src={url} title={attachment?.file_name} className="h-[70vh] w-full rounded-md border" />
+        ) : (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            Only PDFs can be previewed here. Download the file to open it.
+          </div>
+        )}
+
+        {url && attachment && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" asChild>
+              <a href={url} download={attachment.file_name}>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttachmentPreviewDialog;
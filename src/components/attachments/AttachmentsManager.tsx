@@ -0,0 +1,269 @@
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Eye, Loader2, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Attachment, AttachmentKind, AttachmentRef } from '@/lib/api';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_KIND_LABELS,
+  MAX_ATTACHMENT_SIZE,
+  formatFileSize,
+  getAttachmentError,
+  getNextVersion,
+  isLatestVersion,
+  toAttachmentRef
+} from '@/lib/attachments';
+import { useAttachments, useDeleteAttachment, useUploadAttachment } from '@/hooks/useAttachments';
+import { getErrorMessage } from '@/services/apiErrors';
+import AttachmentPreviewDialog from './AttachmentPreviewDialog';
+
+const NO_ATTACHMENTS: Attachment[] = [];
+
+/**
+ * Upload, version, preview and delete the resumes and cover letters
+ * attached to applications
+ */
+const AttachmentsManager = () => {
+  const { data: attachments = NO_ATTACHMENTS, isLoading } = useAttachments();
+  const uploadAttachment = useUploadAttachment();
+  const deleteAttachment = useDeleteAttachment();
+
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [kind, setKind] = useState<AttachmentKind>('resume');
+  const [label, setLabel] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState<AttachmentRef | null>(null);
+  const [attachmentToDelete, setAttachmentToDelete] = useState<Attachment | null>(null);
+
+  // Labels already in use for this kind, so new versions land under the same name
+  const existingLabels = Array.from(new Set(attachments.filter(a => a.kind === kind).map(a => a.label)));
+  const nextVersion = label.trim() ? getNextVersion(attachments, kind, label) : null;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    setFile(selected);
+    setFileError(selected ? getAttachmentError(selected) : null);
+    // Name new uploads after the file until the user picks a label
+    if (selected && !label.trim()) {
+      setLabel(selected.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  const resetForm = () => {
+    setLabel('');
+    setFile(null);
+    setFileError(null);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleUpload = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || fileError || !label.trim()) return;
+
+    uploadAttachment.mutate(
+      { file, kind, label },
+      {
+        onSuccess: ({ attachment }) => {
+          toast.success(`Uploaded ${attachment.label} v${attachment.version}`);
+          resetForm();
+        },
+        onError: (error) => {
+          toast.error(getErrorMessage(error, 'Failed to upload attachment'));
+        },
+      }
+    );
+  };
+
+  const confirmDelete = () => {
+    if (attachmentToDelete) {
+      deleteAttachment.mutate(attachmentToDelete._id, {
+        onSuccess: () => toast.success('Attachment deleted'),
+        onError: (error) => toast.error(getErrorMessage(error, 'Failed to delete attachment')),
+      });
+    }
+    setAttachmentToDelete(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-semibold mb-6">Attachments</h2>
+
+      <p className="text-sm text-muted-foreground">
+        Keep every version of your resumes and cover letters here and pick which ones to send with each
+        application. Uploading a file under an existing label adds a new version; applications remember the exact
+        version they went out with.
+      </p>
+
+      <form onSubmit={handleUpload} className="grid gap-4 rounded-md border p-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="attachment-kind">Type</Label>
+          <Select value={kind} onValueChange={(value) => setKind(value as AttachmentKind)}>
+            <SelectTrigger id="attachment-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ATTACHMENT_KIND_LABELS).map(([value, name]) => (
+                <SelectItem key={value} value={value}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="attachment-label">Label</Label>
+          <Input
+            id="attachment-label"
+            list="attachment-labels"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="e.g. Frontend resume"
+          />
+          <datalist id="attachment-labels">
+            {existingLabels.map(existing => <option key={existing} value={existing} />)}
+          </datalist>
+          {nextVersion !== null && (
+            <p className="text-xs text-muted-foreground">
+              {nextVersion === 1 ? 'Saved as a new attachment (v1)' : `Saved as version ${nextVersion}`}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="attachment-file">File</Label>
+          <Input
+            id="attachment-file"
+            ref={fileInput}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            onChange={handleFileChange}
+          />
+          {fileError ? (
+            <p className="text-sm text-destructive">{fileError}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              PDF or Word, up to {formatFileSize(MAX_ATTACHMENT_SIZE)}. PDFs are safest for applicant tracking systems.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end md:col-span-2">
+          <Button type="submit" size="sm" disabled={!file || !!fileError || !label.trim() || uploadAttachment.isPending}>
+            {uploadAttachment.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Upload
+          </Button>
+        </div>
+      </form>
+
+      {isLoading ? (
+        <div className="py-8 text-center text-muted-foreground">Loading attachments...</div>
+      ) : attachments.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Label</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Version</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Uploaded</TableHead>
+              <TableHead className="w-[100px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {attachments.map(attachment => (
+              <TableRow key={attachment._id}>
+                <TableCell className="font-medium">{attachment.label}</TableCell>
+                <TableCell>{ATTACHMENT_KIND_LABELS[attachment.kind]}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    v{attachment.version}
+                    {isLatestVersion(attachment, attachments) && <Badge variant="secondary">Latest</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="max-w-[200px] truncate" title={attachment.file_name}>{attachment.file_name}</div>
+                  <div className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</div>
+                </TableCell>
+                <TableCell>{format(new Date(attachment.created_at), 'MMM d, yyyy')}</TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => setPreviewing(toAttachmentRef(attachment))}>
+                      <Eye className="h-4 w-4" />
+                      <span className="sr-only">Preview</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setAttachmentToDelete(attachment)}>
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="py-8 text-center text-muted-foreground">
+          No attachments yet. Upload your resume to attach it to applications.
+        </div>
+      )}
+
+      <AttachmentPreviewDialog attachment={previewing} onOpenChange={(open) => !open && setPreviewing(null)} />
+
+      <AlertDialog open={!!attachmentToDelete} onOpenChange={(open) => !open && setAttachmentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Attachment</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {attachmentToDelete?.label} v{attachmentToDelete?.version}? Applications
+              that already sent it keep a record of the file, but it can no longer be attached or previewed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AttachmentsManager;
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { Eye, Paperclip } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AttachmentRef } from '@/lib/api';
+import { ATTACHMENT_KIND_LABELS, formatAttachmentRef } from '@/lib/attachments';
+import AttachmentPreviewDialog from './AttachmentPreviewDialog';
+
+interface SentAttachmentsProps {
+  attachments: AttachmentRef[];
+}
+
+/**
+ * The exact file versions an email went out with
+ */
+const SentAttachments: React.FC<SentAttachmentsProps> = ({ attachments }) => {
+  const [previewing, setPreviewing] = useState<AttachmentRef | null>(null);
+
+  if (attachments.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sent without attachments.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {attachments.map(attachment => (
+        <div key={`${attachment.attachment_id}-${attachment.version}`} className="flex items-center gap-2 text-sm">
+          <Paperclip className="h-3 w-3 text-muted-foreground" />
+          <span>{formatAttachmentRef(attachment)}</span>
+          <span className="text-xs text-muted-foreground">{ATTACHMENT_KIND_LABELS[attachment.kind]}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setPreviewing(attachment)}
+          >
+            <Eye className="h-4 w-4" />
+            <span className="sr-only">Preview</span>
+          </Button>
+        </div>
+      ))}
+
+      <AttachmentPreviewDialog attachment={previewing} onOpenChange={(open) => !open && setPreviewing(null)} />
+    </div>
+  );
+};
+
+export default SentAttachments;
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import CompanyLogo from '@/components/companies/CompanyLogo';
+import { COMPANY_SIZE_LABELS, getWebsiteDomain } from '@/lib/companies';
+import { Company, CompanyDetails, CompanySize, normalizeCompanyName, useCompanyStore } from '@/store/companyStore';
+
+interface CompanyEditorDialogProps {
+  open: boolean;
+  company: Company | null; // Null to add a new company
+  onOpenChange: (open: boolean) => void;
+  onSave: (details: CompanyDetails) => void;
+}
+
+const EMPTY_COMPANY: CompanyDetails = {
+  name: '',
+  domain: '',
+  website: '',
+  size: null,
+  notes: '',
+  logoUrl: '',
+};
+
+// Select items can't have an empty value
+const NO_SIZE = 'unknown';
+
+const urlSchema = z.string().url();
+const domainSchema = z.string().regex(/^([a-z0-9-]+\.)+[a-z]{2,}$/, 'Please enter a domain like acme.com');
+
+/**
+ * Add or edit a company's details
+ */
+const CompanyEditorDialog: React.FC<CompanyEditorDialogProps> = ({ open, company, onOpenChange, onSave }) => {
+  const companies = useCompanyStore(state => state.companies);
+  const [details, setDetails] = useState<CompanyDetails>(EMPTY_COMPANY);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    setDetails(company ? { ...EMPTY_COMPANY, ...company } : EMPTY_COMPANY);
+    setErrors({});
+  }, [open, company]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setDetails(prev => ({ ...prev, [name]: value }));
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    const normalizedName = normalizeCompanyName(details.name);
+
+    if (!normalizedName) {
+      newErrors.name = 'Company name is required';
+    } else {
+      const duplicate = companies.find(other => other.id !== company?.id && other.normalizedName === normalizedName);
+      if (duplicate) {
+        newErrors.name = `This is the same company as "${duplicate.name}"`;
+      } else if (company && normalizedName !== company.normalizedName) {
+        // Applications are linked by name, so theirs would no longer match
+        newErrors.name = 'Only the spelling can change; add a new company for a different name';
+      }
+    }
+
+    if (details.domain.trim() && !domainSchema.safeParse(details.domain.trim().toLowerCase()).success) {
+      newErrors.domain = 'Please enter a domain like acme.com';
+    }
+    if (details.website.trim() && !urlSchema.safeParse(details.website.trim()).success) {
+      newErrors.website = 'Please enter a valid URL';
+    }
+    if (details.logoUrl.trim() && !urlSchema.safeParse(details.logoUrl.trim()).success) {
+      newErrors.logoUrl = 'Please enter a valid URL';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    const website = details.website.trim();
+    onSave({
+      ...details,
+      name: details.name.trim(),
+      // The website's domain is a good guess when none is given
+      domain: details.domain.trim().toLowerCase() || getWebsiteDomain(website) || '',
+      website,
+      logoUrl: details.logoUrl.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{company ? 'Edit Company' : 'Add Company'}</DialogTitle>
+            <DialogDescription>Applications are grouped under one company however its name was typed.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 gap-4 py-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="company-name">Name *</Label>
+              <Input
+                id="company-name"
+                name="name"
+                value={details.name}
+                onChange={handleChange}
+                placeholder="Acme Inc."
+                className={errors.name ? 'border-destructive' : ''}
+              />
+              {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-domain">Email domain</Label>
+              <Input
+                id="company-domain"
+                name="domain"
+                value={details.domain}
+                onChange={handleChange}
+                placeholder="acme.com"
+                className={errors.domain ? 'border-destructive' : ''}
+              />
+              {errors.domain && <p className="text-sm text-destructive">{errors.domain}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-website">Website</Label>
+              <Input
+                id="company-website"
+                name="website"
+                value={details.website}
+                onChange={handleChange}
+                placeholder="https://acme.com"
+                className={errors.website ? 'border-destructive' : ''}
+              />
+              {errors.website && <p className="text-sm text-destructive">{errors.website}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-size">Size</Label>
+              <Select
+                value={details.size ?? NO_SIZE}
+                onValueChange={(value) => setDetails(prev => ({ ...prev, size: value === NO_SIZE ? null : value as CompanySize }))}
+              >
+                <SelectTrigger id="company-size">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SIZE}>Unknown</SelectItem>
+                  {Object.entries(COMPANY_SIZE_LABELS).map(([size, label]) => (
+                    <SelectItem key={size} value={size}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="company-logo">Logo URL</Label>
+              <div className="flex items-center gap-2">
+                <CompanyLogo company={details} />
+                <Input
+                  id="company-logo"
+                  name="logoUrl"
+                  value={details.logoUrl}
+                  onChange={handleChange}
+                  placeholder="Leave empty to show the initials"
+                  className={errors.logoUrl ? 'border-destructive' : ''}
+                />
+              </div>
+              {errors.logoUrl && <p className="text-sm text-destructive">{errors.logoUrl}</p>}
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="company-notes">Notes</Label>
+              <Textarea
+                id="company-notes"
+                name="notes"
+                value={details.notes}
+                onChange={handleChange}
+                placeholder="Remote-first; interview process is two rounds plus a take-home"
+                className="min-h-[100px]"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">{company ? 'Save Changes' : 'Add Company'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CompanyEditorDialog;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import { getCompanyInitials } from '@/lib/companies';
+import { Company } from '@/store/companyStore';
+
+interface CompanyLogoProps {
+  company: Pick<Company, 'name' | 'logoUrl'>;
+  className?: string;
+}
+
+/**
+ * A company's logo, or its initials when it has none or the image fails to
+ * load. Only logos the user entered are loaded, so nothing is fetched from
+ * the employers' own sites.
+ */
+const CompanyLogo: React.FC<CompanyLogoProps> = ({ company, className }) => {
+  const logoUrl = company.logoUrl.trim();
+
+  return (
+    <Avatar className={cn("h-8 w-8 rounded-md", className)}>
+      {logoUrl && <AvatarImage src={logoUrl} alt={`${company.name} logo`} className="object-contain" />}
+      <AvatarFallback className="rounded-md text-xs font-medium">{getCompanyInitials(company.name)}</AvatarFallback>
+    </Avatar>
+  );
+};
+
+export default CompanyLogo;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { JobApplication } from '@/lib/api';
+import { getStatusBadgeVariant } from '@/lib/applicationStatus';
+
+interface DuplicateApplicationAlertProps {
+  duplicates: JobApplication[];
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+}
+
+/**
+ * Warns that the same role at the same company was already applied to.
+ * Sending stays blocked until applying again is confirmed.
+ */
+const DuplicateApplicationAlert: React.FC<DuplicateApplicationAlertProps> = ({ duplicates, confirmed, onConfirmedChange }) => {
+  if (duplicates.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>You've already applied for this role</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="space-y-1">
+          {duplicates.map(app => (
+            <li key={app._id} className="flex flex-wrap items-center gap-2">
+              <Link to={`/applications/edit/${app._id}`} className="underline">
+                {app.position} at {app.company}
+              </Link>
+              <Badge variant={getStatusBadgeVariant(app.status)} className="capitalize">{app.status}</Badge>
+              <span className="text-xs">
+                {app.sent_at ? `sent ${format(new Date(app.sent_at), 'MMM d, yyyy')}` : 'not sent yet'}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="confirm-duplicate"
+            checked={confirmed}
+            onCheckedChange={(checked) => onConfirmedChange(checked === true)}
+          />
+          <Label htmlFor="confirm-duplicate">Apply again anyway</Label>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default DuplicateApplicationAlert;
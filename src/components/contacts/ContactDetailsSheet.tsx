@@ -0,0 +1,119 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Linkedin, Mail, Send } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { getStatusBadgeVariant } from '@/lib/applicationStatus';
+import { ContactActivity, getContactDisplayName } from '@/lib/contacts';
+import { safeFormatDistanceToNow } from '@/lib/utils';
+import { Contact } from '@/store/contactStore';
+
+interface ContactDetailsSheetProps {
+  contact: Contact | null; // Open while set
+  activity: ContactActivity[];
+  lastContactedAt: string | null;
+  onOpenChange: (open: boolean) => void;
+  onEdit: (contact: Contact) => void;
+}
+
+/**
+ * A contact's details and every application and follow-up sent to them
+ */
+const ContactDetailsSheet: React.FC<ContactDetailsSheetProps> = ({
+  contact,
+  activity,
+  lastContactedAt,
+  onOpenChange,
+  onEdit
+}) => (
+  <Sheet open={contact !== null} onOpenChange={onOpenChange}>
+    <SheetContent className="w-full sm:max-w-lg">
+      {contact && (
+        <>
+          <SheetHeader>
+            <SheetTitle>{getContactDisplayName(contact)}</SheetTitle>
+            <SheetDescription>
+              {[contact.role, contact.company].filter(Boolean).join(' at ') || 'No role or company saved'}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="mt-4 space-y-4 text-sm">
+            <div className="space-y-1">
+              <a href={`mailto:${contact.email}`} className="flex items-center gap-2 hover:underline">
+                <Mail className="h-4 w-4 text-muted-foreground" />
+                {contact.email}
+              </a>
+              {contact.linkedinUrl && (
+                <a
+                  href={contact.linkedinUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 hover:underline"
+                >
+                  <Linkedin className="h-4 w-4 text-muted-foreground" />
+                  LinkedIn profile
+                </a>
+              )}
+              <p className="text-muted-foreground">
+                Last contacted {lastContactedAt ? safeFormatDistanceToNow(lastContactedAt) : 'never'}
+              </p>
+            </div>
+
+            {contact.notes && (
+              <p className="whitespace-pre-wrap rounded-md border bg-muted/40 p-3">{contact.notes}</p>
+            )}
+
+            <Button variant="outline" size="sm" onClick={() => onEdit(contact)}>
+              Edit contact
+            </Button>
+
+            <div>
+              <h3 className="mb-2 font-medium">Emails ({activity.length})</h3>
+              {activity.length > 0 ? (
+                <ScrollArea className="h-[calc(100vh-24rem)] pr-3">
+                  <ul className="space-y-2">
+                    {activity.map(entry => (
+                      <li key={`${entry.kind}-${entry.id}`}>
+                        <Link
+                          to={`/applications/edit/${entry.applicationId}`}
+                          className="block rounded-md border p-3 hover:bg-muted/50"
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="flex items-center gap-2 font-medium">
+                              {entry.kind === 'follow_up' ? <Send className="h-3 w-3" /> : <Mail className="h-3 w-3" />}
+                              {entry.kind === 'follow_up' ? 'Follow-up' : 'Application'}
+                            </div>
+                            <Badge variant={getStatusBadgeVariant(entry.status)} className="capitalize">{entry.status}</Badge>
+                          </div>
+                          <p className="mt-1 truncate">{entry.subject}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {[entry.position, entry.company].filter(Boolean).join(' at ')}
+                            {' · '}
+                            {format(new Date(entry.date), 'MMM d, yyyy')}
+                          </p>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              ) : (
+                <p className="text-muted-foreground">No emails to this contact yet.</p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </SheetContent>
+  </Sheet>
+);
+
+export default ContactDetailsSheet;
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Contact, ContactDetails, normalizeEmail, useContactStore } from '@/store/contactStore';
+
+interface ContactEditorDialogProps {
+  open: boolean;
+  contact: Contact | null; // Null to add a new contact
+  onOpenChange: (open: boolean) => void;
+  onSave: (details: ContactDetails) => void;
+}
+
+const EMPTY_CONTACT: ContactDetails = {
+  name: '',
+  role: '',
+  company: '',
+  email: '',
+  linkedinUrl: '',
+  notes: '',
+  lastContactedAt: null,
+};
+
+const emailSchema = z.string().email();
+const urlSchema = z.string().url();
+
+// Date inputs work in yyyy-MM-dd; contacts keep ISO timestamps
+const toDateInput = (date: string | null) => (date ? format(new Date(date), 'yyyy-MM-dd') : '');
+const fromDateInput = (value: string) => (value ? new Date(`${value}T12:00:00`).toISOString() : null);
+
+/**
+ * Add or edit a contact's details
+ */
+const ContactEditorDialog: React.FC<ContactEditorDialogProps> = ({ open, contact, onOpenChange, onSave }) => {
+  const contacts = useContactStore(state => state.contacts);
+  const [details, setDetails] = useState<ContactDetails>(EMPTY_CONTACT);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    setDetails(contact ? { ...EMPTY_CONTACT, ...contact } : EMPTY_CONTACT);
+    setErrors({});
+  }, [open, contact]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setDetails(prev => ({ ...prev, [name]: value }));
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!emailSchema.safeParse(details.email.trim()).success) {
+      newErrors.email = 'Please enter a valid email address';
+    } else if (contacts.some(other => other.id !== contact?.id && normalizeEmail(other.email) === normalizeEmail(details.email))) {
+      newErrors.email = 'Another contact already has this email address';
+    }
+
+    if (details.linkedinUrl.trim() && !urlSchema.safeParse(details.linkedinUrl.trim()).success) {
+      newErrors.linkedinUrl = 'Please enter a valid URL';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    onSave({
+      ...details,
+      name: details.name.trim(),
+      role: details.role.trim(),
+      company: details.company.trim(),
+      email: details.email.trim(),
+      linkedinUrl: details.linkedinUrl.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{contact ? 'Edit Contact' : 'Add Contact'}</DialogTitle>
+            <DialogDescription>Recruiters, hiring managers and referrals you write to.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 gap-4 py-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="contact-name">Name</Label>
+              <Input id="contact-name" name="name" value={details.name} onChange={handleChange} placeholder="Jane Smith" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-role">Role</Label>
+              <Input id="contact-role" name="role" value={details.role} onChange={handleChange} placeholder="Technical Recruiter" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-company">Company</Label>
+              <Input id="contact-company" name="company" value={details.company} onChange={handleChange} placeholder="Acme Inc." />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-email">Email *</Label>
+              <Input
+                id="contact-email"
+                name="email"
+                value={details.email}
+                onChange={handleChange}
+                placeholder="jane@acme.com"
+                className={errors.email ? 'border-destructive' : ''}
+              />
+              {errors.email && <p className="text-sm text-destructive">{errors.email}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-linkedin">LinkedIn</Label>
+              <Input
+                id="contact-linkedin"
+                name="linkedinUrl"
+                value={details.linkedinUrl}
+                onChange={handleChange}
+                placeholder="https://linkedin.com/in/..."
+                className={errors.linkedinUrl ? 'border-destructive' : ''}
+              />
+              {errors.linkedinUrl && <p className="text-sm text-destructive">{errors.linkedinUrl}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-last-contacted">Last contacted</Label>
+              <Input
+                id="contact-last-contacted"
+                type="date"
+                value={toDateInput(details.lastContactedAt)}
+                onChange={(e) => setDetails(prev => ({ ...prev, lastContactedAt: fromDateInput(e.target.value) }))}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="contact-notes">Notes</Label>
+              <Textarea
+                id="contact-notes"
+                name="notes"
+                value={details.notes}
+                onChange={handleChange}
+                placeholder="Met at the React meetup; prefers email over LinkedIn"
+                className="min-h-[100px]"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">{contact ? 'Save Changes' : 'Add Contact'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContactEditorDialog;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { getContactDisplayName, searchContacts } from '@/lib/contacts';
+import { Contact, normalizeEmail, useContactStore } from '@/store/contactStore';
+
+interface RecipientInputProps extends Omit<React.ComponentProps<typeof Input>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (email: string) => void;
+  onSelectContact: (contact: Contact) => void;
+}
+
+/**
+ * Recipient email field that suggests saved contacts by name, address or company
+ */
+const RecipientInput = React.forwardRef<HTMLInputElement, RecipientInputProps>(
+  ({ value, onChange, onSelectContact, onBlur, onKeyDown, className, ...props }, ref) => {
+    const contacts = useContactStore(state => state.contacts);
+    const [isOpen, setIsOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+
+    // Nothing to suggest once the address is a saved contact's
+    const isExactMatch = contacts.some(contact => normalizeEmail(contact.email) === normalizeEmail(value));
+    const suggestions = isExactMatch ? [] : searchContacts(contacts, value);
+    const showSuggestions = isOpen && suggestions.length > 0;
+
+    const select = (contact: Contact) => {
+      onChange(contact.email);
+      onSelectContact(contact);
+      setIsOpen(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (showSuggestions) {
+        if (e.key === 'ArrowDown') {
+          e.preventDefault();
+          setHighlighted((highlighted + 1) % suggestions.length);
+        } else if (e.key === 'ArrowUp') {
+          e.preventDefault();
+          setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter') {
+          e.preventDefault();
+          select(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        } else if (e.key === 'Escape') {
+          setIsOpen(false);
+        }
+      }
+      onKeyDown?.(e);
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setIsOpen(true);
+            setHighlighted(0);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={(e) => {
+            setIsOpen(false);
+            onBlur?.(e);
+          }}
+          onKeyDown={handleKeyDown}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={showSuggestions}
+          className={className}
+          {...props}
+        />
+        {showSuggestions && (
+          <ul
+            role="listbox"
+            className="absolute z-50 mt-1 max-h-64 w-full overflow-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {suggestions.map((contact, index) => (
+              <li
+                key={contact.id}
+                role="option"
+                aria-selected={index === highlighted}
+                // Keep focus in the input so the pick lands before blur closes the list
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => select(contact)}
+                onMouseEnter={() => setHighlighted(index)}
+                className={cn(
+                  "cursor-pointer rounded-sm px-2 py-1.5 text-sm",
+                  index === highlighted && "bg-accent text-accent-foreground"
+                )}
+              >
+                <div className="font-medium">{getContactDisplayName(contact)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {[contact.email, contact.role, contact.company].filter(Boolean).join(' · ')}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+RecipientInput.displayName = 'RecipientInput';
+
+export default RecipientInput;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { isTemplateVariable, splitPlaceholders } from '@/lib/templateEngine';
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Rendered template text with leftover placeholders marked: unknown ones in
+ * red, known ones without a value in amber
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className }) => (
+  <div className={cn("whitespace-pre-wrap break-words", className)}>
+    {splitPlaceholders(text).map((segment, index) =>
+      segment.placeholder ? (
+        <mark
+          key={index}
+          title={isTemplateVariable(segment.placeholder) ? "No value for this variable" : "Unknown placeholder"}
+          className={cn(
+            "rounded px-0.5",
+            isTemplateVariable(segment.placeholder)
+              ? "bg-amber-200 text-amber-900 dark:bg-amber-900/60 dark:text-amber-100"
+              : "bg-destructive/20 text-destructive"
+          )}
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </div>
+);
+
+export default HighlightedText;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { diffLines, hasChanges } from '@/lib/textDiff';
+
+interface TemplateDiffProps {
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Line diff of one template field: removed lines in red, added lines in green
+ */
+const TemplateDiff: React.FC<TemplateDiffProps> = ({ label, before, after }) => {
+  const lines = diffLines(before, after);
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">
+        {label}
+        {!hasChanges(lines) && <span className="ml-2 font-normal text-muted-foreground">(unchanged)</span>}
+      </p>
+      <div className="rounded-md border bg-muted/30 font-mono text-xs">
+        {lines.map((line, index) => (
+          <div
+            key={index}
+            className={cn(
+              "flex gap-2 whitespace-pre-wrap break-words px-2",
+              line.type === 'added' && "bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100",
+              line.type === 'removed' && "bg-destructive/15 text-destructive line-through decoration-destructive/40"
+            )}
+          >
+            <span className="w-3 shrink-0 select-none text-muted-foreground">
+              {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+            </span>
+            <span>{line.text || ' '}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateDiff;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -24,9 +24,16 @@ import {
   EmailTemplateType, 
   useEmailSettingsStore 
 } from '@/store/emailSettingsStore';
+import { formatPlaceholders, getContextVariables } from '@/lib/templateEngine';
+import { TEMPLATE_TYPE_LABELS } from '@/lib/templateLibrary';
+import TemplateIssuesAlert from './TemplateIssuesAlert';
+import TemplatePreview from './TemplatePreview';
+import TemplateVariablePalette from './TemplateVariablePalette';
+import TemplateVariantsEditor from './TemplateVariantsEditor';
 
 interface TemplateEditorProps {
   template?: EmailTemplate;
+  defaultType?: EmailTemplateType; // Type of a new template
   onSave: (template: EmailTemplate) => void;
   onCancel: () => void;
 }
@@ -39,19 +46,26 @@ const defaultTemplate: EmailTemplate = {
   isDefault: false
 };
 
-const TemplateEditor = ({ template, onSave, onCancel }: TemplateEditorProps) => {
+const TemplateEditor = ({ template, defaultType, onSave, onCancel }: TemplateEditorProps) => {
   const { addTemplate, updateTemplate } = useEmailSettingsStore();
-  const [formData, setFormData] = useState<EmailTemplate>(template ?? defaultTemplate);
+  const [formData, setFormData] = useState<EmailTemplate>(template ?? { ...defaultTemplate, type: defaultType ?? defaultTemplate.type });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Cover letters are filled from the same application data as application emails
+  const templateContext = formData.type === EmailTemplateType.FOLLOW_UP ? 'followUp' : 'application';
+  const isCoverLetter = formData.type === EmailTemplateType.COVER_LETTER;
+  const subjectRef = useRef<HTMLInputElement>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  // Palette clicks go into whichever field was edited last
+  const [activeField, setActiveField] = useState<'subject' | 'body'>('body');
   
   // Update form data when template changes
   useEffect(() => {
     if (template) {
       setFormData(template);
     } else {
-      setFormData(defaultTemplate);
+      setFormData({ ...defaultTemplate, type: defaultType ?? defaultTemplate.type });
     }
-  }, [template]);
+  }, [template, defaultType]);
   
   // Handle input changes
   const handleChange = (
@@ -84,6 +98,20 @@ const TemplateEditor = ({ template, onSave, onCancel }: TemplateEditorProps) =>
     }
   };
   
+  // Insert a placeholder at the cursor (replacing any selection) and keep typing after it
+  const insertPlaceholder = (placeholder: string) => {
+    const element = activeField === 'subject' ? subjectRef.current : bodyRef.current;
+    const current = formData[activeField];
+    const start = element?.selectionStart ?? current.length;
+    const end = element?.selectionEnd ?? current.length;
+    
+    setFormData(prev => ({ ...prev, [activeField]: current.slice(0, start) + placeholder + current.slice(end) }));
+    requestAnimationFrame(() => {
+      element?.focus();
+      element?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+  
   // Handle checkbox changes
   const handleCheckboxChange = (name: string, checked: boolean) => {
     setFormData(prev => ({ ...prev, [name]: checked }));
@@ -98,13 +126,24 @@ const TemplateEditor = ({ template, onSave, onCancel }: TemplateEditorProps) =>
     }
     
     if (!formData.subject.trim()) {
-      newErrors.subject = 'Subject is required';
+      newErrors.subject = isCoverLetter ? 'Document title is required' : 'Subject is required';
     }
     
     if (!formData.body.trim()) {
       newErrors.body = 'Body is required';
     }
     
+    // A/B variants need their own wording, and at least one of them has to get sends
+    const variants = isCoverLetter ? [] : formData.variants ?? [];
+    variants.forEach(variant => {
+      if (!variant.subject.trim() || !variant.body.trim()) {
+        newErrors[`variant-${variant.id}`] = `Variant ${variant.name} needs a subject and body`;
+      }
+    });
+    if (variants.length > 0 && (formData.weight ?? 1) + variants.reduce((sum, v) => sum + v.weight, 0) <= 0) {
+      newErrors.weight = 'At least one variant needs a weight above 0';
+    }
+    
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -117,7 +156,8 @@ const TemplateEditor = ({ template, onSave, onCancel }: TemplateEditorProps) =>
       return;
     }
     
-    onSave(formData);
+    // Cover letters aren't A/B tested
+    onSave(isCoverLetter ? { ...formData, weight: undefined, variants: undefined } : formData);
   };
   
   return (
@@ -131,87 +171,106 @@ const TemplateEditor = ({ template, onSave, onCancel }: TemplateEditorProps) =>
         </CardDescription>
       </CardHeader>
       <form onSubmit={handleSubmit}>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name">Template Name</Label>
-            <Input
-              id="name"
-              name="name"
-              value={formData.name}
-              onChange={handleChange}
-              placeholder="e.g., My Custom Template"
-              className={errors.name ? 'border-destructive' : ''}
-            />
-            {errors.name && (
-              <p className="text-sm text-destructive">{errors.name}</p>
-            )}
-          </div>
+        <CardContent className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Template Name</Label>
+              <Input
+                id="name"
+                name="name"
+                value={formData.name}
+                onChange={handleChange}
+                placeholder="e.g., My Custom Template"
+                className={errors.name ? 'border-destructive' : ''}
+              />
+              {errors.name && (
+                <p className="text-sm text-destructive">{errors.name}</p>
+              )}
+            </div>
           
-          <div className="space-y-2">
-            <Label htmlFor="type">Template Type</Label>
-            <Select
-              value={formData.type}
-              onValueChange={(value) => handleSelectChange('type', value)}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select template type" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value={EmailTemplateType.JOB_APPLICATION}>Job Application</SelectItem>
-                <SelectItem value={EmailTemplateType.FOLLOW_UP}>Follow-up</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+            <div className="space-y-2">
+              <Label htmlFor="type">Template Type</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value) => handleSelectChange('type', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select template type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EmailTemplateType.JOB_APPLICATION}>Job Application</SelectItem>
+                  <SelectItem value={EmailTemplateType.FOLLOW_UP}>Follow-up</SelectItem>
+                  <SelectItem value={EmailTemplateType.COVER_LETTER}>Cover Letter</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           
-          <div className="space-y-2">
-            <Label htmlFor="subject">Email Subject</Label>
-            <Input
-              id="subject"
-              name="subject"
-              value={formData.subject}
-              onChange={handleChange}
-              placeholder="e.g., Application for {position} at {company}"
-              className={errors.subject ? 'border-destructive' : ''}
-            />
-            {errors.subject && (
-              <p className="text-sm text-destructive">{errors.subject}</p>
-            )}
-          </div>
+            <div className="space-y-2">
+              <Label htmlFor="subject">{isCoverLetter ? 'Document Title' : 'Email Subject'}</Label>
+              <Input
+                id="subject"
+                name="subject"
+                ref={subjectRef}
+                value={formData.subject}
+                onChange={handleChange}
+                onFocus={() => setActiveField('subject')}
+                placeholder={isCoverLetter ? 'e.g., Cover letter - {position} at {company}' : 'e.g., Application for {position} at {company}'}
+                className={errors.subject ? 'border-destructive' : ''}
+              />
+              {errors.subject && (
+                <p className="text-sm text-destructive">{errors.subject}</p>
+              )}
+            </div>
           
-          <div className="space-y-2">
-            <Label htmlFor="body">Email Body</Label>
-            <p className="text-xs text-muted-foreground mb-2">
-              Use placeholders like {'{recipientName}'}, {'{position}'}, {'{company}'}, 
-              {'{customMessage}'}, {'{senderName}'} which will be replaced with actual values.
-            </p>
-            <Textarea
-              id="body"
-              name="body"
-              value={formData.body}
-              onChange={handleChange}
-              placeholder="Enter your email template content"
-              className={`min-h-[200px] font-mono text-sm ${errors.body ? 'border-destructive' : ''}`}
-            />
-            {errors.body && (
-              <p className="text-sm text-destructive">{errors.body}</p>
-            )}
-          </div>
+            <div className="space-y-2">
+              <Label htmlFor="body">{isCoverLetter ? 'Letter Body' : 'Email Body'}</Label>
+              <p className="text-xs text-muted-foreground mb-2">
+                Use placeholders like {formatPlaceholders(getContextVariables(templateContext))} which
+                will be replaced with actual values. Write {'{name|fallback}'} for a default, and
+                {' {#if portfolioUrl}...{/if}'} for text that only appears when a value is present.
+              </p>
+              <TemplateVariablePalette context={templateContext} onInsert={insertPlaceholder} />
+              <Textarea
+                id="body"
+                name="body"
+                ref={bodyRef}
+                value={formData.body}
+                onChange={handleChange}
+                onFocus={() => setActiveField('body')}
+                placeholder="Enter your email template content"
+                className={`min-h-[200px] font-mono text-sm ${errors.body ? 'border-destructive' : ''}`}
+              />
+              {errors.body && (
+                <p className="text-sm text-destructive">{errors.body}</p>
+              )}
+            </div>
           
-          <div className="flex items-center space-x-2 pt-2">
-            <Checkbox
-              id="isDefault"
-              checked={formData.isDefault}
-              onCheckedChange={(checked) => 
-                handleCheckboxChange('isDefault', checked === true)
-              }
-            />
-            <Label htmlFor="isDefault" className="font-normal">
-              Set as default template for {formData.type === EmailTemplateType.JOB_APPLICATION 
-                ? 'Job Applications' 
-                : 'Follow-ups'}
-            </Label>
+            <TemplateIssuesAlert template={`${formData.subject}\n${formData.body}`} context={templateContext} />
+          
+            <div className="flex items-center space-x-2 pt-2">
+              <Checkbox
+                id="isDefault"
+                checked={formData.isDefault}
+                onCheckedChange={(checked) => 
+                  handleCheckboxChange('isDefault', checked === true)
+                }
+              />
+              <Label htmlFor="isDefault" className="font-normal">
+                Set as default template for {TEMPLATE_TYPE_LABELS[formData.type].plural}
+              </Label>
+            </div>
+          
+            {!isCoverLetter && (
+              <TemplateVariantsEditor
+                template={formData}
+                context={templateContext}
+                errors={errors}
+                onChange={(changes) => setFormData(prev => ({ ...prev, ...changes }))}
+              />
+            )}
           </div>
           
+          <TemplatePreview subject={formData.subject} body={formData.body} context={templateContext} />
         </CardContent>
         <CardFooter className="flex justify-between">
           <Button 
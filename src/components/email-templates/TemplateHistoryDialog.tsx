@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { ApplicationFilters } from '@/lib/api';
+import { getTemplateVersionStats } from '@/lib/analytics';
+import { useApplications } from '@/hooks/useApplicationQueries';
+import { EmailTemplate } from '@/store/emailSettingsStore';
+import { TemplateVersion, getContentHash, useTemplateVersionStore } from '@/store/templateVersionStore';
+import TemplateDiff from './TemplateDiff';
+
+// Every application, to count sends and replies per version
+const ALL_APPLICATIONS: ApplicationFilters = { sort_field: 'sent_at', sort_order: 1 };
+
+const NO_VERSIONS: TemplateVersion[] = [];
+
+interface TemplateHistoryDialogProps {
+  template: EmailTemplate | null; // Open while set
+  onOpenChange: (open: boolean) => void;
+  onRestore: (version: TemplateVersion) => void;
+  isRestoring?: boolean;
+}
+
+/**
+ * A template's saved versions with who changed what, a diff between any two
+ * of them, and how often each version got a reply
+ */
+const TemplateHistoryDialog: React.FC<TemplateHistoryDialogProps> = ({
+  template,
+  onOpenChange,
+  onRestore,
+  isRestoring
+}) => {
+  const templateId = template?._id;
+  const versions = useTemplateVersionStore(state => (templateId ? state.histories[templateId] : undefined)) ?? NO_VERSIONS;
+  const applicationsQuery = useApplications(ALL_APPLICATIONS, { enabled: template !== null });
+  const [selectedId, setSelectedId] = useState('');
+  const [compareId, setCompareId] = useState('');
+
+  const stats = useMemo(
+    () => getTemplateVersionStats(applicationsQuery.data ?? [], templateId ?? ''),
+    [applicationsQuery.data, templateId]
+  );
+
+  const latest = versions[versions.length - 1];
+  const selected = versions.find(version => version.id === selectedId);
+  const compareTo = versions.find(version => version.id === compareId);
+
+  const latestId = latest?.id;
+
+  // Start on the current version, compared with the one before it, and jump
+  // to the new current version after a restore
+  useEffect(() => {
+    if (!templateId) return;
+    const current = useTemplateVersionStore.getState().getVersions(templateId);
+    setSelectedId(current[current.length - 1]?.id ?? '');
+    setCompareId(current[current.length - 2]?.id ?? '');
+  }, [templateId, latestId]);
+
+  // Compare a version with the one before it by default
+  const selectVersion = (version: TemplateVersion) => {
+    const index = versions.indexOf(version);
+    setSelectedId(version.id);
+    setCompareId(versions[index - 1]?.id ?? '');
+  };
+
+  const formatStats = (version: TemplateVersion) => {
+    const entry = stats.get(getContentHash(version));
+    if (!entry) return 'Not sent yet';
+    return `Sent ${entry.sent} · ${entry.responses} ${entry.responses === 1 ? 'reply' : 'replies'} (${Math.round(entry.rate * 100)}%)`;
+  };
+
+  return (
+    <Dialog open={template !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            History of "{template?.name}"
+          </DialogTitle>
+          <DialogDescription>
+            Every saved version, who saved it, and how the applications written from it did.
+            History is kept in this browser; results are matched by wording, so they count emails sent from any device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No versions recorded yet.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[260px_1fr]">
+            <ScrollArea className="h-[420px] rounded-md border">
+              <div className="space-y-1 p-2">
+                {[...versions].reverse().map(version => (
+                  <button
+                    key={version.id}
+                    type="button"
+                    onClick={() => selectVersion(version)}
+                    className={cn(
+                      "w-full rounded-md px-3 py-2 text-left text-sm hover:bg-muted",
+                      version.id === selectedId && "bg-muted"
+                    )}
+                  >
+                    <div className="flex items-center gap-2 font-medium">
+                      v{version.version}
+                      {version === latest && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {version.author} · {format(new Date(version.createdAt), 'MMM d, yyyy HH:mm')}
+                    </div>
+                    {version.note && <div className="text-xs text-muted-foreground">{version.note}</div>}
+                    <div className="text-xs text-muted-foreground">
+                      {applicationsQuery.isLoading ? 'Loading results...' : formatStats(version)}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Label className="whitespace-nowrap">Compare v{selected.version} with</Label>
+                    <Select value={compareId} onValueChange={setCompareId}>
+                      <SelectTrigger className="h-8 w-[160px]">
+                        <SelectValue placeholder="Nothing" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.filter(version => version.id !== selected.id).map(version => (
+                          <SelectItem key={version.id} value={version.id}>
+                            v{version.version}{version === latest ? ' (current)' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRestore(selected)}
+                    disabled={selected === latest || isRestoring}
+                    className="flex items-center gap-2"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    {isRestoring ? "Restoring..." : `Restore v${selected.version}`}
+                  </Button>
+                </div>
+
+                <ScrollArea className="h-[370px] pr-3">
+                  <div className="space-y-4">
+                    {compareTo && compareTo.name !== selected.name && (
+                      <TemplateDiff label="Name" before={compareTo.name} after={selected.name} />
+                    )}
+                    <TemplateDiff label="Subject" before={compareTo?.subject ?? selected.subject} after={selected.subject} />
+                    <TemplateDiff label="Body" before={compareTo?.body ?? selected.body} after={selected.body} />
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateHistoryDialog;
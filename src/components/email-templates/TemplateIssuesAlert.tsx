@@ -0,0 +1,42 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  TemplateContext,
+  findTemplateIssues,
+  formatPlaceholders,
+  getContextVariables
+} from '@/lib/templateEngine';
+
+interface TemplateIssuesAlertProps {
+  template: string; // Subject and body together
+  context: TemplateContext;
+}
+
+/**
+ * Warn about placeholders in a template that won't be filled when it is sent
+ */
+const TemplateIssuesAlert: React.FC<TemplateIssuesAlertProps> = ({ template, context }) => {
+  const { unknown, unavailable } = findTemplateIssues(template, context);
+  if (unknown.length === 0 && unavailable.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Some placeholders will never be filled</AlertTitle>
+      <AlertDescription className="space-y-1">
+        {unknown.length > 0 && (
+          <p>Unknown: {formatPlaceholders(unknown)}. Check the spelling or remove them.</p>
+        )}
+        {unavailable.length > 0 && (
+          <p>
+            Not available in {context === 'followUp' ? 'follow-ups' : 'applications'}: {formatPlaceholders(unavailable)}.
+          </p>
+        )}
+        <p className="text-xs">Available: {formatPlaceholders(getContextVariables(context))}</p>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default TemplateIssuesAlert;
@@ -25,37 +25,38 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { FileEdit, MoreVertical, Trash2, Star } from 'lucide-react';
+import { FileEdit, History, MoreVertical, Trash2, Star } from 'lucide-react';
 import { format } from 'date-fns';
 import { 
   EmailTemplate, 
   EmailTemplateType, 
   useEmailSettingsStore 
 } from '@/store/emailSettingsStore';
+import { useTemplateVersionStore } from '@/store/templateVersionStore';
+import { getAllVariants, hasVariants } from '@/lib/templateVariants';
+import { TEMPLATE_TYPE_LABELS } from '@/lib/templateLibrary';
 import * as templateService from '@/services/emailTemplateService';
+import { useQueryClient } from '@tanstack/react-query';
+import { emailTemplateKeys } from '@/hooks/useEmailTemplates';
 import { toast } from 'sonner';
 
 interface TemplateListProps {
   type: EmailTemplateType;
   onEditTemplate: (template: EmailTemplate) => void;
+  onShowHistory: (template: EmailTemplate) => void;
   onNewTemplate: () => void;
 }
 
-const TemplateList = ({ type, onEditTemplate, onNewTemplate }: TemplateListProps) => {
+const TemplateList = ({ type, onEditTemplate, onShowHistory, onNewTemplate }: TemplateListProps) => {
   const { templates, deleteTemplate, updateTemplate, setTemplates } = useEmailSettingsStore();
+  const deleteHistory = useTemplateVersionStore(state => state.deleteHistory);
+  const queryClient = useQueryClient();
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<EmailTemplate | null>(null);
   
   // Filter templates by type
   const filteredTemplates = templates.filter(template => template.type === type);
   
-  // Get type label for display
-  const getTypeLabel = (type: EmailTemplateType) => {
-    return type === EmailTemplateType.JOB_APPLICATION 
-      ? 'Job Application' 
-      : 'Follow-up';
-  };
-  
   // Format date
   const formatDate = (dateString?: Date) => {
     if (!dateString) return 'N/A';
@@ -74,6 +75,8 @@ const TemplateList = ({ type, onEditTemplate, onNewTemplate }: TemplateListProps
       try {
         await templateService.deleteTemplate(selectedTemplate._id);
         deleteTemplate(selectedTemplate._id);
+        deleteHistory(selectedTemplate._id);
+        queryClient.invalidateQueries({ queryKey: emailTemplateKeys.all });
         toast.success('Template deleted successfully');
       } catch (error) {
         toast.error('Failed to delete template');
@@ -99,6 +102,7 @@ const TemplateList = ({ type, onEditTemplate, onNewTemplate }: TemplateListProps
         return t;
       }));
       
+      queryClient.invalidateQueries({ queryKey: emailTemplateKeys.all });
       toast.success('Default template updated');
     } catch (error) {
       toast.error('Failed to set default template');
@@ -109,7 +113,7 @@ const TemplateList = ({ type, onEditTemplate, onNewTemplate }: TemplateListProps
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
-        <h3 className="text-lg font-medium">{getTypeLabel(type)} Templates</h3>
+        <h3 className="text-lg font-medium">{TEMPLATE_TYPE_LABELS[type].singular} Templates</h3>
         <Button size="sm" onClick={onNewTemplate}>
           Add Template
         </Button>
@@ -133,9 +137,14 @@ const TemplateList = ({ type, onEditTemplate, onNewTemplate }: TemplateListProps
                 <TableCell>{template.subject}</TableCell>
                 <TableCell>{formatDate(template.createdAt)}</TableCell>
                 <TableCell>
-                  {template.isDefault && (
-                    <Badge variant="default">Default</Badge>
-                  )}
+                  <div className="flex gap-1">
+                    {template.isDefault && (
+                      <Badge variant="default">Default</Badge>
+                    )}
+                    {hasVariants(template) && (
+                      <Badge variant="outline">A/B · {getAllVariants(template).length} variants</Badge>
+                    )}
+                  </div>
                 </TableCell>
                 <TableCell>
                   <DropdownMenu>
@@ -150,6 +159,10 @@ const TemplateList = ({ type, onEditTemplate, onNewTemplate }: TemplateListProps
                         <FileEdit className="h-4 w-4 mr-2" />
                         Edit
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => onShowHistory(template)}>
+                        <History className="h-4 w-4 mr-2" />
+                        History
+                      </DropdownMenuItem>
                       {!template.isDefault && (
                         <>
                           <DropdownMenuItem onClick={() => handleSetAsDefault(template)}>
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { EmailTemplateType } from '@/store/emailSettingsStore';
+import { TemplateChoice } from '@/lib/templateLibrary';
+import { useTemplateChoices } from '@/hooks/useEmailTemplates';
+
+interface TemplatePickerProps {
+  type: EmailTemplateType;
+  onApply: (choice: TemplateChoice) => void;
+  applyLabel?: string;
+}
+
+/**
+ * Pick a template from the library (the default is preselected) and apply it
+ */
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ type, onApply, applyLabel = "Apply Template" }) => {
+  const { choices, defaultChoice, isLoading } = useTemplateChoices(type);
+  const [selectedId, setSelectedId] = useState('');
+  const selected = choices.find(choice => choice.id === selectedId);
+
+  // Preselect the default once the library has loaded, and again if the pick disappears
+  useEffect(() => {
+    if (!isLoading && !selected && defaultChoice) {
+      setSelectedId(defaultChoice.id);
+    }
+  }, [isLoading, selected, defaultChoice]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={selectedId} onValueChange={setSelectedId} disabled={choices.length === 0}>
+        <SelectTrigger className="w-[240px] h-9">
+          <SelectValue placeholder={isLoading ? "Loading templates..." : "No templates yet"} />
+        </SelectTrigger>
+        <SelectContent>
+          {choices.map(choice => (
+            <SelectItem key={choice.id} value={choice.id}>
+              <span className="flex items-center gap-2">
+                {choice.name}
+                {choice.isDefault && <Badge variant="secondary" className="text-xs">Default</Badge>}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => selected && onApply(selected)}
+        disabled={!selected}
+        className="flex items-center"
+      >
+        <FileText className="h-4 w-4 mr-2" />
+        {applyLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ApplicationFilters } from '@/lib/api';
+import {
+  TemplateContext,
+  TemplateValues,
+  formatPlaceholders,
+  getApplicationValues,
+  getContextVariables,
+  getExampleValues,
+  getTemplateVariableDefinition,
+  renderTemplate
+} from '@/lib/templateEngine';
+import { useApplications } from '@/hooks/useApplicationQueries';
+import { useEmailSettingsStore } from '@/store/emailSettingsStore';
+import HighlightedText from './HighlightedText';
+
+type PreviewSource = 'sample' | 'application' | 'custom';
+
+// Recent applications to preview against
+const PREVIEW_FILTERS: ApplicationFilters = { limit: 25, sort_field: 'updated_at', sort_order: -1 };
+
+interface TemplatePreviewProps {
+  subject: string;
+  body: string;
+  context: TemplateContext;
+}
+
+/**
+ * The template as it would be sent, filled with sample data, one of your
+ * applications, or values typed in by hand
+ */
+const TemplatePreview: React.FC<TemplatePreviewProps> = ({ subject, body, context }) => {
+  const { settings: emailSettings } = useEmailSettingsStore();
+  const [source, setSource] = useState<PreviewSource>('sample');
+  const [applicationId, setApplicationId] = useState<string>('');
+  const [customValues, setCustomValues] = useState<TemplateValues>(getExampleValues);
+  const applicationsQuery = useApplications(PREVIEW_FILTERS, { enabled: source === 'application' });
+  const applications = applicationsQuery.data;
+
+  const values = useMemo((): TemplateValues => {
+    if (source === 'custom') return customValues;
+    if (source === 'application') {
+      const application = applications?.find(app => app._id === applicationId);
+      return application ? getApplicationValues(application, emailSettings) : {};
+    }
+    return getExampleValues();
+  }, [source, customValues, applications, applicationId, emailSettings]);
+
+  const renderedSubject = renderTemplate(subject, values);
+  const renderedBody = renderTemplate(body, values);
+  const unknown = [...new Set([...renderedSubject.unknown, ...renderedBody.unknown])];
+  const unfilled = [...new Set([...renderedSubject.unfilled, ...renderedBody.unfilled])];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label>Preview</Label>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={source}
+          onValueChange={(value) => value && setSource(value as PreviewSource)}
+        >
+          <ToggleGroupItem value="sample">Sample</ToggleGroupItem>
+          <ToggleGroupItem value="application">Application</ToggleGroupItem>
+          <ToggleGroupItem value="custom">Custom</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {source === 'application' && (
+        <Select value={applicationId} onValueChange={setApplicationId}>
+          <SelectTrigger>
+            <SelectValue
+              placeholder={
+                applicationsQuery.isLoading
+                  ? "Loading applications..."
+                  : applicationsQuery.isError
+                    ? "Couldn't load applications"
+                    : "Pick an application"
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {(applications ?? []).map(app => (
+              <SelectItem key={app._id} value={app._id}>
+                {app.company || 'N/A'} - {app.position || 'N/A'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {source === 'custom' && (
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {getContextVariables(context).map(name => (
+            <div key={name} className="space-y-1">
+              <Label htmlFor={`preview-${name}`} className="text-xs">
+                {getTemplateVariableDefinition(name).label}
+              </Label>
+              <Input
+                id={`preview-${name}`}
+                value={customValues[name] ?? ''}
+                onChange={(e) => setCustomValues(prev => ({ ...prev, [name]: e.target.value }))}
+                className="h-8 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="rounded-md border bg-muted/30 p-4 text-sm">
+        <div className="mb-3 border-b pb-2">
+          <span className="text-muted-foreground">Subject: </span>
+          <HighlightedText text={renderedSubject.text} className="inline font-medium" />
+        </div>
+        <HighlightedText text={renderedBody.text || 'Nothing to preview yet.'} />
+      </div>
+
+      {(unknown.length > 0 || unfilled.length > 0) && (
+        <div className="space-y-1 text-xs">
+          {unknown.length > 0 && (
+            <p className="text-destructive">Unknown placeholders: {formatPlaceholders(unknown)}</p>
+          )}
+          {unfilled.length > 0 && (
+            <p className="text-amber-700 dark:text-amber-300">No value for: {formatPlaceholders(unfilled)}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePreview;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  TemplateContext,
+  TemplateVariable,
+  getContextVariables,
+  getTemplateVariableDefinition
+} from '@/lib/templateEngine';
+
+interface TemplateVariablePaletteProps {
+  context: TemplateContext;
+  onInsert: (placeholder: string) => void;
+}
+
+/**
+ * Variables available to a template, inserted at the cursor when clicked
+ */
+const TemplateVariablePalette: React.FC<TemplateVariablePaletteProps> = ({ context, onInsert }) => (
+  <div className="flex flex-wrap gap-1">
+    {getContextVariables(context).map((name: TemplateVariable) => {
+      const definition = getTemplateVariableDefinition(name);
+      return (
+        <Tooltip key={name}>
+          <TooltipTrigger asChild>
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              className="h-7 px-2 font-mono text-xs"
+              // Keep focus (and the cursor position) in the field being edited
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onInsert(`{${name}}`)}
+            >
+              {`{${name}}`}
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>{definition.description}</p>
+            {definition.fallback && <p className="text-xs text-muted-foreground">Default: {definition.fallback}</p>}
+          </TooltipContent>
+        </Tooltip>
+      );
+    })}
+  </div>
+);
+
+export default TemplateVariablePalette;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { Plus, Split, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { EmailTemplate, TemplateVariant } from '@/store/emailSettingsStore';
+import { TemplateContext } from '@/lib/templateEngine';
+import {
+  MAIN_VARIANT_NAME,
+  createVariant,
+  getAllVariants,
+  getVariantName,
+  getVariantShares
+} from '@/lib/templateVariants';
+import TemplateIssuesAlert from './TemplateIssuesAlert';
+
+type VariantFields = Pick<EmailTemplate, 'subject' | 'body' | 'weight' | 'variants'>;
+
+interface TemplateVariantsEditorProps {
+  template: VariantFields;
+  context: TemplateContext;
+  errors: Record<string, string>;
+  onChange: (changes: Pick<EmailTemplate, 'weight' | 'variants'>) => void;
+}
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+const parseWeight = (value: string) => Math.max(0, Number(value) || 0);
+
+/**
+ * Alternative wordings of a template to A/B test against the main subject and body
+ */
+const TemplateVariantsEditor: React.FC<TemplateVariantsEditorProps> = ({ template, context, errors, onChange }) => {
+  const variants = template.variants ?? [];
+  const shares = getVariantShares(template);
+
+  const setVariants = (next: TemplateVariant[]) => onChange({ weight: template.weight, variants: next });
+
+  const updateVariant = (id: string, changes: Partial<TemplateVariant>) =>
+    setVariants(variants.map(variant => (variant.id === id ? { ...variant, ...changes } : variant)));
+
+  // New variants start as a copy of the main wording, named with the next free letter
+  const addVariant = () => {
+    const used = new Set(getAllVariants(template).map(variant => variant.name));
+    let index = 1;
+    while (used.has(getVariantName(index)) && index < 26) index++;
+    setVariants([...variants, createVariant({ name: getVariantName(index), subject: template.subject, body: template.body })]);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <Label className="flex items-center gap-2">
+            <Split className="h-4 w-4" />
+            A/B variants
+          </Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Each new application gets one wording at random, in proportion to the weights.
+            Compare reply rates per variant on the Analytics page.
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={addVariant} className="flex items-center gap-1">
+          <Plus className="h-4 w-4" />
+          Add variant
+        </Button>
+      </div>
+
+      {variants.length > 0 && (
+        <>
+          <div className="flex items-center gap-3 text-sm">
+            <span className="w-24 font-medium">{MAIN_VARIANT_NAME} (main)</span>
+            <Label htmlFor="weight-main" className="text-xs text-muted-foreground">Weight</Label>
+            <Input
+              id="weight-main"
+              type="number"
+              min={0}
+              value={template.weight ?? 1}
+              onChange={(e) => onChange({ weight: parseWeight(e.target.value), variants })}
+              className="h-8 w-20"
+            />
+            <span className="text-xs text-muted-foreground">{formatShare(shares[0])} of sends</span>
+          </div>
+
+          {variants.map((variant, index) => (
+            <div key={variant.id} className="space-y-2 border-t pt-3">
+              <div className="flex items-center gap-3 text-sm">
+                <span className="w-24 font-medium">{variant.name}</span>
+                <Label htmlFor={`weight-${variant.id}`} className="text-xs text-muted-foreground">Weight</Label>
+                <Input
+                  id={`weight-${variant.id}`}
+                  type="number"
+                  min={0}
+                  value={variant.weight}
+                  onChange={(e) => updateVariant(variant.id, { weight: parseWeight(e.target.value) })}
+                  className="h-8 w-20"
+                />
+                <span className="text-xs text-muted-foreground">{formatShare(shares[index + 1])} of sends</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setVariants(variants.filter(v => v.id !== variant.id))}
+                  className="ml-auto h-8 w-8"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove variant {variant.name}</span>
+                </Button>
+              </div>
+              <Input
+                value={variant.subject}
+                onChange={(e) => updateVariant(variant.id, { subject: e.target.value })}
+                placeholder={`Subject for variant ${variant.name}`}
+                className={errors[`variant-${variant.id}`] && !variant.subject.trim() ? 'border-destructive' : ''}
+              />
+              <Textarea
+                value={variant.body}
+                onChange={(e) => updateVariant(variant.id, { body: e.target.value })}
+                placeholder={`Body for variant ${variant.name}`}
+                className={`min-h-[140px] font-mono text-sm ${errors[`variant-${variant.id}`] && !variant.body.trim() ? 'border-destructive' : ''}`}
+              />
+              {errors[`variant-${variant.id}`] && (
+                <p className="text-sm text-destructive">{errors[`variant-${variant.id}`]}</p>
+              )}
+              <TemplateIssuesAlert template={`${variant.subject}\n${variant.body}`} context={context} />
+            </div>
+          ))}
+
+          {errors.weight && <p className="text-sm text-destructive">{errors.weight}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TemplateVariantsEditor;
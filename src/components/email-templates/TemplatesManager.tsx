@@ -5,17 +5,37 @@ import {
   EmailTemplateType, 
   useEmailSettingsStore 
 } from '@/store/emailSettingsStore';
+import { useAuthStore } from '@/store/authStore';
+import { TemplateVersion, UNKNOWN_AUTHOR, useTemplateVersionStore } from '@/store/templateVersionStore';
 import * as templateService from '@/services/emailTemplateService';
+import { useQueryClient } from '@tanstack/react-query';
+import { emailTemplateKeys } from '@/hooks/useEmailTemplates';
+import { TEMPLATE_TYPE_LABELS } from '@/lib/templateLibrary';
 import { toast } from 'sonner';
 import TemplateList from './TemplateList';
 import TemplateEditor from './TemplateEditor';
+import TemplateHistoryDialog from './TemplateHistoryDialog';
+
+// Template dates arrive as ISO strings despite the Date type
+const toISOString = (date?: Date | string) => {
+  const parsed = date ? new Date(date) : null;
+  return parsed && !isNaN(parsed.getTime()) ? parsed.toISOString() : undefined;
+};
 
 const TemplatesManager = () => {
   const { templates, setTemplates, addTemplate, updateTemplate } = useEmailSettingsStore();
+  const { user } = useAuthStore();
+  const recordVersion = useTemplateVersionStore(state => state.recordVersion);
+  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(true);
   const [selectedTemplate, setSelectedTemplate] = useState<EmailTemplate | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [activeTab, setActiveTab] = useState<EmailTemplateType>(EmailTemplateType.JOB_APPLICATION);
+  const [historyTemplate, setHistoryTemplate] = useState<EmailTemplate | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  
+  // Versions saved here are credited to the signed-in user
+  const author = user?.name || user?.email || UNKNOWN_AUTHOR;
   
   // Fetch templates on component mount
   useEffect(() => {
@@ -52,20 +72,30 @@ const TemplatesManager = () => {
   const handleSaveTemplate = async (templateData: EmailTemplate) => {
     try {
       if (templateData._id) {
+        // Keep the wording from before this edit if it was never recorded
+        if (selectedTemplate) {
+          recordVersion(selectedTemplate, UNKNOWN_AUTHOR, { createdAt: toISOString(selectedTemplate.updatedAt) });
+        }
+        
         // Update existing template
         const updatedTemplate = await templateService.updateTemplate(
           templateData._id,
           templateData
         );
         updateTemplate(updatedTemplate);
+        recordVersion(updatedTemplate, author);
         toast.success('Template updated successfully');
       } else {
         // Create new template
         const newTemplate = await templateService.createTemplate(templateData);
         addTemplate(newTemplate);
+        recordVersion(newTemplate, author, { note: 'Created' });
         toast.success('Template created successfully');
       }
       
+      // The composer's template pickers read the library separately
+      queryClient.invalidateQueries({ queryKey: emailTemplateKeys.all });
+      
       // Close editor
       setIsEditing(false);
       setSelectedTemplate(null);
@@ -75,6 +105,34 @@ const TemplatesManager = () => {
     }
   };
   
+  // Show a template's history, recording its current wording as a first version if needed
+  const handleShowHistory = (template: EmailTemplate) => {
+    recordVersion(template, UNKNOWN_AUTHOR, { createdAt: toISOString(template.updatedAt) });
+    setHistoryTemplate(template);
+  };
+  
+  // Roll a template back to an earlier version, which becomes the newest version
+  const handleRestoreVersion = async (version: TemplateVersion) => {
+    try {
+      setIsRestoring(true);
+      const restoredTemplate = await templateService.updateTemplate(version.templateId, {
+        name: version.name,
+        subject: version.subject,
+        body: version.body
+      });
+      updateTemplate(restoredTemplate);
+      recordVersion(restoredTemplate, author, { note: `Restored from v${version.version}` });
+      queryClient.invalidateQueries({ queryKey: emailTemplateKeys.all });
+      setHistoryTemplate(restoredTemplate);
+      toast.success(`Restored version ${version.version}`);
+    } catch (error) {
+      toast.error('Failed to restore template version');
+      console.error('Error restoring template version:', error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+  
   // Cancel editing
   const handleCancelEdit = () => {
     setIsEditing(false);
@@ -88,6 +146,7 @@ const TemplatesManager = () => {
       {isEditing ? (
         <TemplateEditor
           template={selectedTemplate || undefined}
+          defaultType={activeTab}
           onSave={handleSaveTemplate}
           onCancel={handleCancelEdit}
         />
@@ -98,32 +157,33 @@ const TemplatesManager = () => {
           onValueChange={(value) => setActiveTab(value as EmailTemplateType)}
           className="w-full"
         >
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value={EmailTemplateType.JOB_APPLICATION}>
-              Job Application Templates
-            </TabsTrigger>
-            <TabsTrigger value={EmailTemplateType.FOLLOW_UP}>
-              Follow-up Templates
-            </TabsTrigger>
+          <TabsList className="grid w-full grid-cols-3">
+            {Object.values(EmailTemplateType).map(type => (
+              <TabsTrigger key={type} value={type}>
+                {TEMPLATE_TYPE_LABELS[type].singular} Templates
+              </TabsTrigger>
+            ))}
           </TabsList>
           
-          <TabsContent value={EmailTemplateType.JOB_APPLICATION}>
-            <TemplateList 
-              type={EmailTemplateType.JOB_APPLICATION}
-              onEditTemplate={handleEditTemplate}
-              onNewTemplate={handleCreateTemplate}
-            />
-          </TabsContent>
-          
-          <TabsContent value={EmailTemplateType.FOLLOW_UP}>
-            <TemplateList 
-              type={EmailTemplateType.FOLLOW_UP}
-              onEditTemplate={handleEditTemplate}
-              onNewTemplate={handleCreateTemplate}
-            />
-          </TabsContent>
+          {Object.values(EmailTemplateType).map(type => (
+            <TabsContent key={type} value={type}>
+              <TemplateList 
+                type={type}
+                onEditTemplate={handleEditTemplate}
+                onShowHistory={handleShowHistory}
+                onNewTemplate={handleCreateTemplate}
+              />
+            </TabsContent>
+          ))}
         </Tabs>
       )}
+      
+      <TemplateHistoryDialog
+        template={historyTemplate}
+        onOpenChange={(open) => !open && setHistoryTemplate(null)}
+        onRestore={handleRestoreVersion}
+        isRestoring={isRestoring}
+      />
     </div>
   );
 };
@@ -5,6 +5,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { AlertTriangle, Calendar, Mail, Send, Clock, X, Plus } from 'lucide-react';
 import { Application } from '@/store/applicationStore';
+import { FollowUpSettings } from '@/lib/api';
+import { describeFollowUpSettings } from '@/lib/followUpPolicy';
 import { TemplateData } from '../EmailTemplates';
 import { EmailTemplateType } from '../EmailTemplates';
 
@@ -13,6 +15,8 @@ interface FollowUpFormProps {
   selectedApplicationId: string | null;
   handleSelectApplication: (app: Application) => void;
   handleSetupAutoFollowUp: (app: Application) => void;
+  // Server-side follow-up settings for a listed application, if it has been saved
+  getFollowUpSettings: (app: Application) => FollowUpSettings | undefined;
   disableAutoFollowUp: (id: string) => void;
   isFollowUpDialogOpen: boolean;
   setIsFollowUpDialogOpen: (open: boolean) => void;
@@ -26,6 +30,7 @@ const FollowUpForm: React.FC<FollowUpFormProps> = ({
   selectedApplicationId,
   handleSelectApplication,
   handleSetupAutoFollowUp,
+  getFollowUpSettings,
   disableAutoFollowUp,
   isFollowUpDialogOpen,
   setIsFollowUpDialogOpen,
@@ -61,77 +66,79 @@ const FollowUpForm: React.FC<FollowUpFormProps> = ({
       <h3 className="text-sm font-medium mb-2">Previously Sent Applications</h3>
       <ScrollArea className="h-[250px] rounded-md border p-2">
         <div className="space-y-3">
-          {applications.map((app) => (
-            <div 
-              key={app.id} 
-              className={`p-3 rounded-md border cursor-pointer transition-colors ${
-                selectedApplicationId === app.id ? 'bg-primary/10 border-primary/30' : 'hover:bg-muted'
-              }`}
-            >
-              <div className="flex items-start justify-between mb-1">
-                <div className="flex-1">
-                  <p className="font-medium text-sm">{app.position} at {app.company}</p>
-                  <p className="text-xs text-muted-foreground">{app.recipient}</p>
-                </div>
-                <div className="flex space-x-1">
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    className="h-7 px-2"
-                    onClick={() => handleSelectApplication(app)}
-                    title="Send follow-up now"
-                  >
-                    <Send className="h-3.5 w-3.5" />
-                  </Button>
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    className="h-7 px-2"
-                    onClick={() => handleSetupAutoFollowUp(app)}
-                    title="Auto-schedule follow-ups"
-                  >
-                    <Clock className="h-3.5 w-3.5" />
-                  </Button>
-                  {app.autoFollowUp.enabled && (
+          {applications.map((app) => {
+            const followUpSettings = getFollowUpSettings(app);
+            const autoFollowUpActive = !!followUpSettings && !followUpSettings.paused;
+
+            return (
+              <div 
+                key={app.id} 
+                className={`p-3 rounded-md border cursor-pointer transition-colors ${
+                  selectedApplicationId === app.id ? 'bg-primary/10 border-primary/30' : 'hover:bg-muted'
+                }`}
+              >
+                <div className="flex items-start justify-between mb-1">
+                  <div className="flex-1">
+                    <p className="font-medium text-sm">{app.position} at {app.company}</p>
+                    <p className="text-xs text-muted-foreground">{app.recipient}</p>
+                  </div>
+                  <div className="flex space-x-1">
                     <Button 
                       variant="ghost" 
                       size="sm"
-                      className="h-7 px-2 text-destructive"
-                      onClick={() => disableAutoFollowUp(app.id)}
-                      title="Disable auto follow-up"
+                      className="h-7 px-2"
+                      onClick={() => handleSelectApplication(app)}
+                      title="Send follow-up now"
                     >
-                      <X className="h-3.5 w-3.5" />
+                      <Send className="h-3.5 w-3.5" />
                     </Button>
-                  )}
-                </div>
-              </div>
-              <div className="flex justify-between mt-2 text-xs text-muted-foreground">
-                <div className="flex items-center gap-1">
-                  <Calendar className="h-3 w-3" />
-                  <span>Applied: {app.sentDate}</span>
+                    <Button 
+                      variant="ghost" 
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => handleSetupAutoFollowUp(app)}
+                      title="Auto-schedule follow-ups"
+                    >
+                      <Clock className="h-3.5 w-3.5" />
+                    </Button>
+                    {autoFollowUpActive && (
+                      <Button 
+                        variant="ghost" 
+                        size="sm"
+                        className="h-7 px-2 text-destructive"
+                        onClick={() => disableAutoFollowUp(app.id)}
+                        title="Disable auto follow-up"
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
                 </div>
-                <div className="flex items-center gap-1">
-                  {app.followUpCount > 0 ? (
-                    <>
-                      <Mail className="h-3 w-3" />
-                      <span>Follow-ups: {app.followUpCount}</span>
-                    </>
-                  ) : (
-                    <span>No follow-ups yet</span>
-                  )}
+                <div className="flex justify-between mt-2 text-xs text-muted-foreground">
+                  <div className="flex items-center gap-1">
+                    <Calendar className="h-3 w-3" />
+                    <span>Applied: {app.sentDate}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {app.followUpCount > 0 ? (
+                      <>
+                        <Mail className="h-3 w-3" />
+                        <span>Follow-ups: {app.followUpCount}</span>
+                      </>
+                    ) : (
+                      <span>No follow-ups yet</span>
+                    )}
+                  </div>
                 </div>
+                {autoFollowUpActive && (
+                  <div className="mt-2 text-xs flex items-center gap-1 bg-muted/50 rounded-sm px-2 py-1">
+                    <Clock className="h-3 w-3 text-primary" />
+                    <span>Auto: {describeFollowUpSettings(followUpSettings)}</span>
+                  </div>
+                )}
               </div>
-              {app.autoFollowUp.enabled && (
-                <div className="mt-2 text-xs flex items-center gap-1 bg-muted/50 rounded-sm px-2 py-1">
-                  <Clock className="h-3 w-3 text-primary" />
-                  <span>
-                    Auto: Every {app.autoFollowUp.interval} {app.autoFollowUp.intervalType} 
-                    (max {app.autoFollowUp.maxFollowUps} times)
-                  </span>
-                </div>
-              )}
-            </div>
-          ))}
+            );
+          })}
         </div>
       </ScrollArea>
       
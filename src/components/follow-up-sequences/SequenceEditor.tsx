@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { FollowUpIntervalUnit } from '@/lib/api';
+import { INTERVAL_LIMITS } from '@/lib/followUpPolicy';
+import { EmailTemplateType, useEmailSettingsStore } from '@/store/emailSettingsStore';
+import TemplateIssuesAlert from '@/components/email-templates/TemplateIssuesAlert';
+import {
+  FollowUpSequence,
+  FollowUpSequenceStep,
+  SubjectStrategy,
+  createSequenceStep
+} from '@/store/followUpSequenceStore';
+
+interface SequenceEditorProps {
+  sequence?: FollowUpSequence;
+  onSave: (sequence: Pick<FollowUpSequence, 'name' | 'steps'>) => void;
+  onCancel: () => void;
+}
+
+const SUBJECT_STRATEGIES: { value: SubjectStrategy; label: string }[] = [
+  { value: 'reply', label: 'Reply to the original (Re: ...)' },
+  { value: 'original', label: 'Same subject as the original' },
+  { value: 'custom', label: 'Custom subject' },
+];
+
+const SequenceEditor = ({ sequence, onSave, onCancel }: SequenceEditorProps) => {
+  const { templates } = useEmailSettingsStore();
+  const [name, setName] = useState(sequence?.name ?? '');
+  const [steps, setSteps] = useState<FollowUpSequenceStep[]>(sequence?.steps ?? [createSequenceStep()]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const followUpTemplates = templates.filter(template => template.type === EmailTemplateType.FOLLOW_UP);
+
+  // Reset the form when a different sequence is opened
+  useEffect(() => {
+    setName(sequence?.name ?? '');
+    setSteps(sequence?.steps ?? [createSequenceStep()]);
+    setErrors({});
+  }, [sequence]);
+
+  const updateStep = (id: string, changes: Partial<FollowUpSequenceStep>) => {
+    setSteps(prev => prev.map(step => (step.id === id ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  // Copy a library template into a step
+  const applyTemplate = (stepId: string, templateId: string) => {
+    const template = followUpTemplates.find(t => t._id === templateId);
+    if (template) {
+      updateStep(stepId, { body: template.body, subject: template.subject, subjectStrategy: 'custom' });
+    }
+  };
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!name.trim()) {
+      newErrors.name = 'Sequence name is required';
+    }
+    if (steps.length === 0) {
+      newErrors.steps = 'Add at least one step';
+    }
+
+    steps.forEach(step => {
+      const { min, max } = INTERVAL_LIMITS[step.delayUnit];
+      if (step.delay < min || step.delay > max) {
+        newErrors[`${step.id}.delay`] = `Delay must be between ${min} and ${max} ${step.delayUnit}`;
+      }
+      if (!step.body.trim()) {
+        newErrors[`${step.id}.body`] = 'Email body is required';
+      }
+      if (step.subjectStrategy === 'custom' && !step.subject.trim()) {
+        newErrors[`${step.id}.subject`] = 'Enter a subject or pick another strategy';
+      }
+    });
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (validate()) {
+      onSave({
+        name: name.trim(),
+        steps: steps.map((step, index) => ({ ...step, name: step.name.trim() || `Step ${index + 1}` }))
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{sequence ? 'Edit Sequence' : 'Create Sequence'}</CardTitle>
+          <CardDescription>
+            Follow-up #1 uses the first step, #2 the second and so on. Each step waits its delay after the previous email.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sequence-name">Sequence Name</Label>
+            <Input
+              id="sequence-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Polite escalation"
+              className={errors.name ? 'border-destructive' : ''}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+          </div>
+
+          {steps.map((step, index) => (
+            <div key={step.id} className="rounded-md border p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <Input
+                  value={step.name}
+                  onChange={(e) => updateStep(step.id, { name: e.target.value })}
+                  placeholder={`Step ${index + 1}`}
+                  className="max-w-xs font-medium"
+                  aria-label={`Step ${index + 1} name`}
+                />
+                <div className="flex gap-1">
+                  <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                    <span className="sr-only">Move up</span>
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                    <span className="sr-only">Move down</span>
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={steps.length === 1}
+                    onClick={() => setSteps(prev => prev.filter(s => s.id !== step.id))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove step</span>
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Wait</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      value={step.delay}
+                      min={INTERVAL_LIMITS[step.delayUnit].min}
+                      max={INTERVAL_LIMITS[step.delayUnit].max}
+                      onChange={(e) => updateStep(step.id, { delay: Number(e.target.value) })}
+                      className="w-24"
+                    />
+                    <Select
+                      value={step.delayUnit}
+                      onValueChange={(value: FollowUpIntervalUnit) => updateStep(step.id, { delayUnit: value })}
+                    >
+                      <SelectTrigger className="w-[110px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="minutes">minutes</SelectItem>
+                        <SelectItem value="hours">hours</SelectItem>
+                        <SelectItem value="days">days</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {errors[`${step.id}.delay`] && (
+                    <p className="text-sm text-destructive">{errors[`${step.id}.delay`]}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Subject</Label>
+                  <Select
+                    value={step.subjectStrategy}
+                    onValueChange={(value: SubjectStrategy) => updateStep(step.id, { subjectStrategy: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SUBJECT_STRATEGIES.map(strategy => (
+                        <SelectItem key={strategy.value} value={strategy.value}>{strategy.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {step.subjectStrategy === 'custom' && (
+                <div className="space-y-2">
+                  <Input
+                    value={step.subject}
+                    onChange={(e) => updateStep(step.id, { subject: e.target.value })}
+                    placeholder="e.g., Quick question about the {position} role"
+                    className={errors[`${step.id}.subject`] ? 'border-destructive' : ''}
+                    aria-label={`Step ${index + 1} subject`}
+                  />
+                  {errors[`${step.id}.subject`] && (
+                    <p className="text-sm text-destructive">{errors[`${step.id}.subject`]}</p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Email Body</Label>
+                  {followUpTemplates.length > 0 && (
+                    <Select value="" onValueChange={(value) => applyTemplate(step.id, value)}>
+                      <SelectTrigger className="w-[200px] h-8">
+                        <SelectValue placeholder="Start from a template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {followUpTemplates.map(template => (
+                          <SelectItem key={template._id} value={template._id ?? template.name}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <Textarea
+                  value={step.body}
+                  onChange={(e) => updateStep(step.id, { body: e.target.value })}
+                  placeholder="Dear {recipientName}, ..."
+                  className={`min-h-[160px] font-mono text-sm ${errors[`${step.id}.body`] ? 'border-destructive' : ''}`}
+                />
+                {errors[`${step.id}.body`] && (
+                  <p className="text-sm text-destructive">{errors[`${step.id}.body`]}</p>
+                )}
+                <TemplateIssuesAlert
+                  template={step.subjectStrategy === 'custom' ? `${step.subject}\n${step.body}` : step.body}
+                  context="followUp"
+                />
+              </div>
+            </div>
+          ))}
+
+          {errors.steps && <p className="text-sm text-destructive">{errors.steps}</p>}
+
+          <Button type="button" variant="outline" onClick={() => setSteps(prev => [...prev, createSequenceStep()])}>
+            <Plus className="h-4 w-4 mr-2" /> Add Step
+          </Button>
+
+          <p className="text-xs text-muted-foreground">
+            Placeholders: {'{recipientName}'}, {'{position}'}, {'{company}'}, {'{applicationDate}'}, {'{senderName}'}
+          </p>
+        </CardContent>
+
+        <CardFooter className="flex justify-between">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit">
+            {sequence ? 'Update Sequence' : 'Create Sequence'}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+};
+
+export default SequenceEditor;
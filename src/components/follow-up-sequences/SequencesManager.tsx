@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { FileEdit, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { FollowUpSequence, useFollowUpSequenceStore } from '@/store/followUpSequenceStore';
+import SequenceEditor from './SequenceEditor';
+
+const SequencesManager = () => {
+  const { sequences, addSequence, updateSequence, deleteSequence } = useFollowUpSequenceStore();
+  const [isEditing, setIsEditing] = useState(false);
+  const [selectedSequence, setSelectedSequence] = useState<FollowUpSequence | null>(null);
+  const [sequenceToDelete, setSequenceToDelete] = useState<FollowUpSequence | null>(null);
+
+  const handleEditSequence = (sequence: FollowUpSequence | null) => {
+    setSelectedSequence(sequence);
+    setIsEditing(true);
+  };
+
+  const handleSaveSequence = (data: Pick<FollowUpSequence, 'name' | 'steps'>) => {
+    if (selectedSequence) {
+      updateSequence(selectedSequence.id, data);
+      toast.success('Sequence updated successfully');
+    } else {
+      addSequence(data);
+      toast.success('Sequence created successfully');
+    }
+
+    setIsEditing(false);
+    setSelectedSequence(null);
+  };
+
+  const handleCancelEdit = () => {
+    setIsEditing(false);
+    setSelectedSequence(null);
+  };
+
+  const confirmDelete = () => {
+    if (sequenceToDelete) {
+      deleteSequence(sequenceToDelete.id);
+      toast.success('Sequence deleted');
+    }
+    setSequenceToDelete(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-semibold mb-6">Follow-up Sequences</h2>
+
+      {isEditing ? (
+        <SequenceEditor
+          sequence={selectedSequence || undefined}
+          onSave={handleSaveSequence}
+          onCancel={handleCancelEdit}
+        />
+      ) : (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-sm text-muted-foreground">
+              A sequence is an ordered list of follow-up emails, each with its own delay, subject and template.
+              Assign one to an application from its follow-up settings.
+            </p>
+            <Button size="sm" onClick={() => handleEditSequence(null)}>
+              Add Sequence
+            </Button>
+          </div>
+
+          {sequences.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Steps</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sequences.map(sequence => (
+                  <TableRow key={sequence.id}>
+                    <TableCell className="font-medium">{sequence.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {sequence.steps.map((step, index) => (
+                          <Badge key={step.id} variant="secondary">
+                            {index + 1}. {step.name} (+{step.delay} {step.delayUnit})
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{format(new Date(sequence.updatedAt), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => handleEditSequence(sequence)}>
+                          <FileEdit className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setSequenceToDelete(sequence)}>
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="py-8 text-center text-muted-foreground">
+              No sequences yet. Create your first sequence.
+            </div>
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={!!sequenceToDelete} onOpenChange={(open) => !open && setSequenceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Sequence</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{sequenceToDelete?.name}"? Applications using it go back to their
+              plain follow-up interval and template.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SequencesManager;
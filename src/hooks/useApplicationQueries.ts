@@ -0,0 +1,334 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient, QueryClient } from '@tanstack/react-query';
+import {
+  ApplicationFilters,
+  FollowUpFilters,
+  FollowUpSettings,
+  JobApplication,
+  Page,
+  applicationsApi,
+  followUpsApi
+} from '@/lib/api';
+import { ApplicationStatus, assertTransition } from '@/lib/applicationStatus';
+import { FollowUpRequest, changeApplicationStatus, sendFollowUp, settingsAfterStatusChange } from '@/lib/followUps';
+import { saveRecipient } from '@/lib/contacts';
+import { acquireLock, releaseLock } from '@/lib/tabLocks';
+import { SEND_LOCK_TTL_MS, getSendLockName } from '@/hooks/useSendLocks';
+import { ApiRequestError } from '@/services/apiErrors';
+
+// Background refresh interval for dashboard lists
+export const LIST_REFETCH_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Query keys for applications and follow-ups.
+ * Everything under applicationKeys.all is invalidated after an application changes.
+ */
+export const applicationKeys = {
+  all: ['applications'] as const,
+  lists: () => [...applicationKeys.all, 'list'] as const,
+  list: (filters?: ApplicationFilters) => [...applicationKeys.lists(), filters ?? {}] as const,
+  drafts: (limit?: number) => [...applicationKeys.lists(), { status: 'draft', limit }] as const,
+  page: (filters: ApplicationFilters | undefined, page: number, pageSize: number) =>
+    [...applicationKeys.lists(), filters ?? {}, { page, pageSize }] as const,
+  details: () => [...applicationKeys.all, 'detail'] as const,
+  detail: (id: string) => [...applicationKeys.details(), id] as const,
+};
+
+export const followUpKeys = {
+  all: ['followUps'] as const,
+  list: (filters?: FollowUpFilters) => [...followUpKeys.all, 'list', filters ?? {}] as const,
+  page: (filters: FollowUpFilters | undefined, page: number, pageSize: number) =>
+    [...followUpKeys.all, 'list', filters ?? {}, { page, pageSize }] as const,
+};
+
+// Cached application lists are either plain arrays or paginated results
+type CachedApplicationList = JobApplication[] | Page<JobApplication>;
+
+interface ListQueryOptions {
+  enabled?: boolean;
+  refetchInterval?: number | false;
+}
+
+/**
+ * Transform the applications inside a cached list, whichever shape it has
+ */
+const mapCachedList = (
+  list: CachedApplicationList | undefined,
+  transform: (apps: JobApplication[]) => JobApplication[]
+): CachedApplicationList | undefined => {
+  if (!list) return list;
+  if (Array.isArray(list)) return transform(list);
+
+  const items = transform(list.items);
+  return { ...list, items, total: list.total - (list.items.length - items.length) };
+};
+
+/**
+ * Apply a change to an application everywhere it is cached (lists and detail)
+ * @returns The previous cache entries, for rolling back
+ */
+const patchCachedApplication = (
+  queryClient: QueryClient,
+  id: string,
+  patch: (app: JobApplication) => JobApplication
+) => {
+  const previousLists = queryClient.getQueriesData<CachedApplicationList>({ queryKey: applicationKeys.lists() });
+  const previousDetail = queryClient.getQueryData<JobApplication>(applicationKeys.detail(id));
+
+  queryClient.setQueriesData<CachedApplicationList>({ queryKey: applicationKeys.lists() }, (list) =>
+    mapCachedList(list, apps => apps.map(app => app._id === id ? patch(app) : app))
+  );
+  if (previousDetail) {
+    queryClient.setQueryData<JobApplication>(applicationKeys.detail(id), patch(previousDetail));
+  }
+
+  return { previousLists, previousDetail };
+};
+
+const restoreCachedApplication = (
+  queryClient: QueryClient,
+  id: string,
+  snapshot?: ReturnType<typeof patchCachedApplication>
+) => {
+  if (!snapshot) return;
+  snapshot.previousLists.forEach(([key, data]) => queryClient.setQueryData(key, data));
+  if (snapshot.previousDetail) {
+    queryClient.setQueryData(applicationKeys.detail(id), snapshot.previousDetail);
+  }
+};
+
+/**
+ * Applications matching the given filters
+ */
+export function useApplications(filters?: ApplicationFilters, options: ListQueryOptions = {}) {
+  return useQuery({
+    queryKey: applicationKeys.list(filters),
+    queryFn: () => applicationsApi.getAll(filters),
+    ...options,
+  });
+}
+
+/**
+ * One page of applications matching the given filters. The previous page stays
+ * on screen while the next one loads.
+ */
+export function useApplicationsPage(
+  filters: ApplicationFilters | undefined,
+  page: number,
+  pageSize: number,
+  options: ListQueryOptions = {}
+) {
+  return useQuery({
+    queryKey: applicationKeys.page(filters, page, pageSize),
+    queryFn: () => applicationsApi.getPage(filters, page, pageSize),
+    placeholderData: keepPreviousData,
+    ...options,
+  });
+}
+
+/**
+ * Draft applications, most recently updated first
+ */
+export function useDrafts(limit?: number, options: ListQueryOptions = {}) {
+  return useQuery({
+    queryKey: applicationKeys.drafts(limit),
+    queryFn: () => applicationsApi.getDrafts(limit),
+    ...options,
+  });
+}
+
+/**
+ * A single application by ID
+ */
+export function useApplication(id: string | undefined) {
+  return useQuery({
+    queryKey: applicationKeys.detail(id ?? ''),
+    queryFn: () => applicationsApi.getById(id as string),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Follow-ups matching the given filters
+ */
+export function useFollowUps(filters?: FollowUpFilters, options: ListQueryOptions = {}) {
+  return useQuery({
+    queryKey: followUpKeys.list(filters),
+    queryFn: () => followUpsApi.getAll(filters),
+    ...options,
+  });
+}
+
+/**
+ * One page of follow-ups matching the given filters
+ */
+export function useFollowUpsPage(
+  filters: FollowUpFilters | undefined,
+  page: number,
+  pageSize: number,
+  options: ListQueryOptions = {}
+) {
+  return useQuery({
+    queryKey: followUpKeys.page(filters, page, pageSize),
+    queryFn: () => followUpsApi.getPage(filters, page, pageSize),
+    placeholderData: keepPreviousData,
+    ...options,
+  });
+}
+
+/**
+ * Update arbitrary application fields
+ */
+export function useUpdateApplication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<JobApplication> }) =>
+      applicationsApi.update(id, updates),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: applicationKeys.all }),
+  });
+}
+
+/**
+ * Change an application's status, optimistically updating every cached list.
+ * Illegal transitions are rejected with a validation error, and closing
+ * statuses (rejected, accepted, ...) have their follow-ups capped at the current count.
+ */
+export function useUpdateApplicationStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ application, status }: { application: JobApplication; status: ApplicationStatus }) =>
+      changeApplicationStatus(application, status),
+    onMutate: async ({ application, status }) => {
+      // Reject illegal moves before touching the cache
+      assertTransition(application.status, status);
+      await queryClient.cancelQueries({ queryKey: applicationKeys.all });
+      return patchCachedApplication(queryClient, application._id, app => ({
+        ...app,
+        status,
+        follow_up_settings: settingsAfterStatusChange(app.follow_up_settings, status) ?? app.follow_up_settings,
+      }));
+    },
+    onError: (_error, { application }, snapshot) => {
+      restoreCachedApplication(queryClient, application._id, snapshot);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: applicationKeys.all }),
+  });
+}
+
+/**
+ * Save follow-up settings, optimistically updating cached applications
+ */
+export function useUpdateFollowUpSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, settings }: { id: string; settings: FollowUpSettings }) =>
+      applicationsApi.updateFollowUpSettings(id, settings),
+    onMutate: async ({ id, settings }) => {
+      await queryClient.cancelQueries({ queryKey: applicationKeys.all });
+      return patchCachedApplication(queryClient, id, app => ({ ...app, follow_up_settings: settings }));
+    },
+    onError: (_error, { id }, snapshot) => {
+      restoreCachedApplication(queryClient, id, snapshot);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: applicationKeys.all }),
+  });
+}
+
+/**
+ * Send a draft (or scheduled) application. Holds a lock shared by every tab
+ * while sending, so "Send now" and the scheduled-send dispatcher in another
+ * tab can't both send it. Its recipient is saved as a contact once sent.
+ */
+export function useConvertDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, emailSettings }: {
+      id: string;
+      emailSettings: Parameters<typeof applicationsApi.convertDraft>[1];
+    }) => {
+      const lock = getSendLockName(id);
+      if (!acquireLock(lock, SEND_LOCK_TTL_MS)) {
+        throw new ApiRequestError({
+          code: 'validation',
+          message: "This application is already being sent",
+          status: 0,
+          fieldErrors: {}
+        });
+      }
+      try {
+        return await applicationsApi.convertDraft(id, emailSettings);
+      } finally {
+        releaseLock(lock);
+      }
+    },
+    onSuccess: (application) => saveRecipient(application),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: applicationKeys.all }),
+  });
+}
+
+/**
+ * Schedule a draft to be sent later, or move an existing schedule
+ */
+export function useScheduleApplication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ application, scheduledAt }: { application: JobApplication; scheduledAt: Date }) =>
+      applicationsApi.schedule(application._id, scheduledAt.toISOString(), application),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: applicationKeys.all }),
+  });
+}
+
+/**
+ * Cancel a scheduled send, turning the application back into a draft
+ */
+export function useCancelScheduledSend() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (application: JobApplication) => applicationsApi.cancelSchedule(application._id, application),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: applicationKeys.all }),
+  });
+}
+
+/**
+ * Delete an application, removing it from cached lists immediately
+ */
+export function useDeleteApplication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => applicationsApi.delete(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: applicationKeys.lists() });
+      const previousLists = queryClient.getQueriesData<CachedApplicationList>({ queryKey: applicationKeys.lists() });
+      queryClient.setQueriesData<CachedApplicationList>({ queryKey: applicationKeys.lists() }, (list) =>
+        mapCachedList(list, apps => apps.filter(app => app._id !== id))
+      );
+      return { previousLists };
+    },
+    onError: (_error, _id, snapshot) => {
+      snapshot?.previousLists.forEach(([key, data]) => queryClient.setQueryData(key, data));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: applicationKeys.all }),
+  });
+}
+
+/**
+ * Create (and send) a follow-up, then record it on the original application
+ */
+export function useCreateFollowUp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ application, followUp }: { application: JobApplication; followUp: FollowUpRequest }) =>
+      sendFollowUp(application, followUp),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: followUpKeys.all });
+      queryClient.invalidateQueries({ queryKey: applicationKeys.all });
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ApplicationFilters } from '@/lib/api';
+
+export type SortOrder = 'asc' | 'desc';
+
+export const SORTABLE_APPLICATION_FIELDS = ['sent_at', 'company', 'position', 'recipient_email', 'status'] as const;
+export type ApplicationSortField = typeof SORTABLE_APPLICATION_FIELDS[number];
+
+/**
+ * Search, filter, sort and paging state for the applications table
+ */
+export interface ApplicationTableState {
+  search: string;
+  statuses: string[]; // Empty means every status
+  dateFrom?: string; // yyyy-MM-dd
+  dateTo?: string; // yyyy-MM-dd
+  sortField: ApplicationSortField;
+  sortOrder: SortOrder;
+  page: number; // 1-based
+}
+
+// The dashboard shows sent applications, newest first, unless the URL says otherwise
+export const DEFAULT_APPLICATION_STATUSES = ['sent'];
+const DEFAULT_SORT_FIELD: ApplicationSortField = 'sent_at';
+const DEFAULT_SORT_ORDER: SortOrder = 'desc';
+
+// Written to the URL when every status is deselected, so it differs from "no param"
+const ALL_STATUSES = 'all';
+
+const isSortField = (value: string | null): value is ApplicationSortField =>
+  SORTABLE_APPLICATION_FIELDS.some(field => field === value);
+
+const parseState = (params: URLSearchParams): ApplicationTableState => {
+  const status = params.get('status');
+  const sort = params.get('sort');
+  const page = Number(params.get('page'));
+
+  return {
+    search: params.get('q') ?? '',
+    statuses: status === null
+      ? DEFAULT_APPLICATION_STATUSES
+      : status === ALL_STATUSES ? [] : status.split(',').filter(Boolean),
+    dateFrom: params.get('from') ?? undefined,
+    dateTo: params.get('to') ?? undefined,
+    sortField: isSortField(sort) ? sort : DEFAULT_SORT_FIELD,
+    sortOrder: params.get('order') === 'asc' ? 'asc' : params.get('order') === 'desc' ? 'desc' : DEFAULT_SORT_ORDER,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+};
+
+/**
+ * Serialize the state, leaving defaults out so shared links stay short
+ */
+const toSearchParams = (state: ApplicationTableState): URLSearchParams => {
+  const params = new URLSearchParams();
+  const isDefaultStatus = state.statuses.length === DEFAULT_APPLICATION_STATUSES.length &&
+    state.statuses.every(status => DEFAULT_APPLICATION_STATUSES.includes(status));
+
+  if (state.search) params.set('q', state.search);
+  if (!isDefaultStatus) params.set('status', state.statuses.length ? state.statuses.join(',') : ALL_STATUSES);
+  if (state.dateFrom) params.set('from', state.dateFrom);
+  if (state.dateTo) params.set('to', state.dateTo);
+  if (state.sortField !== DEFAULT_SORT_FIELD) params.set('sort', state.sortField);
+  if (state.sortOrder !== DEFAULT_SORT_ORDER) params.set('order', state.sortOrder);
+  if (state.page > 1) params.set('page', String(state.page));
+
+  return params;
+};
+
+/**
+ * Convert table state into API filters
+ */
+export const toApplicationFilters = (state: ApplicationTableState): ApplicationFilters => ({
+  search: state.search.trim() || undefined,
+  status: state.statuses.length ? state.statuses.join(',') : undefined,
+  date_from: state.dateFrom,
+  date_to: state.dateTo,
+  sort_field: state.sortField,
+  sort_order: state.sortOrder === 'asc' ? 1 : -1,
+});
+
+/**
+ * Applications table state kept in the URL query string, so a filtered view
+ * can be bookmarked and shared. Any change other than paging returns to page 1.
+ */
+export function useApplicationTableParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const state = useMemo(() => parseState(searchParams), [searchParams]);
+  const filters = useMemo(() => toApplicationFilters(state), [state]);
+
+  const update = useCallback((changes: Partial<ApplicationTableState>) => {
+    setSearchParams(current => {
+      const next = { ...parseState(current), page: 1, ...changes };
+      return toSearchParams(next);
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Clicking the active column flips the order; a new column starts descending
+  const toggleSort = useCallback((field: ApplicationSortField) => {
+    update({
+      sortField: field,
+      sortOrder: state.sortField === field && state.sortOrder === 'desc' ? 'asc' : 'desc',
+    });
+  }, [state.sortField, state.sortOrder, update]);
+
+  const reset = useCallback(() => {
+    setSearchParams(new URLSearchParams(), { replace: true });
+  }, [setSearchParams]);
+
+  const isFiltered = Boolean(state.search || state.dateFrom || state.dateTo) ||
+    searchParams.has('status');
+
+  return { state, filters, update, toggleSort, reset, isFiltered };
+}
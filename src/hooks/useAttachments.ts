@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Attachment, AttachmentKind } from '@/lib/api';
+import * as attachmentService from '@/services/attachmentService';
+import { computeChecksum, getNextVersion } from '@/lib/attachments';
+
+export const attachmentKeys = {
+  all: ['attachments'] as const,
+  list: () => [...attachmentKeys.all, 'list'] as const,
+  file: (id: string) => [...attachmentKeys.all, 'file', id] as const,
+};
+
+/**
+ * Every uploaded attachment, newest first
+ */
+export function useAttachments() {
+  return useQuery({
+    queryKey: attachmentKeys.list(),
+    queryFn: attachmentService.getAllAttachments,
+    select: (attachments: Attachment[]) =>
+      [...attachments].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+  });
+}
+
+/**
+ * An attachment's file, downloaded only while enabled (e.g. while a preview is open)
+ */
+export function useAttachmentFile(id: string | undefined) {
+  return useQuery({
+    queryKey: attachmentKeys.file(id ?? ''),
+    queryFn: () => attachmentService.getAttachmentFile(id ?? ''),
+    enabled: !!id,
+    staleTime: Infinity,
+  });
+}
+
+export interface UploadedAttachment {
+  attachment: Attachment;
+  isNew: boolean; // False when an earlier upload of the same file was reused
+}
+
+/**
+ * Upload a file as the next version of its kind and label. Set reuseDuplicate
+ * to get back the existing attachment when the same file was uploaded before.
+ */
+export function useUploadAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ file, kind, label, reuseDuplicate }: {
+      file: File;
+      kind: AttachmentKind;
+      label: string;
+      reuseDuplicate?: boolean;
+    }): Promise<UploadedAttachment> => {
+      const existing = await queryClient.ensureQueryData({
+        queryKey: attachmentKeys.list(),
+        queryFn: attachmentService.getAllAttachments,
+      });
+      const checksum = await computeChecksum(file);
+      const duplicate = existing.find(attachment => attachment.checksum === checksum);
+      if (duplicate && reuseDuplicate) return { attachment: duplicate, isNew: false };
+      if (duplicate) {
+        throw new Error(`This file is already uploaded as ${duplicate.label} v${duplicate.version}`);
+      }
+      const attachment = await attachmentService.uploadAttachment(file, {
+        kind,
+        label: label.trim(),
+        version: getNextVersion(existing, kind, label),
+        checksum,
+      });
+      return { attachment, isNew: true };
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: attachmentKeys.list() }),
+  });
+}
+
+export function useDeleteAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => attachmentService.deleteAttachment(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: attachmentKeys.list() }),
+  });
+}
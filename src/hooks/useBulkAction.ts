@@ -0,0 +1,73 @@
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { JobApplication } from '@/lib/api';
+import { applicationKeys, followUpKeys } from '@/hooks/useApplicationQueries';
+import { getErrorMessage } from '@/services/apiErrors';
+
+export interface BulkFailure {
+  id: string;
+  label: string;
+  message: string;
+}
+
+export interface BulkProgress {
+  action: string;
+  total: number;
+  done: number;
+  running: boolean;
+  failures: BulkFailure[];
+}
+
+const rowLabel = (application: JobApplication) =>
+  [application.company, application.position].filter(Boolean).join(' - ') || application.recipient_email;
+
+/**
+ * Run one task per application, one at a time, tracking progress and which
+ * rows failed. Lists are refetched once when the run finishes.
+ */
+export function useBulkAction() {
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+
+  const run = useCallback(async (
+    action: string,
+    applications: JobApplication[],
+    task: (application: JobApplication) => Promise<void>
+  ): Promise<BulkProgress> => {
+    let current: BulkProgress = { action, total: applications.length, done: 0, running: true, failures: [] };
+    setProgress(current);
+
+    // Sequential on purpose: the backend sends email over SMTP for follow-ups
+    for (const application of applications) {
+      try {
+        await task(application);
+      } catch (error) {
+        console.error(`Bulk ${action} failed for application ${application._id}:`, error);
+        current = {
+          ...current,
+          failures: [...current.failures, {
+            id: application._id,
+            label: rowLabel(application),
+            message: getErrorMessage(error, `Failed to ${action.toLowerCase()}`),
+          }],
+        };
+      }
+      current = { ...current, done: current.done + 1 };
+      setProgress(current);
+    }
+
+    current = { ...current, running: false };
+    setProgress(current);
+
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: applicationKeys.all }),
+      queryClient.invalidateQueries({ queryKey: followUpKeys.all }),
+    ]);
+
+    return current;
+  }, [queryClient]);
+
+  const dismiss = useCallback(() => setProgress(null), []);
+
+  return { progress, run, dismiss };
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { DocumentFormat } from '@/lib/documentExport';
+import { TemplateValues, getTemplatePlaceholders } from '@/lib/templateEngine';
+import { TemplateChoice } from '@/lib/templateLibrary';
+import { CoverLetter, createCoverLetterFile, getCoverLetterLabel, renderCoverLetter } from '@/lib/coverLetters';
+import { EmailTemplateType } from '@/store/emailSettingsStore';
+import { useTemplateChoices } from './useEmailTemplates';
+import { UploadedAttachment, useDeleteAttachment, useUploadAttachment } from './useAttachments';
+
+export interface CoverLetterState {
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  choices: TemplateChoice[];
+  choice: TemplateChoice | undefined;
+  selectTemplate: (id: string) => void;
+  format: DocumentFormat;
+  setFormat: (format: DocumentFormat) => void;
+  text: string;
+  setText: (text: string) => void;
+  isEdited: boolean;
+  resetText: () => void;
+  leftOver: string[];
+  letter: CoverLetter | null; // Set while a cover letter is to be attached
+  upload: (company: string, author?: string) => Promise<UploadedAttachment>;
+  discard: (upload: UploadedAttachment) => Promise<void>; // Undo an upload for a save that failed
+  isUploading: boolean;
+}
+
+/**
+ * A cover letter generated from a template for the application being
+ * written. The letter follows the form until its text is edited by hand.
+ * A default cover letter template in the library turns it on automatically.
+ */
+export function useCoverLetter(values: TemplateValues): CoverLetterState {
+  const { choices, defaultChoice } = useTemplateChoices(EmailTemplateType.COVER_LETTER);
+  const uploadAttachment = useUploadAttachment();
+  const deleteAttachment = useDeleteAttachment();
+  const [toggled, setEnabled] = useState<boolean | null>(null);
+  const [choiceId, setChoiceId] = useState('');
+  const [format, setFormat] = useState<DocumentFormat>('pdf');
+  const [editedText, setText] = useState<string | null>(null);
+
+  const enabled = toggled ?? choices.some(choice => choice.isDefault);
+  const choice = choices.find(option => option.id === choiceId) ?? defaultChoice;
+  const rendered = choice ? renderCoverLetter(choice, values) : null;
+  const text = editedText ?? rendered?.text ?? '';
+  const letter = enabled && rendered ? { title: rendered.title, text, format } : null;
+
+  const upload = async (company: string, author?: string) => {
+    if (!letter) throw new Error('No cover letter to attach');
+    // Sending the same letter again reuses the earlier upload
+    return uploadAttachment.mutateAsync({
+      file: createCoverLetterFile(letter, author),
+      kind: 'cover_letter',
+      label: getCoverLetterLabel(company),
+      reuseDuplicate: true,
+    });
+  };
+
+  // An earlier upload that was reused may be attached to other applications, so it stays
+  const discard = async ({ attachment, isNew }: UploadedAttachment) => {
+    if (isNew) await deleteAttachment.mutateAsync(attachment._id);
+  };
+
+  return {
+    enabled,
+    setEnabled,
+    choices,
+    choice,
+    selectTemplate: (id: string) => {
+      setChoiceId(id);
+      setText(null);
+    },
+    format,
+    setFormat,
+    text,
+    setText,
+    isEdited: editedText !== null,
+    resetText: () => setText(null),
+    leftOver: editedText !== null ? getTemplatePlaceholders(editedText) : rendered?.leftOver ?? [],
+    letter,
+    upload,
+    discard,
+    isUploading: uploadAttachment.isPending,
+  };
+}
@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import * as templateService from '@/services/emailTemplateService';
+import { EmailTemplateType, useEmailSettingsStore } from '@/store/emailSettingsStore';
+import { TemplateChoice, getDefaultChoice, getTemplateChoices } from '@/lib/templateLibrary';
+
+export const emailTemplateKeys = {
+  all: ['emailTemplates'] as const,
+  byType: (type: EmailTemplateType) => [...emailTemplateKeys.all, type] as const,
+  list: () => [...emailTemplateKeys.all, 'list'] as const,
+};
+
+/**
+ * Every template in the library
+ */
+export function useEmailTemplateLibrary() {
+  return useQuery({
+    queryKey: emailTemplateKeys.list(),
+    queryFn: templateService.getAllTemplates,
+  });
+}
+
+/**
+ * Templates of a type from the library (plus the Settings fallback) and the
+ * one to preselect. Falls back to the Settings template alone while the
+ * library is loading or unavailable.
+ */
+export function useTemplateChoices(type: EmailTemplateType): {
+  choices: TemplateChoice[];
+  defaultChoice: TemplateChoice | undefined;
+  isLoading: boolean;
+} {
+  const { settings: emailSettings } = useEmailSettingsStore();
+  const { data: library, isLoading } = useQuery({
+    queryKey: emailTemplateKeys.byType(type),
+    queryFn: () => templateService.getTemplatesByType(type),
+  });
+
+  // Stable between renders so callers can depend on the default choice
+  const choices = useMemo(() => getTemplateChoices(library, type, emailSettings), [library, type, emailSettings]);
+  return { choices, defaultChoice: getDefaultChoice(choices), isLoading };
+}
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { JobApplication } from '@/lib/api';
+import { fromLocalAutoFollowUp } from '@/lib/followUpPolicy';
+import { withNextFollowUpDate } from '@/lib/followUpSchedule';
+import { Application, useApplicationStore } from '@/store/applicationStore';
+import { useUpdateFollowUpSettings } from '@/hooks/useApplicationQueries';
+
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toLowerCase();
+
+/**
+ * The server application a locally stored one was saved as: by its recorded
+ * id, otherwise by recipient, company and position
+ */
+export const findServerApplication = (
+  local: Application,
+  serverApplications: JobApplication[]
+): JobApplication | undefined => {
+  if (local.serverId) {
+    return serverApplications.find(app => app._id === local.serverId);
+  }
+
+  return serverApplications.find(app =>
+    normalize(app.recipient_email) === normalize(local.recipient) &&
+    normalize(app.company) === normalize(local.company) &&
+    normalize(app.position) === normalize(local.position)
+  );
+};
+
+/**
+ * Move auto follow-up settings kept in the local application store onto the
+ * matching server applications, once per mount. Local entries without a
+ * server match are left alone until one shows up.
+ */
+export function useLocalFollowUpMigration(serverApplications: JobApplication[] | undefined) {
+  const { applications, updateApplication } = useApplicationStore();
+  const { mutateAsync: updateFollowUpSettings } = useUpdateFollowUpSettings();
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (!serverApplications || started.current) return;
+
+    const pending = applications
+      .map(local => ({ local, server: findServerApplication(local, serverApplications) }))
+      .filter((entry): entry is { local: Application; server: JobApplication } =>
+        !!entry.local.autoFollowUp && !!entry.server
+      );
+    if (pending.length === 0) return;
+
+    started.current = true;
+
+    const migrate = async () => {
+      let moved = 0;
+
+      for (const { local, server } of pending) {
+        const { autoFollowUp } = local;
+        if (!autoFollowUp) continue;
+
+        // A disabled local policy holds nothing worth keeping; don't pause the server's
+        if (autoFollowUp.enabled) {
+          try {
+            const settings = withNextFollowUpDate(
+              fromLocalAutoFollowUp(autoFollowUp, server.follow_up_settings),
+              server.sent_at
+            );
+            await updateFollowUpSettings({ id: server._id, settings });
+            moved += 1;
+          } catch (error) {
+            console.error(`Failed to migrate follow-up settings for ${local.company}:`, error);
+            continue; // Try again next time
+          }
+        }
+
+        updateApplication(local.id, { serverId: server._id, autoFollowUp: undefined });
+      }
+
+      if (moved > 0) {
+        toast.success(`Moved follow-up settings for ${moved} application${moved === 1 ? '' : 's'} to your account`);
+      }
+    };
+
+    migrate();
+  }, [serverApplications, applications, updateApplication, updateFollowUpSettings]);
+}
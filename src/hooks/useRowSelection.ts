@@ -0,0 +1,37 @@
+import { useCallback, useMemo, useState } from 'react';
+
+/**
+ * Checkbox selection over the rows currently shown in a table.
+ * Selected ids that are no longer shown are ignored.
+ */
+export function useRowSelection<T extends { _id: string }>(rows: T[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+
+  const selected = useMemo(() => rows.filter(row => selectedIds.has(row._id)), [rows, selectedIds]);
+  const allSelected = rows.length > 0 && selected.length === rows.length;
+
+  const isSelected = useCallback((id: string) => selectedIds.has(id), [selectedIds]);
+
+  const toggle = useCallback((id: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleAll = useCallback(() => {
+    setSelectedIds(allSelected ? new Set() : new Set(rows.map(row => row._id)));
+  }, [allSelected, rows]);
+
+  const clear = useCallback(() => setSelectedIds(new Set()), []);
+
+  // Header checkbox state: all, none or some
+  const headerState: boolean | 'indeterminate' = allSelected ? true : selected.length > 0 ? 'indeterminate' : false;
+
+  return { selected, isSelected, toggle, toggleAll, clear, headerState };
+}
@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { useApplications, useConvertDraft } from '@/hooks/useApplicationQueries';
+import { useSendingApplicationIds } from '@/hooks/useSendLocks';
+import { SCHEDULED_FILTERS, getDueScheduledSends, toSenderSettings } from '@/lib/scheduledSends';
+import { holdLock, releaseLock } from '@/lib/tabLocks';
+import { getErrorMessage, isApiError } from '@/services/apiErrors';
+import { useEmailSettingsStore } from '@/store/emailSettingsStore';
+
+// How often to look for scheduled applications that have come due
+const CHECK_INTERVAL = 60 * 1000;
+
+// Only the tab holding this sends scheduled applications. It's renewed on every
+// check, so another tab takes over soon after the sending tab is closed.
+const DISPATCHER_LOCK = 'scheduled-send-dispatcher';
+const DISPATCHER_LOCK_TTL_MS = 2 * CHECK_INTERVAL;
+
+/**
+ * Send scheduled applications once their time comes, through the same path
+ * as sending a draft. Runs in one tab while the app is open; anything that
+ * came due while it was closed goes out on the next check.
+ */
+export function useScheduledSendDispatcher(enabled: boolean) {
+  const { settings: emailSettings } = useEmailSettingsStore();
+  const { data: scheduled } = useApplications(SCHEDULED_FILTERS, { enabled, refetchInterval: CHECK_INTERVAL });
+  const { mutateAsync: convertDraft } = useConvertDraft();
+  const sendingIds = useSendingApplicationIds();
+  const [now, setNow] = useState(() => new Date());
+  // Sends already started, so a refetch mid-send doesn't send twice. Sent
+  // applications stay in here in case a stale list still shows them scheduled.
+  const sending = useRef(new Set<string>());
+  // Only one batch of sends runs at a time
+  const isDispatching = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(new Date()), CHECK_INTERVAL);
+    return () => {
+      clearInterval(timer);
+      releaseLock(DISPATCHER_LOCK);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !scheduled || isDispatching.current) return;
+    if (!holdLock(DISPATCHER_LOCK, DISPATCHER_LOCK_TTL_MS)) return;
+
+    // Skips sends under way in any tab, e.g. from "Send now"
+    const due = getDueScheduledSends(scheduled, now)
+      .filter(app => !sending.current.has(app._id) && !sendingIds.has(app._id));
+    if (due.length === 0) return;
+
+    if (!emailSettings.senderEmail || !emailSettings.senderPassword) {
+      toast.error("Scheduled applications are due but your email settings are missing", { id: "scheduled-send-settings" });
+      return;
+    }
+
+    // Claim the whole batch up front, so a run triggered by the first send's
+    // refetch can't pick up the ones still waiting their turn
+    due.forEach(app => sending.current.add(app._id));
+    isDispatching.current = true;
+
+    const sendDue = async () => {
+      for (const app of due) {
+        console.log(`Sending scheduled application ${app._id} (due ${app.scheduled_at})`);
+
+        try {
+          await convertDraft({ id: app._id, emailSettings: toSenderSettings(emailSettings) });
+          toast.success(`Scheduled application to ${app.company || app.recipient_email} sent`);
+        } catch (error) {
+          console.error("Error sending scheduled application:", error);
+          // A failed send leaves it in drafts to fix and reschedule
+          toast.error(
+            `Scheduled application to ${app.company || app.recipient_email} was not sent: ${getErrorMessage(error, "unknown error")}`
+          );
+          // Back in drafts it can be rescheduled, but a send that may have gone out isn't retried
+          if (!isApiError(error, 'send_unknown')) {
+            sending.current.delete(app._id);
+          }
+        }
+      }
+    };
+
+    sendDue().finally(() => {
+      isDispatching.current = false;
+    });
+  }, [enabled, scheduled, now, emailSettings, convertDraft, sendingIds]);
+}
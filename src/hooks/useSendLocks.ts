@@ -0,0 +1,29 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { SEND_TIMEOUT_MS } from '@/services/apiClient';
+import { getHeldLocks, getLocksSnapshot, subscribeToLocks } from '@/lib/tabLocks';
+
+const SEND_LOCK_PREFIX = 'send:';
+
+// Outlasts the slowest send, so the lock is only left to expire when a tab closed mid-send
+export const SEND_LOCK_TTL_MS = SEND_TIMEOUT_MS + 60 * 1000;
+
+/**
+ * Lock held while an application is being sent from any tab
+ */
+export const getSendLockName = (applicationId: string): string => `${SEND_LOCK_PREFIX}${applicationId}`;
+
+/**
+ * Applications being sent right now by any tab of this browser
+ */
+export function useSendingApplicationIds(): ReadonlySet<string> {
+  const snapshot = useSyncExternalStore(subscribeToLocks, getLocksSnapshot);
+
+  return useMemo(
+    () => new Set(
+      getHeldLocks(snapshot)
+        .filter(name => name.startsWith(SEND_LOCK_PREFIX))
+        .map(name => name.slice(SEND_LOCK_PREFIX.length))
+    ),
+    [snapshot]
+  );
+}
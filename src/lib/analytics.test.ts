@@ -0,0 +1,127 @@
+import { JobApplication } from '@/lib/api';
+import { ApplicationStatus } from '@/lib/applicationStatus';
+import { getFunnel, getMedianResponseDays, getTwoProportionPValue } from '@/lib/analytics';
+import { makeApplication } from '@/test/fixtures';
+
+const SENT_AT = '2026-03-02T09:00:00Z';
+
+// An application sent on SENT_AT that then moved through the given statuses, a day apart unless dated
+const sentThrough = (...changes: (ApplicationStatus | [ApplicationStatus, string])[]): JobApplication => {
+  const history = changes.map((change, index) => {
+    const [to, changedAt] = Array.isArray(change)
+      ? change
+      : [change, new Date(Date.parse(SENT_AT) + (index + 1) * 86_400_000).toISOString()];
+    return { to, changed_at: changedAt };
+  });
+  return makeApplication({
+    sent_at: SENT_AT,
+    status: history.length > 0 ? history[history.length - 1].to : 'sent',
+    status_history: [
+      { from: 'processing', to: 'sent', changed_at: SENT_AT },
+      ...history.map((entry, index) => ({ ...entry, from: index > 0 ? history[index - 1].to : 'sent' })),
+    ],
+  });
+};
+
+const funnelCounts = (applications: JobApplication[]) =>
+  Object.fromEntries(getFunnel(applications).map(({ stage, count }) => [stage, count]));
+
+describe('getFunnel', () => {
+  it('counts each stage an application reached, even after moving on', () => {
+    const applications = [
+      sentThrough(),
+      sentThrough('responded'),
+      sentThrough('responded', 'interview', 'rejected'),
+      sentThrough('interview', 'offer', 'accepted'),
+    ];
+
+    expect(getFunnel(applications)).toEqual([
+      { stage: 'Sent', count: 4, rate: 1 },
+      { stage: 'Responded', count: 3, rate: 0.75 },
+      { stage: 'Interview', count: 2, rate: 0.5 },
+      { stage: 'Offer', count: 1, rate: 0.25 },
+    ]);
+  });
+
+  it('counts a reply recorded without history from the current status', () => {
+    expect(funnelCounts([makeApplication({ status: 'interview', status_history: undefined })])).toEqual({
+      Sent: 1, Responded: 1, Interview: 1, Offer: 0,
+    });
+  });
+
+  it('has no replies when nobody answered', () => {
+    expect(getFunnel([sentThrough(), sentThrough()]).map(({ count, rate }) => [count, rate])).toEqual([
+      [2, 1], [0, 0], [0, 0], [0, 0],
+    ]);
+  });
+
+  it('handles a single application', () => {
+    expect(funnelCounts([sentThrough('rejected')])).toEqual({ Sent: 1, Responded: 1, Interview: 0, Offer: 0 });
+  });
+
+  it('is all zeros, not NaN, without applications', () => {
+    expect(getFunnel([]).map(({ count, rate }) => [count, rate])).toEqual([[0, 0], [0, 0], [0, 0], [0, 0]]);
+  });
+});
+
+describe('getMedianResponseDays', () => {
+  it('is null when nobody replied', () => {
+    expect(getMedianResponseDays([])).toBeNull();
+    expect(getMedianResponseDays([sentThrough(), sentThrough()])).toBeNull();
+  });
+
+  it('is null when no reply date was recorded', () => {
+    expect(getMedianResponseDays([makeApplication({ status: 'responded', sent_at: SENT_AT })])).toBeNull();
+  });
+
+  it('is the response time of a single application', () => {
+    expect(getMedianResponseDays([sentThrough(['responded', '2026-03-04T21:00:00Z'])])).toBe(2.5);
+  });
+
+  it('takes the middle value, or the mean of the two middle ones', () => {
+    const fast = sentThrough(['responded', '2026-03-03T09:00:00Z']);
+    const medium = sentThrough(['rejected', '2026-03-05T09:00:00Z']);
+    const slow = sentThrough(['interview', '2026-03-12T09:00:00Z']);
+
+    expect(getMedianResponseDays([slow, fast, medium])).toBe(3);
+    expect(getMedianResponseDays([slow, fast])).toBe(5.5);
+  });
+
+  it('counts from the first reply, skipping unsent applications and replies dated before sending', () => {
+    const applications = [
+      sentThrough(['responded', '2026-03-06T09:00:00Z'], ['interview', '2026-03-20T09:00:00Z']),
+      sentThrough(),
+      makeApplication({ ...sentThrough(['responded', '2026-03-03T09:00:00Z']), sent_at: null }),
+      sentThrough(['responded', '2026-03-01T09:00:00Z']),
+    ];
+
+    expect(getMedianResponseDays(applications)).toBe(4);
+  });
+});
+
+
+const stats = (responses: number, sent: number) => ({ sent, responses, rate: responses / sent });
+
+describe('getTwoProportionPValue', () => {
+  it('is 1 for identical reply rates', () => {
+    expect(getTwoProportionPValue(stats(10, 50), stats(10, 50))).toBeCloseTo(1, 5);
+  });
+
+  it('is 1 when nobody or everybody replied', () => {
+    expect(getTwoProportionPValue(stats(0, 20), stats(0, 30))).toBe(1);
+    expect(getTwoProportionPValue(stats(20, 20), stats(30, 30))).toBe(1);
+  });
+
+  it('matches a two-sided z-test', () => {
+    // 30/100 against 15/100: z = 2.54, p = 0.0111
+    expect(getTwoProportionPValue(stats(30, 100), stats(15, 100))).toBeCloseTo(0.0111, 3);
+  });
+
+  it('does not depend on the order of the variants', () => {
+    expect(getTwoProportionPValue(stats(8, 40), stats(14, 40))).toBeCloseTo(getTwoProportionPValue(stats(14, 40), stats(8, 40)), 10);
+  });
+
+  it('shrinks as the samples grow', () => {
+    expect(getTwoProportionPValue(stats(60, 200), stats(40, 200))).toBeLessThan(getTwoProportionPValue(stats(6, 20), stats(4, 20)));
+  });
+});
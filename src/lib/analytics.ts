@@ -0,0 +1,349 @@
+import { addWeeks, format, isAfter, isBefore, parseISO, startOfWeek, endOfDay } from 'date-fns';
+import { FollowUp, JobApplication } from '@/lib/api';
+import { ApplicationStatus } from '@/lib/applicationStatus';
+
+// Statuses that mean the employer replied in some way
+const RESPONSE_STATUSES: readonly ApplicationStatus[] = ['responded', 'interview', 'offer', 'accepted', 'rejected'];
+const INTERVIEW_STATUSES: readonly ApplicationStatus[] = ['interview', 'offer', 'accepted'];
+const OFFER_STATUSES: readonly ApplicationStatus[] = ['offer', 'accepted'];
+
+export interface DateRangeFilter {
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+}
+
+export interface WeeklyCount {
+  week: string; // yyyy-MM-dd of the week's Monday
+  label: string;
+  sent: number;
+}
+
+export interface FunnelStage {
+  stage: string;
+  count: number;
+  rate: number; // Share of sent applications, 0-1
+}
+
+export interface FollowUpEffectiveness {
+  followUpNumber: number; // 0 = replied before any follow-up
+  reached: number; // Applications that got this many follow-ups (or replied before needing them)
+  responses: number; // Replies that arrived after exactly this many follow-ups
+  rate: number; // responses / reached, 0-1
+}
+
+export interface BreakdownRow {
+  name: string;
+  sent: number;
+  responses: number;
+  rate: number; // 0-1
+}
+
+const toDate = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+/**
+ * Every status an application has been in, from its history plus the current one
+ */
+const visitedStatuses = (application: JobApplication): Set<ApplicationStatus> => new Set([
+  application.status,
+  ...(application.status_history ?? []).map(change => change.to),
+]);
+
+const hasReached = (application: JobApplication, statuses: readonly ApplicationStatus[]) => {
+  const visited = visitedStatuses(application);
+  return statuses.some(status => visited.has(status));
+};
+
+export const hasResponse = (application: JobApplication) => hasReached(application, RESPONSE_STATUSES);
+
+/**
+ * When the employer first replied, if the status history recorded it
+ */
+export const getResponseDate = (application: JobApplication): Date | null => {
+  const change = (application.status_history ?? []).find(entry => RESPONSE_STATUSES.includes(entry.to));
+  return toDate(change?.changed_at);
+};
+
+/**
+ * Applications that went out, optionally limited to a sent-date range
+ */
+export const filterSentApplications = (applications: JobApplication[], range: DateRangeFilter): JobApplication[] => {
+  const from = range.from ? parseISO(range.from) : null;
+  const to = range.to ? endOfDay(parseISO(range.to)) : null;
+
+  return applications.filter(application => {
+    const sentAt = toDate(application.sent_at);
+    if (!sentAt) return false;
+    if (from && isBefore(sentAt, from)) return false;
+    if (to && isAfter(sentAt, to)) return false;
+    return true;
+  });
+};
+
+/**
+ * Applications sent per week, with empty weeks filled in
+ */
+export const getWeeklySent = (applications: JobApplication[]): WeeklyCount[] => {
+  const counts = new Map<string, number>();
+  const weeks = applications
+    .map(application => toDate(application.sent_at))
+    .filter((date): date is Date => date !== null)
+    .map(date => startOfWeek(date, { weekStartsOn: 1 }));
+
+  if (weeks.length === 0) return [];
+
+  weeks.forEach(week => {
+    const key = format(week, 'yyyy-MM-dd');
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const first = new Date(Math.min(...weeks.map(week => week.getTime())));
+  const last = new Date(Math.max(...weeks.map(week => week.getTime())));
+  const result: WeeklyCount[] = [];
+
+  for (let week = first; !isAfter(week, last); week = addWeeks(week, 1)) {
+    const key = format(week, 'yyyy-MM-dd');
+    result.push({ week: key, label: format(week, 'MMM d'), sent: counts.get(key) ?? 0 });
+  }
+
+  return result;
+};
+
+/**
+ * How many sent applications got a response, an interview and an offer
+ */
+export const getFunnel = (applications: JobApplication[]): FunnelStage[] => {
+  const sent = applications.length;
+  const stages: [string, number][] = [
+    ['Sent', sent],
+    ['Responded', applications.filter(hasResponse).length],
+    ['Interview', applications.filter(app => hasReached(app, INTERVIEW_STATUSES)).length],
+    ['Offer', applications.filter(app => hasReached(app, OFFER_STATUSES)).length],
+  ];
+
+  return stages.map(([stage, count]) => ({ stage, count, rate: ratio(count, sent) }));
+};
+
+/**
+ * Median days from sending to the first reply, over applications whose reply
+ * date is known. Null when there are none.
+ */
+export const getMedianResponseDays = (applications: JobApplication[]): number | null => {
+  const durations = applications
+    .map(application => {
+      const sentAt = toDate(application.sent_at);
+      const respondedAt = getResponseDate(application);
+      return sentAt && respondedAt ? (respondedAt.getTime() - sentAt.getTime()) / 86_400_000 : null;
+    })
+    .filter((days): days is number => days !== null && days >= 0)
+    .sort((a, b) => a - b);
+
+  if (durations.length === 0) return null;
+
+  const middle = Math.floor(durations.length / 2);
+  return durations.length % 2 === 0
+    ? (durations[middle - 1] + durations[middle]) / 2
+    : durations[middle];
+};
+
+/**
+ * For each follow-up number, how many replies came in after exactly that many
+ * follow-ups. Follow-ups sent after the reply don't count, and replies without
+ * a date are left out.
+ */
+export const getFollowUpEffectiveness = (
+  applications: JobApplication[],
+  followUps: FollowUp[]
+): FollowUpEffectiveness[] => {
+  const followUpsByApplication = new Map<string, FollowUp[]>();
+  followUps.forEach(followUp => {
+    const list = followUpsByApplication.get(followUp.original_application_id) ?? [];
+    list.push(followUp);
+    followUpsByApplication.set(followUp.original_application_id, list);
+  });
+
+  const reached = new Map<number, number>();
+  const responses = new Map<number, number>();
+  const increment = (map: Map<number, number>, key: number) => map.set(key, (map.get(key) ?? 0) + 1);
+
+  applications.forEach(application => {
+    const respondedAt = getResponseDate(application);
+    // A reply with no date can't be placed before or after any follow-up
+    if (hasResponse(application) && !respondedAt) return;
+
+    // Only follow-ups that were actually sent count, not the ones configured
+    const sentFollowUps = followUpsByApplication.get(application._id) ?? [];
+    const beforeResponse = respondedAt
+      ? sentFollowUps.filter(followUp => {
+          const sentAt = toDate(followUp.sent_at);
+          return sentAt !== null && isBefore(sentAt, respondedAt);
+        }).length
+      : sentFollowUps.length;
+
+    for (let n = 0; n <= beforeResponse; n++) {
+      increment(reached, n);
+    }
+    if (hasResponse(application)) {
+      increment(responses, beforeResponse);
+    }
+  });
+
+  return Array.from(reached.keys())
+    .sort((a, b) => a - b)
+    .map(followUpNumber => {
+      const reachedCount = reached.get(followUpNumber) ?? 0;
+      const responseCount = responses.get(followUpNumber) ?? 0;
+      return {
+        followUpNumber,
+        reached: reachedCount,
+        responses: responseCount,
+        rate: ratio(responseCount, reachedCount),
+      };
+    });
+};
+
+/**
+ * Sent and response counts grouped by a field, largest groups first
+ */
+export const getBreakdown = (
+  applications: JobApplication[],
+  field: 'company' | 'position',
+  limit = 10
+): BreakdownRow[] => {
+  const groups = new Map<string, { sent: number; responses: number }>();
+
+  applications.forEach(application => {
+    const name = application[field]?.trim() || 'Unknown';
+    const group = groups.get(name) ?? { sent: 0, responses: 0 };
+    group.sent += 1;
+    if (hasResponse(application)) group.responses += 1;
+    groups.set(name, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([name, { sent, responses }]) => ({ name, sent, responses, rate: ratio(responses, sent) }))
+    .sort((a, b) => b.sent - a.sent || b.rate - a.rate)
+    .slice(0, limit);
+};
+
+export interface ResponseStats {
+  sent: number;
+  responses: number;
+  rate: number; // 0-1
+}
+
+/**
+ * Sent applications and replies per wording of a library template, keyed by
+ * content hash, to see which wording got responses. Version numbers differ
+ * between browsers, so applications recorded without a hash are left out.
+ */
+export const getTemplateVersionStats = (
+  applications: JobApplication[],
+  templateId: string
+): Map<string, ResponseStats> => {
+  const stats = new Map<string, ResponseStats>();
+
+  applications
+    .filter(application => application.sent_at && application.template_id === templateId && application.template_content_hash)
+    .forEach(application => {
+      const hash = application.template_content_hash ?? '';
+      const entry = stats.get(hash) ?? { sent: 0, responses: 0, rate: 0 };
+      entry.sent += 1;
+      if (hasResponse(application)) entry.responses += 1;
+      entry.rate = ratio(entry.responses, entry.sent);
+      stats.set(hash, entry);
+    });
+
+  return stats;
+};
+
+// Fewer sends than this per variant can't tell variants apart
+export const MIN_TEST_SAMPLE = 10;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+export type TestSignificance = 'significant' | 'not_significant' | 'too_few';
+
+export interface VariantResult extends ResponseStats {
+  variantId: string;
+  name: string;
+}
+
+export interface TemplateTestResult {
+  templateId: string;
+  variants: VariantResult[]; // In name order
+  leader: VariantResult | null; // Best reply rate, when there is more than one variant
+  pValue: number | null; // Leader against the runner-up
+  significance: TestSignificance;
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz-Stegun approximation)
+ */
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+};
+
+/**
+ * Two-sided p-value of a two-proportion z-test: how likely a gap in reply
+ * rates this large is if both variants actually perform the same
+ */
+export const getTwoProportionPValue = (a: ResponseStats, b: ResponseStats): number => {
+  const pooled = ratio(a.responses + b.responses, a.sent + b.sent);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / a.sent + 1 / b.sent));
+  if (!standardError) return 1;
+
+  const z = (a.rate - b.rate) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+};
+
+/**
+ * Reply rates per A/B variant for every template that was tested, with a
+ * significance check of the best variant against the runner-up
+ */
+export const getTemplateTests = (applications: JobApplication[]): TemplateTestResult[] => {
+  const templates = new Map<string, Map<string, VariantResult>>();
+
+  applications
+    .filter(application => application.sent_at && application.template_id && application.template_variant)
+    .forEach(application => {
+      const templateId = application.template_id ?? '';
+      const variantId = application.template_variant ?? '';
+      const variants = templates.get(templateId) ?? new Map<string, VariantResult>();
+      const entry = variants.get(variantId) ?? {
+        variantId,
+        name: application.template_variant_name || variantId,
+        sent: 0,
+        responses: 0,
+        rate: 0,
+      };
+      entry.sent += 1;
+      if (hasResponse(application)) entry.responses += 1;
+      entry.rate = ratio(entry.responses, entry.sent);
+      variants.set(variantId, entry);
+      templates.set(templateId, variants);
+    });
+
+  return Array.from(templates.entries()).map(([templateId, variantMap]) => {
+    const variants = Array.from(variantMap.values()).sort((a, b) => a.name.localeCompare(b.name));
+    const [leader, runnerUp] = [...variants].sort((a, b) => b.rate - a.rate || b.sent - a.sent);
+
+    if (!runnerUp) {
+      return { templateId, variants, leader: null, pValue: null, significance: 'too_few' };
+    }
+
+    const pValue = getTwoProportionPValue(leader, runnerUp);
+    const significance: TestSignificance = leader.sent < MIN_TEST_SAMPLE || runnerUp.sent < MIN_TEST_SAMPLE
+      ? 'too_few'
+      : pValue < SIGNIFICANCE_LEVEL ? 'significant' : 'not_significant';
+
+    return { templateId, variants, leader, pValue, significance };
+  });
+};
@@ -1,108 +1,144 @@
-import { toast } from "sonner";
-import { useAuthStore } from '@/store/authStore';
+import apiClient, { ApiResponse, SEND_TIMEOUT_MS } from '@/services/apiClient';
+import { ApiRequestError, isApiError } from '@/services/apiErrors';
+import { ApplicationStatus, assertTransition } from '@/lib/applicationStatus';
+import { isFollowUpDue } from '@/lib/followUpSchedule';
 
 /**
- * Base API URL for backend services
- * Use environment variable if available, otherwise default to localhost
+ * Return the response data, or throw the typed error when the request failed
  */
-const API_URL = import.meta.env.VITE_API_URL || 'http://127.0.0.1:8081/api';
+const unwrapResponse = <T>({ data, apiError }: ApiResponse<T>): T => {
+  if (apiError) {
+    console.error(`API Error (${apiError.code}):`, apiError.message);
+    throw new ApiRequestError(apiError);
+  }
+  return data;
+};
+
+/**
+ * A send that timed out may still go out on the server, so it's reported as
+ * unknown rather than failed, to keep it from being sent again
+ */
+const unwrapSendResponse = <T>(response: ApiResponse<T>): T => {
+  try {
+    return unwrapResponse(response);
+  } catch (error) {
+    if (isApiError(error, 'timeout')) {
+      throw new ApiRequestError({ code: 'send_unknown', message: error.message, status: 0 });
+    }
+    throw error;
+  }
+};
 
-// Helper to get the current auth token
-const getAuthToken = (): string | null => {
-  const authState = useAuthStore.getState();
-  return authState.tokens?.accessToken || null;
+/**
+ * Throw when a successful HTTP response still reports { success: false }
+ */
+const ensureSuccess = (data: { success?: boolean; message?: string } | null, message: string): void => {
+  if (data && data.success === false) {
+    throw new ApiRequestError({ code: 'server', message: data.message || message, status: 200 });
+  }
 };
 
-// Handle path differences between different backends
-const formatApiPath = (path: string) => {
-  // If path doesn't start with /, add it
-  const formattedPath = path.startsWith('/') ? path : `/${path}`;
+/**
+ * Normalize an application ID that may arrive as a MongoDB ObjectId
+ * object ({ $oid }) or as a stringified one
+ */
+const resolveId = (id: unknown): string => {
+  if (id && typeof id === 'object') {
+    const objectId = id as { _id?: unknown; $oid?: unknown };
+    const resolved = objectId._id || objectId.$oid;
+    if (!resolved) {
+      console.error("Invalid application ID object:", id);
+      throw new ApiRequestError({ code: 'validation', message: "Invalid application ID", status: 0, fieldErrors: {} });
+    }
+    return resolveId(resolved);
+  }
   
-  // If the API_URL already includes '/api', don't add it again
-  if (API_URL.endsWith('/api')) {
-    return `${API_URL}${formattedPath}`;
+  if (typeof id === 'string' && id.includes('{') && id.includes('}')) {
+    try {
+      const parsedId = JSON.parse(id);
+      if (parsedId && parsedId.$oid) {
+        return parsedId.$oid;
+      }
+    } catch (e) {
+      console.error(`Error parsing ID as JSON:`, e);
+      // Keep using the original ID
+    }
   }
   
-  // For deployed environments like Render where the URL doesn't include '/api'
-  return `${API_URL}/api${formattedPath}`;
+  return String(id);
 };
 
-console.log('Using API URL:', API_URL);
+/**
+ * Unwrap a list response. The API returns arrays directly, but older
+ * deployments wrapped them as { data: [...] }
+ */
+const unwrapList = <T>(data: unknown): T[] => {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  
+  const wrapped = data as { data?: unknown } | null;
+  if (wrapped && Array.isArray(wrapped.data)) {
+    console.warn("API returned deprecated wrapped format");
+    return wrapped.data;
+  }
+  
+  console.error("Received invalid data format from API:", data);
+  return [];
+};
 
 /**
- * Handle API errors
+ * Unwrap a paginated list response ({ items | data, total }). Backends without
+ * pagination support return a plain array; the total is then only known once
+ * the last page comes back short.
  */
-const handleApiError = <T>(error: any, message: string = "An error occurred", defaultReturn: T): T => {
-  console.error(`API Error: ${message}`, error);
+const unwrapPage = <T>(data: unknown, page: number, pageSize: number): Page<T> => {
+  const skip = (page - 1) * pageSize;
+  const paged = data as { items?: unknown; data?: unknown; total?: unknown } | null;
   
-  // Log more error details if available
-  if (error.response) {
-    console.error('Response data:', error.response.data);
-    console.error('Response status:', error.response.status);
-  } else if (error instanceof Error) {
-    console.error('Error message:', error.message);
-    console.error('Error stack:', error.stack);
+  if (paged && !Array.isArray(paged) && typeof paged.total === 'number') {
+    const items = Array.isArray(paged.items) ? paged.items : unwrapList<T>(paged.data);
+    return { items, total: paged.total, page, pageSize };
   }
   
-  toast.error(message);
-  return defaultReturn;
+  const items = unwrapList<T>(data);
+  // A full page means there is at least one more record
+  const total = skip + items.length + (items.length === pageSize ? 1 : 0);
+  return { items, total, page, pageSize };
 };
 
 // Function to check API health
 export const checkApiHealth = async (): Promise<boolean> => {
   try {
     console.log("Checking API health...");
-    console.log("API URL:", API_URL);
-    
-    // Add a timeout to the fetch request
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-    
-    const token = getAuthToken();
-    const headers: HeadersInit = {
-      'Accept': 'application/json',
-    };
-    
-    // Add auth token if available
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
     
-    const response = await fetch(formatApiPath('/health'), {
-      signal: controller.signal,
-      method: 'GET',
-      headers
+    const { data, error, status } = await apiClient.get('/health', {
+      requiresAuth: false,
+      timeout: 5000
     });
     
-    clearTimeout(timeoutId);
-    
-    console.log("API health check response:", response);
-    
-    if (!response.ok) {
-      console.error(`API health check failed: ${response.status} ${response.statusText}`);
+    if (error) {
+      console.error(`API health check failed: ${status} ${error}`);
+      if (status === 0) {
+        console.error("Could not reach the backend - check if the server is running and the API URL is correct");
+      }
       return false;
     }
     
-    const data = await response.json();
     console.log("API health check data:", data);
     
     // More robust status checking - check both the status field and db_status
-    if (data.status === 'ok' || data.status === 'success') {
+    if (data?.status === 'ok' || data?.status === 'success') {
       return true;
-    } else if (data.db_status === 'connected') {
+    } else if (data?.db_status === 'connected') {
       // The API itself is OK if we got a valid response with connected DB
       return true;
     } else {
-      console.warn("API health check returned unexpected status:", data.status, "DB status:", data.db_status);
+      console.warn("API health check returned unexpected status:", data?.status, "DB status:", data?.db_status);
       return false;
     }
   } catch (error) {
     console.error("API health check error:", error);
-    if (error instanceof DOMException && error.name === 'AbortError') {
-      console.error("API health check timed out - the backend server might be down or not responding");
-    } else if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      console.error("Network error connecting to backend - check if the backend server is running and the API URL is correct");
-    }
     return false;
   }
 };
@@ -114,24 +150,40 @@ export interface JobApplication {
   _id: string;
   id?: string; // Some places use id instead of _id
   recipient_email: string;
+  recipient_name?: string | null; // Who the email is addressed to, for {recipientName}
   company: string;
   position: string;
   subject: string;
-  content: string;
-  status: string;
-  attachment_path?: string | null;
+  content: string; // Plain text, also the alternative part of HTML emails
+  content_html?: string | null; // Sanitized HTML body, when written in the rich-text editor
+  status: ApplicationStatus;
+  status_history?: StatusChange[];
+  attachment_path?: string | null; // First attachment, for backends that only send one
+  attachments?: AttachmentRef[]; // Exactly which files went out with the email
   follow_up_settings: FollowUpSettings;
   full_name: string | null;
   portfolio_url: string | null;
   linkedin_url: string | null;
   created_at: string;
   sent_at: string | null;
+  scheduled_at?: string | null; // When a scheduled application is due to be sent
+  template_id?: string | null; // Library template the email was written from
+  template_version?: number | null; // Version of that template at the time, as numbered in the browser that sent it
+  template_content_hash?: string | null; // Fingerprint of that version's wording, the same on every device
+  template_variant?: string | null; // A/B variant of the template that was picked
+  template_variant_name?: string | null; // Its name when picked, in case it is renamed or removed
   updated_at: string;
   sender_email?: string;
   sender_name?: string;
   sender_password?: string;
 }
 
+export interface StatusChange {
+  from: ApplicationStatus | null;
+  to: ApplicationStatus;
+  changed_at: string;
+}
+
 export interface FollowUp {
   _id: string;
   original_application_id: string;
@@ -142,225 +194,258 @@ export interface FollowUp {
   content: string;
   status: string;
   follow_up_number: number;
+  attachments?: AttachmentRef[];
   sent_at: string;
 }
 
+export type AttachmentKind = 'resume' | 'cover_letter' | 'other';
+
+export interface Attachment {
+  _id: string;
+  kind: AttachmentKind;
+  label: string; // e.g. "Frontend resume"; uploads with the same kind and label are versions
+  version: number;
+  file_name: string;
+  mime_type: string;
+  size: number; // Bytes
+  checksum: string; // SHA-256 of the file contents
+  path: string; // Where the backend keeps the file, for attaching it to emails
+  created_at: string;
+}
+
+// A file as it was sent, identifiable even after the upload is deleted
+export type AttachmentRef = Pick<Attachment, 'kind' | 'label' | 'version' | 'file_name' | 'checksum' | 'path'> & {
+  attachment_id: string;
+};
+
+export type FollowUpIntervalUnit = 'minutes' | 'hours' | 'days';
+
 export interface FollowUpSettings {
   type: 'one_time' | 'periodic_limited' | 'until_response';
-  interval_days: number;
+  interval_days: number; // Whole days, for backends that only understand days
+  interval_minutes?: number; // Exact interval; takes precedence over interval_days
+  interval_unit?: FollowUpIntervalUnit; // Unit the interval was entered in
   max_count: number;
   follow_up_count: number;
   last_follow_up_date: string | null;
   next_follow_up_date: string | null;
+  paused?: boolean; // Stop sending follow-ups without losing the schedule
+  business_days_only?: boolean; // Skip Saturdays and Sundays
+  send_window?: { start: string; end: string } | null; // HH:mm, in the recipient's time zone
+  recipient_timezone?: string | null; // IANA zone; the browser's zone when unset
+  blackout_dates?: string[]; // yyyy-MM-dd days (e.g. holidays) with no follow-ups
+  sequence_id?: string | null; // Follow-up sequence whose steps set each delay and email
+}
+
+export interface ApplicationFilters {
+  recipient?: string;
+  company?: string;
+  position?: string;
+  status?: string; // Comma-separated to match any of several statuses
+  search?: string; // Free text across company, position, recipient and subject
+  date_from?: string; // yyyy-MM-dd, inclusive, compared against sent_at
+  date_to?: string; // yyyy-MM-dd, inclusive
+  limit?: number;
+  sort_field?: string;
+  sort_order?: number;
+}
+
+export interface FollowUpFilters {
+  recipient?: string;
+  applicationId?: string;
+  company?: string;
+  position?: string;
+  status?: string;
+  limit?: number;
+  sort_field?: string;
+  sort_order?: number;
+}
+
+type StatusSnapshot = Pick<JobApplication, 'status' | 'status_history'>;
+
+/**
+ * Status history with a change from the current status appended
+ */
+const appendStatusChange = (current: StatusSnapshot, to: ApplicationStatus): StatusChange[] => [
+  ...(current.status_history ?? []),
+  { from: current.status, to, changed_at: new Date().toISOString() }
+];
+
+// Query parameters shared by the list and page endpoints
+const applicationParams = (filters?: ApplicationFilters) => ({
+  recipient_email: filters?.recipient,
+  company: filters?.company,
+  position: filters?.position,
+  status: filters?.status,
+  search: filters?.search,
+  date_from: filters?.date_from,
+  date_to: filters?.date_to,
+  limit: filters?.limit,
+  // Default to sorting by updated_at descending if not specified
+  sort_field: filters?.sort_field || 'updated_at',
+  sort_order: filters?.sort_field ? filters.sort_order : -1
+});
+
+const followUpParams = (filters?: FollowUpFilters) => ({
+  recipient: filters?.recipient,
+  application_id: filters?.applicationId,
+  company: filters?.company,
+  position: filters?.position,
+  status: filters?.status,
+  limit: filters?.limit,
+  // Default to sorting by updated_at descending if not specified
+  sort_field: filters?.sort_field || 'updated_at',
+  sort_order: filters?.sort_field ? filters.sort_order : -1
+});
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number; // 1-based
+  pageSize: number;
 }
 
 /**
  * Job Applications API
+ *
+ * Every method resolves with data on success and throws an ApiRequestError
+ * (see services/apiErrors) on failure; callers decide how to surface it.
  */
 export const applicationsApi = {
   // Get all job applications with optional filters
-  getAll: async (filters?: {
-    recipient?: string;
-    company?: string;
-    position?: string;
-    status?: string;
-    limit?: number;
-    sort_field?: string;
-    sort_order?: number;
-  }): Promise<JobApplication[]> => {
-    try {
-      const params = new URLSearchParams();
-      
-      if (filters) {
-        if (filters.recipient) params.append('recipient_email', filters.recipient);
-        if (filters.company) params.append('company', filters.company);
-        if (filters.position) params.append('position', filters.position);
-        if (filters.status) params.append('status', filters.status);
-        if (filters.limit) params.append('limit', filters.limit.toString());
-        if (filters.sort_field) params.append('sort_field', filters.sort_field);
-        if (filters.sort_order !== undefined) params.append('sort_order', filters.sort_order.toString());
-      }
-      
-      // Default to sorting by updated_at descending if not specified
-      if (!filters?.sort_field) {
-        params.append('sort_field', 'updated_at');
-        params.append('sort_order', '-1');
-      }
-
-      // Send debugging info to console
-      const url = `${formatApiPath('/applications')}?${params.toString()}`;
-      console.log(`Fetching applications from: ${url}`);
-      
-      // Add timeout to prevent hanging requests
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-      
-      // Get authentication token
-      const token = getAuthToken();
-      const headers: HeadersInit = {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      };
-      
-      // Add auth token if available
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-      
-      const response = await fetch(url, {
-        signal: controller.signal,
-        method: 'GET',
-        headers
-      });
-      
-      clearTimeout(timeoutId);
-      
-      console.log("Applications response:", response);
-      console.log("Response headers:", Object.fromEntries([...response.headers]));
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch applications: ${response.status} ${response.statusText}`);
-      }
-      
-      // Parse the response JSON
-      const data = await response.json();
-      console.log("Applications data:", data);
-      
-      // API now returns the array directly
-      if (Array.isArray(data)) {
-        return data;
-      } else {
-        // For backward compatibility, handle both formats
-        if (data && Array.isArray(data.data)) {
-          console.warn("API returned deprecated wrapped format");
-          return data.data;
-        }
-        console.error("Received invalid data format from API:", data);
-        return [];
-      }
-    } catch (error) {
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        console.error("Request timed out when fetching applications");
-        return handleApiError(error, "Request timed out when fetching applications. The server might be unresponsive.", []);
+  getAll: async (filters?: ApplicationFilters): Promise<JobApplication[]> => {
+    const response = await apiClient.get('/applications', {
+      params: applicationParams(filters)
+    });
+    
+    return unwrapList<JobApplication>(unwrapResponse(response));
+  },
+  
+  // Get one page of job applications along with the total matching count
+  getPage: async (filters: ApplicationFilters | undefined, page: number, pageSize: number): Promise<Page<JobApplication>> => {
+    const response = await apiClient.get('/applications', {
+      params: {
+        ...applicationParams(filters),
+        skip: (page - 1) * pageSize,
+        limit: pageSize
       }
-      return handleApiError(error, "Failed to load job applications", []);
-    }
+    });
+    
+    return unwrapPage<JobApplication>(unwrapResponse(response), page, pageSize);
   },
   
   // Create a new job application
-  create: async (application: Partial<JobApplication>): Promise<any> => {
-    try {
-      console.log("Creating application with data:", application);
-      console.log(`Sending to: ${formatApiPath('/applications')}`);
-      
-      // Ensure all required fields are properly formatted for the backend API
-      const applicationData = {
-        recipient_email: application.recipient_email,
-        subject: application.subject,
-        content: application.content,
-        company: application.company,
-        position: application.position,
-        status: application.status || 'processing', // Default to processing
-        attachment_path: application.attachment_path || null,
-        follow_up_settings: application.follow_up_settings || {
-          type: 'one_time',
-          interval_days: 7,
-          max_count: 1,
-          follow_up_count: 0,
-          last_follow_up_date: null,
-          next_follow_up_date: null
-        },
-        full_name: application.full_name || null,
-        portfolio_url: application.portfolio_url || null,
-        linkedin_url: application.linkedin_url || null,
-        sender_email: application.sender_email,
-        sender_name: application.sender_name,
-        sender_password: application.sender_password
-      };
-      
-      const response = await fetch(formatApiPath('/applications'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': getAuthToken() ? `Bearer ${getAuthToken()}` : undefined
-        },
-        body: JSON.stringify(applicationData),
-      });
-      
-      console.log("Create application response:", response);
-      
-      // Simply check HTTP status code - throw error for non-success status
-      if (response.status < 200 || response.status >= 300) {
-        throw new Error(`Server returned error: ${response.status} ${response.statusText}`);
-      }
-      
-      // For successful responses, just return the parsed JSON result
-      try {
-        const result = await response.json();
-        console.log("Create application result:", result);
-        return result;
-      } catch (parseError) {
-        console.error("Error parsing response:", parseError);
-        // Return empty object if can't parse JSON
-        return {};
-      }
-    } catch (error) {
-      // Format the error message to be more user-friendly
-      let errorMessage = "Failed to create job application";
-      if (error instanceof Error) {
-        // If it contains email sending error, make it clear
-        if (error.message.includes('email')) {
-          errorMessage = `Email sending failed: ${error.message}`;
-        } else {
-          errorMessage = error.message;
-        }
-        console.error(`API Error: ${errorMessage}`, error);
-      }
-      
-      // Throw the error up to be caught by caller
-      throw new Error(errorMessage);
+  create: async (application: Partial<JobApplication>): Promise<{ id?: string; success?: boolean; email_sent?: boolean }> => {
+    console.log("Creating application with data:", application);
+    
+    // Ensure all required fields are properly formatted for the backend API
+    const applicationData = {
+      recipient_email: application.recipient_email,
+      recipient_name: application.recipient_name || null,
+      subject: application.subject,
+      content: application.content,
+      content_html: application.content_html || null,
+      company: application.company,
+      position: application.position,
+      status: application.status || 'processing', // Default to processing
+      attachment_path: application.attachment_path || null,
+      attachments: application.attachments ?? [],
+      scheduled_at: application.scheduled_at || null,
+      template_id: application.template_id || null,
+      template_version: application.template_version || null,
+      template_content_hash: application.template_content_hash || null,
+      template_variant: application.template_variant || null,
+      template_variant_name: application.template_variant_name || null,
+      follow_up_settings: application.follow_up_settings || {
+        type: 'one_time',
+        interval_days: 7,
+        max_count: 1,
+        follow_up_count: 0,
+        last_follow_up_date: null,
+        next_follow_up_date: null
+      },
+      full_name: application.full_name || null,
+      portfolio_url: application.portfolio_url || null,
+      linkedin_url: application.linkedin_url || null,
+      sender_email: application.sender_email,
+      sender_name: application.sender_name,
+      sender_password: application.sender_password
+    };
+    
+    // Processing applications are emailed by the backend before it responds
+    const isSend = applicationData.status === 'processing';
+    const response = await apiClient.post('/applications', applicationData, isSend ? { timeout: SEND_TIMEOUT_MS } : {});
+    const data = isSend ? unwrapSendResponse(response) : unwrapResponse(response);
+    
+    // The application can be stored while the email itself failed to send
+    if (data?.email_sent === false && data?.email_error) {
+      throw new ApiRequestError({ code: 'smtp', message: data.email_error, status: response.status });
     }
+    
+    console.log("Create application result:", data);
+    return data || {};
   },
   
-  // Update a job application
-  update: async (applicationId: string, updates: Partial<JobApplication>): Promise<boolean> => {
-    try {
-      // Handle potential MongoDB ObjectId structure
-      let finalId = applicationId;
-      
-      // If applicationId is an object
-      if (typeof applicationId === 'object') {
-        const objectId = applicationId as any;
-        if (objectId._id) {
-          finalId = objectId._id;
-        } else if (objectId.$oid) {
-          finalId = objectId.$oid;
-        } else {
-          console.error("Invalid application ID object:", objectId);
-          throw new Error("Invalid application ID");
-        }
-      }
-      
-      console.log(`Updating application ${finalId} with data:`, updates);
-      
-      const response = await fetch(formatApiPath(`/applications/${finalId}`), {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': getAuthToken() ? `Bearer ${getAuthToken()}` : undefined
-        },
-        body: JSON.stringify(updates),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to update application: ${response.status} ${response.statusText}`);
+  // Update a job application. A status change is checked against the
+  // transition table using the server's current status.
+  update: async (applicationId: string, updates: Partial<JobApplication>): Promise<void> => {
+    const finalId = resolveId(applicationId);
+    console.log(`Updating application ${finalId} with data:`, updates);
+    
+    if (updates.status !== undefined) {
+      const current = await applicationsApi.getById(finalId);
+      assertTransition(current.status, updates.status);
+      if (updates.status !== current.status) {
+        updates = { ...updates, status_history: appendStatusChange(current, updates.status) };
       }
-      
-      const result = await response.json();
-      return result.success;
-    } catch (error) {
-      return handleApiError(error, "Failed to update job application", false);
     }
+    
+    const data = unwrapResponse(await apiClient.put(`/applications/${finalId}`, updates));
+    ensureSuccess(data, "Failed to update job application");
+  },
+  
+  // Change an application's status and record it in the status history. Pass the
+  // known current state to skip re-fetching the application before validating the move.
+  // Resolves with the new state, for chaining further changes.
+  updateStatus: async (applicationId: string, status: ApplicationStatus, current?: StatusSnapshot): Promise<StatusSnapshot> => {
+    const finalId = resolveId(applicationId);
+    const previous = current ?? await applicationsApi.getById(finalId);
+    assertTransition(previous.status, status);
+    
+    const next: StatusSnapshot = { status, status_history: appendStatusChange(previous, status) };
+    const data = unwrapResponse(await apiClient.put(`/applications/${finalId}`, next));
+    ensureSuccess(data, "Failed to update application status");
+    return next;
+  },
+  
+  // Schedule a draft to be sent at a later time, or move an already scheduled send
+  schedule: async (applicationId: string, scheduledAt: string, current?: StatusSnapshot): Promise<void> => {
+    const finalId = resolveId(applicationId);
+    const previous = current ?? await applicationsApi.getById(finalId);
+    assertTransition(previous.status, 'scheduled');
+    
+    const data = unwrapResponse(await apiClient.put(`/applications/${finalId}`, {
+      status: 'scheduled',
+      status_history: previous.status === 'scheduled'
+        ? previous.status_history
+        : appendStatusChange(previous, 'scheduled'),
+      scheduled_at: scheduledAt
+    }));
+    ensureSuccess(data, "Failed to schedule application");
+  },
+  
+  // Cancel a scheduled send, turning the application back into a draft
+  cancelSchedule: async (applicationId: string, current?: StatusSnapshot): Promise<void> => {
+    const finalId = resolveId(applicationId);
+    const previous = current ?? await applicationsApi.getById(finalId);
+    assertTransition(previous.status, 'draft');
+    
+    const data = unwrapResponse(await apiClient.put(`/applications/${finalId}`, {
+      status: 'draft',
+      status_history: appendStatusChange(previous, 'draft'),
+      scheduled_at: null
+    }));
+    ensureSuccess(data, "Failed to cancel scheduled send");
   },
   
   // Get drafts (convenience method that uses getAll with status=draft)
@@ -374,252 +459,134 @@ export const applicationsApi = {
   },
   
   // Create a draft application
-  createDraft: async (application: Partial<JobApplication>): Promise<{ id: string; success: boolean } | null> => {
+  createDraft: async (application: Partial<JobApplication>): Promise<{ id?: string; success?: boolean }> => {
     return applicationsApi.create({
       ...application,
       status: 'draft'
     });
   },
   
-  // Convert a draft to a sent application
-  convertDraft: async (draftId: string | any, emailSettings?: {
+  // Convert a draft to a sent application. Scheduled applications are sent
+  // the same way once they are due. Resolves with the application that was sent.
+  convertDraft: async (draftId: string | { _id?: string; $oid?: string }, emailSettings?: {
     sender_email: string;
     sender_name: string;
     sender_password: string;
     smtp_server?: string;
     smtp_port?: number;
-  }): Promise<boolean> => {
+  }): Promise<JobApplication> => {
+    const finalId = resolveId(draftId);
+    
+    if (!emailSettings?.sender_email || !emailSettings?.sender_password) {
+      throw new ApiRequestError({
+        code: 'validation',
+        message: "Please configure your email settings first to send the application",
+        status: 0,
+        fieldErrors: {}
+      });
+    }
+    
+    // Get the application data; only drafts, scheduled sends (or failed sends) can be sent
+    const application = await applicationsApi.getById(finalId);
+    
+    // Another send is already under way; moving it to processing again would succeed
+    if (application.status === 'processing') {
+      throw new ApiRequestError({
+        code: 'validation',
+        message: "This application is already being sent",
+        status: 0,
+        fieldErrors: {}
+      });
+    }
+    
+    // First, update the status to 'processing'
+    const processing = await applicationsApi.updateStatus(finalId, 'processing', application);
+    
     try {
-      // Extract the string ID if passed an object
-      let finalId = draftId;
-      if (typeof draftId === 'object') {
-        finalId = draftId._id || draftId.$oid || draftId;
-        console.log("Extracted ID from object:", finalId);
-      }
-      
-      // First, update the status to 'processing'
-      const statusUpdateSuccess = await applicationsApi.update(finalId, { status: 'processing' });
-      
-      if (!statusUpdateSuccess) {
-        throw new Error("Failed to update application status to processing");
+      // Now send the email
+      await emailApi.sendEmail({
+        recipient_email: application.recipient_email,
+        subject: application.subject,
+        email_content: application.content,
+        email_content_html: application.content_html || undefined,
+        sender_email: emailSettings.sender_email,
+        sender_name: emailSettings.sender_name,
+        sender_password: emailSettings.sender_password,
+        smtp_server: emailSettings.smtp_server || 'smtp.gmail.com',
+        smtp_port: emailSettings.smtp_port || 587,
+        attachment_path: application.attachment_path || undefined,
+        attachment_paths: application.attachments?.map(attachment => attachment.path),
+        application_id: finalId
+      });
+    } catch (error) {
+      // The email may still go out, so keep it processing instead of inviting a resend
+      if (isApiError(error, 'send_unknown')) {
+        throw error;
       }
       
-      // If email settings are provided, try to send the email
-      if (emailSettings && emailSettings.sender_email && emailSettings.sender_password) {
-        // Get the application data
-        const application = await applicationsApi.getById(finalId);
-        
-        if (!application) {
-          console.error("Could not find application to send email");
-          // Revert back to draft status since we failed
-          await applicationsApi.update(finalId, { status: 'draft' });
-          return false;
-        }
-        
-        console.log("Sending email for draft conversion:", application);
-        
-        // Now send the email
-        const emailSent = await emailApi.sendEmail({
-          recipient_email: application.recipient_email,
-          subject: application.subject,
-          email_content: application.content,
-          sender_email: emailSettings.sender_email,
-          sender_name: emailSettings.sender_name,
-          sender_password: emailSettings.sender_password,
-          smtp_server: emailSettings.smtp_server || 'smtp.gmail.com',
-          smtp_port: emailSettings.smtp_port || 587,
-          attachment_path: application.attachment_path || undefined,
-          application_id: finalId
-        });
-        
-        console.log("Email sending result:", emailSent);
-        
-        if (emailSent) {
-          // Update to 'sent' only if email was successfully sent
-          const finalStatusUpdate = await applicationsApi.update(finalId, { status: 'sent' });
-          return finalStatusUpdate;
-        } else {
-          console.warn("Email not sent, reverting application status to draft");
-          // Revert back to draft status since email sending failed
-          await applicationsApi.update(finalId, { status: 'draft' });
-          return false;
-        }
-      } else {
-        console.log("Email settings not provided, reverting to draft status");
-        // No email settings provided, revert to draft
-        await applicationsApi.update(finalId, { status: 'draft' });
-        return false;
-      }
-    } catch (error) {
       // On error, try to revert the status back to draft
+      console.warn("Draft conversion failed, reverting application status to draft");
       try {
-        if (typeof draftId === 'object') {
-          const finalId = draftId._id || draftId.$oid || draftId;
-          await applicationsApi.update(finalId, { status: 'draft' });
-        } else {
-          await applicationsApi.update(draftId, { status: 'draft' });
-        }
+        await applicationsApi.updateStatus(finalId, 'draft', processing);
       } catch (revertError) {
         console.error("Failed to revert application status:", revertError);
       }
       
-      return handleApiError(error, "Failed to convert draft", false);
+      throw error;
     }
-  },
-  
-  // Update follow-up settings for a job application
-  updateFollowUpSettings: async (applicationId: string, settings: FollowUpSettings): Promise<boolean> => {
+    
+    // The email is out, so a failure from here on must not put it back in drafts
     try {
-      if (!applicationId) {
-        console.error(`Missing application ID`);
-        return false;
-      }
-      
-      // Handle potential MongoDB ObjectId structure
-      let finalId = applicationId;
-      
-      // If applicationId looks like an object stringified
-      if (applicationId.includes('{') && applicationId.includes('}')) {
-        try {
-          const parsedId = JSON.parse(applicationId);
-          if (parsedId && parsedId.$oid) {
-            finalId = parsedId.$oid;
-          }
-        } catch (e) {
-          console.error(`Error parsing applicationId as JSON:`, e);
-          // Keep using the original ID
-        }
-      }
-      
-      console.log(`Final application ID for follow-up settings update: ${finalId}`);
-      console.log(`API URL being used: ${formatApiPath(`/applications/${finalId}`)}`);
-      
-      // Update to use the general application update endpoint
-      const response = await fetch(formatApiPath(`/applications/${finalId}`), {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': getAuthToken() ? `Bearer ${getAuthToken()}` : undefined
-        },
-        body: JSON.stringify({ follow_up_settings: settings }),
-      });
-      
-      console.log("Follow-up settings update response:", response);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Failed to update follow-up settings: ${response.status} ${response.statusText}`, errorText);
-        throw new Error(`Failed to update follow-up settings: ${response.status} ${response.statusText}`);
-      }
-      
-      const result = await response.json();
-      console.log("Follow-up settings update result:", result);
-      return true;
+      await applicationsApi.updateStatus(finalId, 'sent', processing);
     } catch (error) {
-      return handleApiError(error, "Failed to update follow-up settings", false);
+      console.error("Email sent but failed to mark the application as sent:", error);
+      throw new ApiRequestError({
+        code: 'server',
+        message: "The email was sent, but the application couldn't be marked as sent. Mark it as sent instead of sending it again.",
+        status: 0
+      });
     }
+    
+    return application;
+  },
+  
+  // Update follow-up settings for a job application
+  updateFollowUpSettings: async (applicationId: string, settings: FollowUpSettings): Promise<void> => {
+    const finalId = resolveId(applicationId);
+    
+    // Update to use the general application update endpoint
+    const data = unwrapResponse(await apiClient.put(`/applications/${finalId}`, { follow_up_settings: settings }));
+    console.log("Follow-up settings update result:", data);
   },
   
   // Get a single job application by ID
-  getById: async (applicationId: string): Promise<JobApplication | null> => {
-    try {
-      if (!applicationId) {
-        console.error(`Missing application ID`);
-        return null;
-      }
-
-      // Handle potential MongoDB ObjectId structure
-      let finalId = applicationId;
-      
-      // If applicationId looks like an object stringified
-      if (applicationId.includes('{') && applicationId.includes('}')) {
-        try {
-          const parsedId = JSON.parse(applicationId);
-          if (parsedId && parsedId.$oid) {
-            finalId = parsedId.$oid;
-          }
-        } catch (e) {
-          console.error(`Error parsing applicationId as JSON:`, e);
-          // Keep using the original ID
-        }
-      }
-      
-      console.log(`Fetching application with ID (validated): ${finalId}`);
-      console.log(`API URL being used: ${formatApiPath(`/applications/${finalId}`)}`);
-      
-      const response = await fetch(formatApiPath(`/applications/${finalId}`), {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-          'Authorization': getAuthToken() ? `Bearer ${getAuthToken()}` : undefined
-        }
-      });
-      
-      console.log("Application response:", response);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch application: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      console.log("Application data:", data);
-      
-      // API now returns the object directly
-      if (data && typeof data === 'object' && !data.success) {
-        return data;
-      } else {
-        // For backward compatibility, handle both formats
-        if (data && data.success && data.data) {
-          console.warn("API returned deprecated wrapped format");
-          return data.data;
-        }
-        console.error("Received invalid data format from API:", data);
-        return null;
-      }
-    } catch (error) {
-      return handleApiError(error, "Failed to load application", null);
+  getById: async (applicationId: string): Promise<JobApplication> => {
+    const finalId = resolveId(applicationId);
+    
+    const data = unwrapResponse(await apiClient.get(`/applications/${finalId}`));
+    
+    // API now returns the object directly
+    if (data && typeof data === 'object' && !data.success) {
+      return data;
+    }
+    
+    // For backward compatibility, handle both formats
+    if (data && data.success && data.data) {
+      console.warn("API returned deprecated wrapped format");
+      return data.data;
     }
+    
+    console.error("Received invalid data format from API:", data);
+    throw new ApiRequestError({ code: 'not_found', message: "Application not found", status: 404 });
   },
   
   // Delete a job application
-  delete: async (applicationId: string): Promise<boolean> => {
-    try {
-      // Handle potential MongoDB ObjectId structure
-      let finalId = applicationId;
-      
-      // If applicationId is an object
-      if (typeof applicationId === 'object') {
-        const objectId = applicationId as any;
-        if (objectId._id) {
-          finalId = objectId._id;
-        } else if (objectId.$oid) {
-          finalId = objectId.$oid;
-        } else {
-          console.error("Invalid application ID object:", objectId);
-          throw new Error("Invalid application ID");
-        }
-      }
-      
-      console.log(`Deleting application ${finalId}`);
-      
-      const response = await fetch(formatApiPath(`/applications/${finalId}`), {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': getAuthToken() ? `Bearer ${getAuthToken()}` : undefined
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to delete application: ${response.status} ${response.statusText}`);
-      }
-      
-      const result = await response.json();
-      return result.success;
-    } catch (error) {
-      return handleApiError(error, "Failed to delete job application", false);
-    }
+  delete: async (applicationId: string): Promise<void> => {
+    const finalId = resolveId(applicationId);
+    console.log(`Deleting application ${finalId}`);
+    
+    const data = unwrapResponse(await apiClient.delete(`/applications/${finalId}`));
+    ensureSuccess(data, "Failed to delete job application");
   }
 };
 
@@ -628,63 +595,25 @@ export const applicationsApi = {
  */
 export const followUpsApi = {
   // Get all follow-ups with optional filters
-  getAll: async (filters?: {
-    recipient?: string;
-    applicationId?: string;
-    company?: string;
-    position?: string;
-    status?: string;
-    limit?: number;
-    sort_field?: string;
-    sort_order?: number;
-  }): Promise<FollowUp[]> => {
-    try {
-      const params = new URLSearchParams();
-      
-      if (filters) {
-        if (filters.recipient) params.append('recipient', filters.recipient);
-        if (filters.applicationId) params.append('application_id', filters.applicationId);
-        if (filters.company) params.append('company', filters.company);
-        if (filters.position) params.append('position', filters.position);
-        if (filters.status) params.append('status', filters.status);
-        if (filters.limit) params.append('limit', filters.limit.toString());
-        if (filters.sort_field) params.append('sort_field', filters.sort_field);
-        if (filters.sort_order !== undefined) params.append('sort_order', filters.sort_order.toString());
-      }
-      
-      // Default to sorting by updated_at descending if not specified
-      if (!filters?.sort_field) {
-        params.append('sort_field', 'updated_at');
-        params.append('sort_order', '-1');
-      }
-      
-      const response = await fetch(`${formatApiPath('/followups')}?${params.toString()}`, {
-        headers: {
-          'Authorization': getAuthToken() ? `Bearer ${getAuthToken()}` : undefined
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch follow-ups: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      // API now returns the array directly
-      if (Array.isArray(data)) {
-        return data;
-      } else {
-        // For backward compatibility, handle both formats
-        if (data && Array.isArray(data.data)) {
-          console.warn("API returned deprecated wrapped format");
-          return data.data;
-        }
-        console.error("Received invalid data format from API:", data);
-        return [];
+  getAll: async (filters?: FollowUpFilters): Promise<FollowUp[]> => {
+    const response = await apiClient.get('/followups', {
+      params: followUpParams(filters)
+    });
+    
+    return unwrapList<FollowUp>(unwrapResponse(response));
+  },
+  
+  // Get one page of follow-ups along with the total matching count
+  getPage: async (filters: FollowUpFilters | undefined, page: number, pageSize: number): Promise<Page<FollowUp>> => {
+    const response = await apiClient.get('/followups', {
+      params: {
+        ...followUpParams(filters),
+        skip: (page - 1) * pageSize,
+        limit: pageSize
       }
-    } catch (error) {
-      return handleApiError(error, "Failed to load follow-ups", []);
-    }
+    });
+    
+    return unwrapPage<FollowUp>(unwrapResponse(response), page, pageSize);
   },
   
   // Create a new follow-up
@@ -696,66 +625,39 @@ export const followUpsApi = {
     company?: string;
     position?: string;
     status?: string;
+    follow_up_settings?: FollowUpSettings;
+    full_name?: string | null;
+    portfolio_url?: string | null;
+    linkedin_url?: string | null;
+    attachment_path?: string | null;
+    attachments?: AttachmentRef[];
     sender_email?: string;
     sender_name?: string;
     sender_password?: string;
     smtp_server?: string;
     smtp_port?: number;
-  }): Promise<{ id: string; success: boolean; email_sent: boolean } | null> => {
-    try {
-      const response = await fetch(formatApiPath('/followups'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': getAuthToken() ? `Bearer ${getAuthToken()}` : undefined
-        },
-        body: JSON.stringify(followUp),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to create follow-up: ${response.status} ${response.statusText}`);
-      }
-      
-      const result = await response.json();
-      return result;
-    } catch (error) {
-      return handleApiError(error, "Failed to create follow-up", null);
-    }
+  }): Promise<{ id: string; success: boolean; email_sent: boolean; email_error?: string }> => {
+    // Follow-ups with sender details are emailed by the backend before it responds
+    const isSend = !!followUp.sender_password;
+    const response = await apiClient.post('/followups', followUp, isSend ? { timeout: SEND_TIMEOUT_MS } : {});
+    const data = isSend ? unwrapSendResponse(response) : unwrapResponse(response);
+    ensureSuccess(data, "Failed to create follow-up");
+    return data;
   },
   
   // Update a follow-up status
-  updateStatus: async (followUpId: string, status: string): Promise<boolean> => {
-    try {
-      const response = await fetch(formatApiPath(`/followups/${followUpId}`), {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': getAuthToken() ? `Bearer ${getAuthToken()}` : undefined
-        },
-        body: JSON.stringify({ status }),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to update follow-up status: ${response.status} ${response.statusText}`);
-      }
-      
-      const result = await response.json();
-      return result.success;
-    } catch (error) {
-      return handleApiError(error, "Failed to update follow-up status", false);
-    }
+  updateStatus: async (followUpId: string, status: string): Promise<void> => {
+    const data = unwrapResponse(await apiClient.put(`/followups/${followUpId}`, { status }));
+    ensureSuccess(data, "Failed to update follow-up status");
   },
   
   // Get applications that need follow-ups by filtering applications by status
   getApplicationsNeedingFollowUp: async (): Promise<JobApplication[]> => {
-    try {
-      // Filter applications that are sent but not responded to
-      return applicationsApi.getAll({
-        status: 'sent'
-      });
-    } catch (error) {
-      return handleApiError(error, "Failed to load applications due for follow-up", []);
-    }
+    // Sent applications still waiting on a reply, narrowed to those whose follow-up is due
+    const applications = await applicationsApi.getAll({
+      status: 'sent'
+    });
+    return applications.filter(application => isFollowUpDue(application));
   }
 };
 
@@ -765,37 +667,32 @@ export const followUpsApi = {
 export interface EmailData {
   recipient_email: string;
   subject: string;
-  email_content: string;
+  email_content: string; // Plain text, sent as the alternative to the HTML part
+  email_content_html?: string; // Sanitized HTML part
   sender_email: string;
   sender_name: string;
   sender_password: string;
   smtp_server?: string;
   smtp_port?: number;
   attachment_path?: string;
+  attachment_paths?: string[]; // Every file to attach; attachment_path is the first of them
   application_id?: string;
 }
 
+
 export const emailApi = {
   // Send an email directly
-  sendEmail: async (data: EmailData): Promise<boolean> => {
-    try {
-      const response = await fetch(formatApiPath('/send-email'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': getAuthToken() ? `Bearer ${getAuthToken()}` : undefined
-        },
-        body: JSON.stringify(data),
+  sendEmail: async (data: EmailData): Promise<void> => {
+    const response = await apiClient.post('/send-email', data, { timeout: SEND_TIMEOUT_MS });
+    const result = unwrapSendResponse(response);
+    
+    // A 200 with success: false means the SMTP server rejected the message
+    if (result && result.success === false) {
+      throw new ApiRequestError({
+        code: 'smtp',
+        message: result.message || result.error || "Failed to send email",
+        status: response.status
       });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to send email: ${response.status} ${response.statusText}`);
-      }
-      
-      const result = await response.json();
-      return result.success;
-    } catch (error) {
-      return handleApiError(error, "Failed to send email", false);
     }
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,126 @@
+import { ApiRequestError } from '@/services/apiErrors';
+
+/**
+ * Application statuses, in pipeline order
+ */
+export const APPLICATION_STATUSES = [
+  'draft',
+  'scheduled',
+  'processing',
+  'failed',
+  'sent',
+  'responded',
+  'interview',
+  'offer',
+  'accepted',
+  'rejected',
+  'withdrawn',
+  'ghosted',
+] as const;
+
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+/**
+ * Allowed status changes. Sending is the only way out of draft and goes
+ * through processing, which lands on sent, or failed (back to draft for editing).
+ * A scheduled draft goes through processing at its scheduled time, or back to draft if cancelled.
+ */
+export const STATUS_TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  draft: ['scheduled', 'processing', 'withdrawn'],
+  scheduled: ['processing', 'draft', 'withdrawn'],
+  processing: ['sent', 'failed', 'draft'],
+  failed: ['processing', 'draft', 'withdrawn'],
+  sent: ['responded', 'interview', 'offer', 'rejected', 'withdrawn', 'ghosted'],
+  responded: ['interview', 'offer', 'accepted', 'rejected', 'withdrawn', 'ghosted'],
+  interview: ['offer', 'rejected', 'withdrawn', 'ghosted'],
+  offer: ['accepted', 'rejected', 'withdrawn'],
+  accepted: ['withdrawn'],
+  rejected: [],
+  withdrawn: [],
+  // A ghosted employer can still get back in touch
+  ghosted: ['responded', 'interview', 'offer', 'rejected', 'withdrawn'],
+};
+
+// Statuses that end the conversation, so no further follow-ups go out
+export const CLOSING_STATUSES: readonly ApplicationStatus[] = ['rejected', 'accepted', 'withdrawn', 'ghosted'];
+
+// Set only by the sending flow (scheduling needs a send time), never picked by hand
+export const SYSTEM_STATUSES: readonly ApplicationStatus[] = ['scheduled', 'processing', 'failed'];
+
+export const isApplicationStatus = (value: unknown): value is ApplicationStatus =>
+  APPLICATION_STATUSES.some(status => status === value);
+
+export const isClosingStatus = (status: string) => CLOSING_STATUSES.some(closing => closing === status);
+
+/**
+ * Statuses an application can move to from its current one
+ */
+export const getAllowedTransitions = (from: string): readonly ApplicationStatus[] =>
+  isApplicationStatus(from) ? STATUS_TRANSITIONS[from] : [];
+
+/**
+ * Statuses a user can pick by hand from the current one
+ */
+export const getManualTransitions = (from: string): readonly ApplicationStatus[] =>
+  getAllowedTransitions(from).filter(status => !SYSTEM_STATUSES.includes(status));
+
+/**
+ * Whether a status change is allowed. Keeping the same status is always allowed.
+ */
+export const canTransition = (from: string, to: string): boolean =>
+  from === to || getAllowedTransitions(from).some(status => status === to);
+
+/**
+ * User-facing explanation of why a status change is not allowed
+ */
+export const describeIllegalTransition = (from: string, to: string): string => {
+  if (!isApplicationStatus(to)) {
+    return `"${to}" is not a valid application status.`;
+  }
+
+  const allowed = getAllowedTransitions(from);
+  if (allowed.length === 0) {
+    return `Applications marked "${from}" can no longer change status.`;
+  }
+
+  return `An application cannot move from "${from}" to "${to}". Allowed next statuses: ${allowed.join(', ')}.`;
+};
+
+/**
+ * Throw a validation error when a status change is not allowed
+ */
+export const assertTransition = (from: string, to: string): void => {
+  if (!canTransition(from, to)) {
+    const message = describeIllegalTransition(from, to);
+    throw new ApiRequestError({ code: 'validation', message, status: 0, fieldErrors: { status: message } });
+  }
+};
+
+/**
+ * Badge colour for a status
+ */
+export const getStatusBadgeVariant = (status: string): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  switch (status?.toLowerCase()) {
+    case 'sent':
+    case 'offer':
+      return 'default';
+    case 'responded':
+    case 'interview':
+      return 'secondary';
+    case 'rejected':
+      return 'destructive';
+    case 'accepted':
+      return 'secondary';
+    case 'draft':
+    case 'withdrawn':
+    case 'ghosted':
+      return 'outline';
+    case 'scheduled':
+    case 'processing':
+      return 'secondary';
+    case 'failed':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+};
@@ -0,0 +1,109 @@
+import { Attachment, AttachmentKind, AttachmentRef, JobApplication } from '@/lib/api';
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  resume: 'Resume',
+  cover_letter: 'Cover letter',
+  other: 'Other',
+};
+
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+// Most mail servers reject messages much larger than this
+export const MAX_TOTAL_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Formats recruiters and applicant tracking systems reliably open
+const ALLOWED_TYPES: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+};
+
+export const ATTACHMENT_ACCEPT = [...Object.keys(ALLOWED_TYPES), ...Object.values(ALLOWED_TYPES)].join(',');
+
+const getExtension = (fileName: string) => fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Why a file can't be uploaded as an attachment, or null if it can
+ */
+export const getAttachmentError = (file: File): string | null => {
+  // Some browsers leave the type empty for Word files, so the extension counts too
+  const allowed = file.type in ALLOWED_TYPES || Object.values(ALLOWED_TYPES).includes(getExtension(file.name));
+  if (!allowed) return 'Only PDF and Word documents (.pdf, .doc, .docx) can be attached';
+  if (file.size === 0) return 'The file is empty';
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `Files can be at most ${formatFileSize(MAX_ATTACHMENT_SIZE)} (this one is ${formatFileSize(file.size)})`;
+  }
+  return null;
+};
+
+/**
+ * Why a set of attachments can't go out in one email, or null if it can
+ */
+export const getAttachmentsSizeError = (attachments: Pick<Attachment, 'size'>[]): string | null => {
+  const total = attachments.reduce((sum, attachment) => sum + attachment.size, 0);
+  return total > MAX_TOTAL_ATTACHMENT_SIZE
+    ? `Attachments add up to ${formatFileSize(total)}; keep them under ${formatFileSize(MAX_TOTAL_ATTACHMENT_SIZE)}`
+    : null;
+};
+
+export const isPdf = (attachment: { file_name: string; mime_type?: string }): boolean =>
+  attachment.mime_type === 'application/pdf' || getExtension(attachment.file_name) === '.pdf';
+
+/**
+ * Version number for a new upload: one past the last upload with the same kind and label
+ */
+export const getNextVersion = (attachments: Attachment[], kind: AttachmentKind, label: string): number =>
+  attachments
+    .filter(attachment => attachment.kind === kind && attachment.label.trim().toLowerCase() === label.trim().toLowerCase())
+    .reduce((latest, attachment) => Math.max(latest, attachment.version), 0) + 1;
+
+/**
+ * Whether an attachment is the newest upload of its kind and label
+ */
+export const isLatestVersion = (attachment: Attachment, attachments: Attachment[]): boolean =>
+  getNextVersion(attachments, attachment.kind, attachment.label) === attachment.version + 1;
+
+/**
+ * SHA-256 of a file, as hex
+ */
+export const computeChecksum = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const toAttachmentRef = (attachment: Attachment): AttachmentRef => ({
+  attachment_id: attachment._id,
+  kind: attachment.kind,
+  label: attachment.label,
+  version: attachment.version,
+  file_name: attachment.file_name,
+  checksum: attachment.checksum,
+  path: attachment.path,
+});
+
+/**
+ * Attachment fields for an application or follow-up that sends these files
+ */
+export const getAttachmentFields = (attachments: Attachment[]): Pick<JobApplication, 'attachments' | 'attachment_path'> => ({
+  attachments: attachments.map(toAttachmentRef),
+  attachment_path: attachments[0]?.path ?? null,
+});
+
+/**
+ * Library attachments an application was saved with, skipping any deleted since
+ */
+export const resolveAttachmentRefs = (refs: AttachmentRef[] | undefined, attachments: Attachment[]): Attachment[] =>
+  (refs ?? []).flatMap(ref => attachments.filter(attachment => attachment._id === ref.attachment_id));
+
+export const formatAttachmentRef = (attachment: Pick<AttachmentRef, 'label' | 'version' | 'file_name'>): string =>
+  `${attachment.label} v${attachment.version} (${attachment.file_name})`;
+
+/**
+ * Whether an email says something is attached, e.g. "I have attached my resume"
+ */
+export const mentionsAttachment = (text: string): boolean => /\battach(ed|ments?|ing)\b/i.test(text);
@@ -0,0 +1,141 @@
+import { FollowUp, JobApplication } from '@/lib/api';
+import { Company, CompanySize, getEmailDomain, normalizeCompanyName, useCompanyStore } from '@/store/companyStore';
+import { Contact } from '@/store/contactStore';
+
+export const COMPANY_SIZE_LABELS: Record<CompanySize, string> = {
+  '1-10': '1-10 employees',
+  '11-50': '11-50 employees',
+  '51-200': '51-200 employees',
+  '201-1000': '201-1,000 employees',
+  '1000+': '1,000+ employees',
+};
+
+// Applications that never went out don't count as having applied
+const NOT_APPLIED_STATUSES: readonly string[] = ['draft', 'failed'];
+
+// Job titles are compared loosely too, so "Sr. Engineer" and "sr engineer" match
+const normalizePosition = (position: string): string =>
+  position.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).join(' ');
+
+/**
+ * Bare domain of a website, e.g. "https://www.acme.com/careers" is "acme.com"
+ */
+export const getWebsiteDomain = (website: string): string | null => {
+  const value = website.trim();
+  if (!value) return null;
+  try {
+    return new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+export const getCompanyInitials = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(word => /[a-z0-9]/i.test(word))
+    .slice(0, 2)
+    .map(word => word.replace(/[^a-z0-9]/gi, '').charAt(0).toUpperCase())
+    .join('') || '?';
+
+/**
+ * Whether an application is for a company. Applications are linked by
+ * normalized name, which reads the same on every device.
+ */
+export const isCompanyApplication = (company: Pick<Company, 'normalizedName'>, application: Pick<JobApplication, 'company'>): boolean =>
+  normalizeCompanyName(application.company) === company.normalizedName;
+
+/**
+ * Contacts at a company, by the company saved on them or their email domain
+ */
+export const getCompanyContacts = (company: Pick<Company, 'normalizedName' | 'domain'>, contacts: Contact[]): Contact[] =>
+  contacts.filter(contact =>
+    (contact.company && normalizeCompanyName(contact.company) === company.normalizedName) ||
+    (!!company.domain && getEmailDomain(contact.email) === company.domain)
+  );
+
+export interface CompanyInteraction {
+  date: string;
+  description: string;
+}
+
+export interface CompanyRollup {
+  applications: JobApplication[]; // Newest first
+  followUps: FollowUp[];
+  contacts: Contact[];
+  statusCounts: Partial<Record<JobApplication['status'], number>>;
+  lastInteraction: CompanyInteraction | null;
+}
+
+/**
+ * Everything sent to a company, who was contacted there, and the most recent of it all
+ */
+export const getCompanyRollup = (
+  company: Company,
+  applications: JobApplication[],
+  followUps: FollowUp[],
+  contacts: Contact[]
+): CompanyRollup => {
+  const companyApplications = applications
+    .filter(app => isCompanyApplication(company, app))
+    .sort((a, b) => new Date(b.sent_at || b.created_at).getTime() - new Date(a.sent_at || a.created_at).getTime());
+  const applicationIds = new Set(companyApplications.map(app => app._id));
+  const companyFollowUps = followUps.filter(followUp => applicationIds.has(followUp.original_application_id));
+  const companyContacts = getCompanyContacts(company, contacts);
+
+  const statusCounts: CompanyRollup['statusCounts'] = {};
+  companyApplications.forEach(app => {
+    statusCounts[app.status] = (statusCounts[app.status] ?? 0) + 1;
+  });
+
+  const interactions: CompanyInteraction[] = [
+    ...companyApplications
+      .filter(app => app.sent_at)
+      .map(app => ({ date: app.sent_at as string, description: `Applied for ${app.position}` })),
+    ...companyFollowUps.map(followUp => ({ date: followUp.sent_at, description: `Followed up on ${followUp.position ?? 'an application'}` })),
+    ...companyContacts
+      .filter(contact => contact.lastContactedAt)
+      .map(contact => ({ date: contact.lastContactedAt as string, description: `In touch with ${contact.name || contact.email}` })),
+  ].filter(interaction => !isNaN(new Date(interaction.date).getTime()));
+
+  const lastInteraction = interactions.reduce<CompanyInteraction | null>(
+    (latest, interaction) => (!latest || new Date(interaction.date) > new Date(latest.date) ? interaction : latest),
+    null
+  );
+
+  return {
+    applications: companyApplications,
+    followUps: companyFollowUps,
+    contacts: companyContacts,
+    statusCounts,
+    lastInteraction,
+  };
+};
+
+/**
+ * Applications already sent or scheduled for the same role at the same company
+ */
+export const findDuplicateApplications = (
+  applications: JobApplication[],
+  company: string,
+  position: string,
+  excludeId?: string
+): JobApplication[] => {
+  const normalizedCompany = normalizeCompanyName(company);
+  const normalizedPosition = normalizePosition(position);
+  if (!normalizedCompany || !normalizedPosition) return [];
+
+  return applications.filter(app =>
+    app._id !== excludeId &&
+    !NOT_APPLIED_STATUSES.includes(app.status) &&
+    normalizeCompanyName(app.company) === normalizedCompany &&
+    normalizePosition(app.position) === normalizedPosition
+  );
+};
+
+/**
+ * Company name to save an application under: spelled the way a saved
+ * company is, when it's one already known
+ */
+export const getCompanyName = (company: string): string =>
+  useCompanyStore.getState().findCompany(company)?.name ?? company.trim();
@@ -0,0 +1,114 @@
+import { FollowUp, JobApplication } from '@/lib/api';
+import { Contact, normalizeEmail, useContactStore } from '@/store/contactStore';
+
+export interface ContactActivity {
+  id: string;
+  kind: 'application' | 'follow_up';
+  date: string;
+  applicationId: string;
+  subject: string;
+  company: string | null;
+  position: string | null;
+  status: string;
+  sent: boolean; // False for drafts and scheduled applications
+}
+
+export const getContactDisplayName = (contact: Pick<Contact, 'name' | 'email'>): string =>
+  contact.name.trim() || contact.email;
+
+/**
+ * Contacts matching what's typed into a recipient field, best matches first:
+ * names or addresses starting with the query, then ones containing it anywhere
+ */
+export const searchContacts = (contacts: Contact[], query: string, limit = 8): Contact[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return contacts.slice(0, limit);
+
+  const scored = contacts
+    .map(contact => {
+      const fields = [contact.name, contact.email, contact.company].map(field => field.toLowerCase());
+      const score = fields.some(field => field.startsWith(needle)) ? 2 : fields.some(field => field.includes(needle)) ? 1 : 0;
+      return { contact, score };
+    })
+    .filter(({ score }) => score > 0);
+
+  return scored
+    .sort((a, b) => b.score - a.score || getContactDisplayName(a.contact).localeCompare(getContactDisplayName(b.contact)))
+    .slice(0, limit)
+    .map(({ contact }) => contact);
+};
+
+/**
+ * Every application and follow-up addressed to a contact, newest first
+ */
+export const getContactActivity = (
+  contact: Pick<Contact, 'email'>,
+  applications: JobApplication[],
+  followUps: FollowUp[]
+): ContactActivity[] => {
+  const email = normalizeEmail(contact.email);
+
+  const applicationEntries = applications
+    .filter(app => normalizeEmail(app.recipient_email ?? '') === email)
+    .map(app => ({
+      id: app._id,
+      kind: 'application' as const,
+      date: app.sent_at || app.scheduled_at || app.created_at,
+      applicationId: app._id,
+      subject: app.subject,
+      company: app.company,
+      position: app.position,
+      status: app.status,
+      sent: !!app.sent_at,
+    }));
+
+  const followUpEntries = followUps
+    .filter(followUp => normalizeEmail(followUp.recipient_email ?? '') === email)
+    .map(followUp => ({
+      id: followUp._id,
+      kind: 'follow_up' as const,
+      date: followUp.sent_at,
+      applicationId: followUp.original_application_id,
+      subject: followUp.subject,
+      company: followUp.company,
+      position: followUp.position,
+      status: followUp.status,
+      sent: true,
+    }));
+
+  return [...applicationEntries, ...followUpEntries]
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
+
+/**
+ * When a contact was last in touch: the later of the date set by hand and
+ * the last email sent to them
+ */
+export const getLastContactedAt = (contact: Pick<Contact, 'lastContactedAt'>, activity: ContactActivity[]): string | null => {
+  const dates = [contact.lastContactedAt, ...activity.filter(entry => entry.sent).map(entry => entry.date)]
+    .filter((date): date is string => !!date && !isNaN(new Date(date).getTime()));
+  if (dates.length === 0) return null;
+  return dates.reduce((latest, date) => (new Date(date) > new Date(latest) ? date : latest));
+};
+
+/**
+ * Save the recipient of an application that was just sent as a contact
+ */
+export const saveRecipient = (application: Pick<JobApplication, 'recipient_email' | 'recipient_name' | 'company'>): void => {
+  if (!application.recipient_email) return;
+  useContactStore.getState().addRecipient({
+    email: application.recipient_email,
+    name: application.recipient_name,
+    company: application.company,
+  });
+};
+
+/**
+ * Name to greet an application's recipient by: the one saved on the
+ * application, else the contact with that address. Older applications
+ * were saved without a name.
+ */
+export const getRecipientName = (application: Pick<JobApplication, 'recipient_email' | 'recipient_name'>): string | null =>
+  application.recipient_name?.trim() ||
+  useContactStore.getState().getContactByEmail(application.recipient_email ?? '')?.name.trim() ||
+  null;
@@ -0,0 +1,57 @@
+import { TemplateValues } from '@/lib/templateEngine';
+import { TemplateChoice, renderTemplateChoice } from '@/lib/templateLibrary';
+import { DOCUMENT_MIME_TYPES, DocumentFormat, createDocument } from '@/lib/documentExport';
+
+export const COVER_LETTER_FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word (.docx)',
+};
+
+export interface CoverLetter {
+  title: string;
+  text: string;
+  format: DocumentFormat;
+}
+
+export interface RenderedCoverLetter {
+  title: string;
+  text: string;
+  leftOver: string[]; // Placeholders that still need filling in by hand
+}
+
+/**
+ * A cover letter template filled in for an application. The template's
+ * subject is the document title.
+ */
+export const renderCoverLetter = (
+  choice: Pick<TemplateChoice, 'subject' | 'body'>,
+  values: TemplateValues
+): RenderedCoverLetter => {
+  const { subject, body, leftOver } = renderTemplateChoice(choice, values);
+  return { title: subject ?? 'Cover letter', text: body, leftOver };
+};
+
+/**
+ * File name for a cover letter, e.g. "Cover letter - Frontend Engineer at Acme.pdf"
+ */
+export const getCoverLetterFileName = (letter: Pick<CoverLetter, 'title' | 'format'>): string => {
+  const base = letter.title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim() || 'Cover letter';
+  return `${base}.${letter.format}`;
+};
+
+/**
+ * Attachments-library label for a company's cover letter; regenerated
+ * letters for the same company become new versions of it
+ */
+export const getCoverLetterLabel = (company: string): string =>
+  company.trim() ? `Cover letter - ${company.trim()}` : 'Cover letter';
+
+/**
+ * The cover letter as a PDF or Word file, ready to upload or download
+ */
+export const createCoverLetterFile = (letter: CoverLetter, author?: string): File =>
+  new File(
+    [createDocument(letter.text, letter.format, { title: letter.title, author })],
+    getCoverLetterFileName(letter),
+    { type: DOCUMENT_MIME_TYPES[letter.format] }
+  );
@@ -0,0 +1,173 @@
+import { gzipSync } from 'zlib';
+import { createDocument, createDocx, createPdf, wrapLine } from '@/lib/documentExport';
+
+// The printable width of an A4 page with one-inch margins
+const PAGE_TEXT_WIDTH = 595 - 2 * 72;
+
+const readBytes = async (blob: Blob): Promise<Buffer> => Buffer.from(await blob.arrayBuffer());
+
+// gzip stores the CRC-32 of its input, which makes an independent reference
+const referenceCrc32 = (data: Buffer): number => {
+  const gzipped = gzipSync(data);
+  return gzipped.readUInt32LE(gzipped.length - 8);
+};
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Read a stored (uncompressed) zip through its central directory, checking
+ * each entry against its local header and CRC on the way
+ */
+const readZip = (zip: Buffer): ZipEntry[] => {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  const directorySize = zip.readUInt32LE(end + 12);
+  const directoryOffset = zip.readUInt32LE(end + 16);
+  expect(directoryOffset + directorySize).toBe(end);
+
+  const entries: ZipEntry[] = [];
+  let position = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(position + 16);
+    const size = zip.readUInt32LE(position + 24);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const localOffset = zip.readUInt32LE(position + 42);
+    const name = zip.toString('utf8', position + 46, position + 46 + nameLength);
+
+    expect(zip.readUInt32LE(localOffset)).toBe(0x04034b50);
+    expect(zip.readUInt16LE(localOffset + 8)).toBe(0); // Stored
+    expect(zip.readUInt32LE(localOffset + 14)).toBe(crc);
+    expect(zip.readUInt32LE(localOffset + 18)).toBe(size);
+    expect(zip.toString('utf8', localOffset + 30, localOffset + 30 + nameLength)).toBe(name);
+
+    const dataStart = localOffset + 30 + nameLength;
+    const data = zip.subarray(dataStart, dataStart + size);
+    expect(crc).toBe(referenceCrc32(data));
+
+    entries.push({ name, data });
+    position += 46 + nameLength;
+  }
+  return entries;
+};
+
+const readDocumentXml = async (text: string): Promise<string> => {
+  const entries = readZip(await readBytes(createDocx(text, { title: 'Cover letter' })));
+  const document = entries.find(entry => entry.name === 'word/document.xml');
+  if (!document) throw new Error('No word/document.xml');
+  return document.data.toString('utf8');
+};
+
+describe('wrapLine', () => {
+  // At 11pt, "a" is 6.116pt and a space 3.058pt wide
+  it('keeps lines that fit whole', () => {
+    expect(wrapLine('Dear hiring manager,', PAGE_TEXT_WIDTH)).toEqual(['Dear hiring manager,']);
+    expect(wrapLine('', PAGE_TEXT_WIDTH)).toEqual(['']);
+  });
+
+  it('breaks between words', () => {
+    const lines = wrapLine(Array(40).fill('aaaa').join(' '), PAGE_TEXT_WIDTH);
+    expect(lines.map(line => line.split(' ').length)).toEqual([16, 16, 8]);
+  });
+
+  it('splits a word only when it is wider than the line', () => {
+    expect(wrapLine('a'.repeat(100), PAGE_TEXT_WIDTH)).toEqual(['a'.repeat(73), 'a'.repeat(27)]);
+    expect(wrapLine(`hi ${'a'.repeat(80)} there`, PAGE_TEXT_WIDTH)).toEqual(['hi', 'a'.repeat(73), `${'a'.repeat(7)} there`]);
+  });
+
+  it('collapses runs of spaces between words', () => {
+    expect(wrapLine('one   two', PAGE_TEXT_WIDTH)).toEqual(['one two']);
+  });
+});
+
+describe('createPdf', () => {
+  const readPdf = async (text: string) => (await readBytes(createPdf(text, { title: 'Cover letter', author: 'Alex' }))).toString('latin1');
+
+  it('points every cross-reference entry at its object', async () => {
+    const pdf = await readPdf('Dear Jane,\n\nI would like to apply (again).');
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+    expect(pdf.startsWith('xref\n', startxref)).toBe(true);
+
+    const [, first, size] = pdf.slice(startxref).match(/^xref\n(\d+) (\d+)\n/) ?? [];
+    expect(Number(first)).toBe(0);
+    const entries = pdf.slice(startxref).split('\n').slice(2, 2 + Number(size));
+    expect(entries[0]).toBe('0000000000 65535 f ');
+    entries.slice(1).forEach((entry, index) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      expect(pdf.startsWith(`${index + 1} 0 obj\n`, Number(entry.slice(0, 10)))).toBe(true);
+    });
+    expect(pdf).toContain(`/Size ${size} /Root 1 0 R /Info 4 0 R`);
+  });
+
+  it('gives content streams their exact length', async () => {
+    const pdf = await readPdf('Hello\n\nWorld');
+    const streams = Array.from(pdf.matchAll(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g));
+
+    expect(streams).toHaveLength(1);
+    streams.forEach(([, length, content]) => expect(content.length).toBe(Number(length)));
+  });
+
+  it('escapes string delimiters and encodes text outside ASCII', async () => {
+    const pdf = await readPdf('Price (net) \\ 5 € – café');
+    expect(pdf).toContain('(Price \\(net\\) \\\\ 5 \\200 \\226 caf\\351) Tj');
+  });
+
+  it('starts a new page when the text runs past the bottom margin', async () => {
+    const lines = (count: number) => Array.from({ length: count }, (_, i) => `Line ${i + 1}`).join('\n');
+
+    expect(await readPdf(lines(46))).toContain('/Count 1');
+    const twoPages = await readPdf(lines(47));
+    expect(twoPages).toContain('/Kids [5 0 R 7 0 R] /Count 2');
+    expect(twoPages).toMatch(/BT \/F1 11 Tf 72 755 Td \(Line 47\) Tj ET\nendstream/);
+  });
+
+  it('is the same file for the same text', async () => {
+    expect(await readPdf('Same text')).toBe(await readPdf('Same text'));
+  });
+});
+
+describe('createDocx', () => {
+  it('is a zip of the Word document parts with matching headers and CRCs', async () => {
+    const entries = readZip(await readBytes(createDocx('Hello', { title: 'Cover letter', author: 'Alex' })));
+
+    expect(entries.map(entry => entry.name)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'word/document.xml',
+    ]);
+    expect(entries[2].data.toString('utf8')).toContain('<dc:title>Cover letter</dc:title><dc:creator>Alex</dc:creator>');
+  });
+
+  it('writes paragraphs and line breaks', async () => {
+    const xml = await readDocumentXml('Dear Jane,\n\nFirst line\nSecond line');
+
+    expect(xml.match(/<w:p>/g)).toHaveLength(2);
+    expect(xml).toContain('<w:t xml:space="preserve">First line</w:t><w:br/><w:t xml:space="preserve">Second line</w:t>');
+  });
+
+  it('escapes markup and drops characters XML does not allow', async () => {
+    const xml = await readDocumentXml('Dear\u000bJane\u000c & <team>\u0000 "quoted"\tend');
+
+    expect(xml).toContain('DearJane &amp; &lt;team&gt; &quot;quoted&quot;\tend');
+    expect(Array.from(xml).filter(char => char < ' ' && !'\t\n\r'.includes(char))).toEqual([]);
+  });
+
+  it('keeps text outside ASCII as UTF-8', async () => {
+    expect(await readDocumentXml('Ünïcødé – Яндекс')).toContain('Ünïcødé – Яндекс');
+  });
+});
+
+describe('createDocument', () => {
+  it('creates the requested format', () => {
+    expect(createDocument('Hi', 'pdf', { title: 'Letter' }).type).toBe('application/pdf');
+    expect(createDocument('Hi', 'docx', { title: 'Letter' }).type).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * PDF and DOCX files built in the browser from plain text, e.g. a filled-in
+ * cover letter. Blank lines separate paragraphs and single newlines are line
+ * breaks. Both writers leave out timestamps so the same text always produces
+ * the same file (and checksum).
+ */
+
+export type DocumentFormat = 'pdf' | 'docx';
+
+export const DOCUMENT_MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+interface DocumentOptions {
+  title: string;
+  author?: string;
+}
+
+const toParagraphs = (text: string): string[][] =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').map(line => line.trimEnd()));
+
+// ---- PDF ----
+
+// A4 in points, with one-inch margins
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 72;
+const FONT_SIZE = 11;
+const LINE_HEIGHT = 15;
+const PARAGRAPH_GAP = 8;
+
+// Helvetica advance widths (per 1000 units) for the printable ASCII range, from its font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Typographic characters outside Latin-1 that the standard PDF fonts still have (WinAnsiEncoding)
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const toWinAnsi = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 0x3f; // "?"
+};
+
+const charWidth = (char: string): number => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 && code < 0x7f ? HELVETICA_WIDTHS[code - 0x20] : DEFAULT_WIDTH;
+};
+
+const textWidth = (text: string): number =>
+  Array.from(text).reduce((width, char) => width + charWidth(char), 0) * FONT_SIZE / 1000;
+
+/**
+ * Break a line into lines no wider than maxWidth points in the PDF's font,
+ * splitting words only when a single word is wider than that
+ */
+export const wrapLine = (line: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+
+  line.split(/ +/).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+    if (current) lines.push(current);
+    current = '';
+    let rest = word;
+    while (textWidth(rest) > maxWidth) {
+      let cut = rest.length - 1;
+      while (cut > 1 && textWidth(rest.slice(0, cut)) > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    current = rest;
+  });
+
+  lines.push(current);
+  return lines;
+};
+
+// PDF string literal, kept ASCII so string lengths are byte offsets
+const pdfString = (text: string): string =>
+  '(' + Array.from(text).map(char => {
+    const code = toWinAnsi(char);
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+    return code < 0x80 ? String.fromCharCode(code) : `\\${code.toString(8).padStart(3, '0')}`;
+  }).join('') + ')';
+
+/**
+ * Lay the text out on pages, as PDF content streams
+ */
+const layoutPages = (text: string): string[] => {
+  const maxWidth = PAGE_WIDTH - 2 * MARGIN;
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  toParagraphs(text).forEach((paragraph, index) => {
+    if (index > 0) y -= PARAGRAPH_GAP;
+    paragraph.flatMap(line => wrapLine(line, maxWidth)).forEach(line => {
+      if (y - LINE_HEIGHT < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= LINE_HEIGHT;
+      if (line) {
+        pages[pages.length - 1].push(`BT /F1 ${FONT_SIZE} Tf ${MARGIN} ${y} Td ${pdfString(line)} Tj ET`);
+      }
+    });
+  });
+
+  return pages.map(commands => commands.join('\n'));
+};
+
+/**
+ * A PDF of the text in 11pt Helvetica on A4 pages
+ */
+export const createPdf = (text: string, options: DocumentOptions): Blob => {
+  const pages = layoutPages(text);
+  const objects: string[] = [];
+  // Object numbers: 1 catalog, 2 page tree, 3 font, 4 info, then a page and its content per page
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = `<< /Title ${pdfString(options.title)}${options.author ? ` /Author ${pdfString(options.author)}` : ''} /Producer (JobBuddy) >>`;
+  pages.forEach((content, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Blob([output], { type: DOCUMENT_MIME_TYPES.pdf });
+};
+
+// ---- DOCX ----
+
+// Control characters other than tab and newlines (e.g. vertical tabs or page
+// breaks pasted from Word) aren't allowed anywhere in XML, escaped or not
+const isXmlChar = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (text: string): string =>
+  Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  '</Types>';
+
+const RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+  '</Relationships>';
+
+const coreXml = (options: DocumentOptions): string =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+  'xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+  `<dc:title>${escapeXml(options.title)}</dc:title>` +
+  (options.author ? `<dc:creator>${escapeXml(options.author)}</dc:creator>` : '') +
+  '</cp:coreProperties>';
+
+const documentXml = (text: string): string => {
+  const paragraphs = toParagraphs(text).map(lines => {
+    const runs = lines
+      .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+      .join('<w:br/>');
+    return `<w:p><w:pPr><w:spacing w:after="200"/></w:pPr><w:r><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/><w:sz w:val="22"/></w:rPr>${runs}</w:r></w:p>`;
+  });
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+    paragraphs.join('') +
+    // A4 with one-inch margins, matching the PDF
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>' +
+    '</w:body></w:document>'
+  );
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  data.forEach(byte => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// 1980-01-01 00:00, the earliest date a zip entry can have
+const DOS_DATE = (1 << 5) | 1;
+const DOS_TIME = 0;
+
+/**
+ * An uncompressed zip archive of the given files
+ */
+const createZip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(8, 0, true); // Stored, no compression
+    local.setUint16(10, DOS_TIME, true);
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(12, DOS_TIME, true);
+    central.setUint16(14, DOS_DATE, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, data);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const directorySize = centralDirectory.reduce((size, chunk) => size + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...centralDirectory, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((position, part) => {
+    zip.set(part, position);
+    return position + part.length;
+  }, 0);
+  return zip;
+};
+
+/**
+ * A Word document of the text in 11pt Calibri on A4 pages
+ */
+export const createDocx = (text: string, options: DocumentOptions): Blob =>
+  new Blob([createZip([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', content: RELS_XML },
+    { name: 'docProps/core.xml', content: coreXml(options) },
+    { name: 'word/document.xml', content: documentXml(text) },
+  ])], { type: DOCUMENT_MIME_TYPES.docx });
+
+/**
+ * The text as a file in the given format
+ */
+export const createDocument = (text: string, format: DocumentFormat, options: DocumentOptions): Blob =>
+  format === 'pdf' ? createPdf(text, options) : createDocx(text, options);
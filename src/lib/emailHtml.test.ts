@@ -0,0 +1,93 @@
+/**
+ * @jest-environment jsdom
+ */
+import { getContentHtml, htmlToPlainText, plainTextToHtml, sanitizeEmailHtml, toEmailContent } from '@/lib/emailHtml';
+
+describe('sanitizeEmailHtml', () => {
+  it('keeps the allowed formatting', () => {
+    const html = '<p>Hi <strong>Jane</strong>,<br><em>thanks</em> <u>again</u></p><ul><li>One</li></ul><ol><li>Two</li></ol>';
+    expect(sanitizeEmailHtml(html)).toBe(html);
+  });
+
+  it('maps the tags editors produce onto the allowed ones', () => {
+    expect(sanitizeEmailHtml('<div>Hi <b>Jane</b> <i>there</i></div>')).toBe('<p>Hi <strong>Jane</strong> <em>there</em></p>');
+  });
+
+  it('drops scripts, styles and embedded frames with their contents', () => {
+    const html = '<p>Hi</p><script>alert(1)</script><style>p { color: red }</style><iframe src="https://evil.test"></iframe>';
+    expect(sanitizeEmailHtml(html)).toBe('<p>Hi</p>');
+  });
+
+  it('unwraps other tags to their text', () => {
+    expect(sanitizeEmailHtml('<p><span style="color: red">Hi</span> <font size="7">there</font></p>')).toBe('<p>Hi there</p>');
+  });
+
+  it('strips attributes, including event handlers', () => {
+    expect(sanitizeEmailHtml('<p class="x" onclick="alert(1)">Hi</p><img src="x" onerror="alert(1)">')).toBe('<p>Hi</p>');
+  });
+
+  it('keeps web and email links and opens them in a new tab', () => {
+    expect(sanitizeEmailHtml('<a href=" https://acme.com ">Acme</a>')).toBe(
+      '<a href="https://acme.com" target="_blank" rel="noopener noreferrer">Acme</a>'
+    );
+    expect(sanitizeEmailHtml('<a href="mailto:jane@acme.com">Jane</a>')).toBe(
+      '<a href="mailto:jane@acme.com" target="_blank" rel="noopener noreferrer">Jane</a>'
+    );
+  });
+
+  it('unlinks unsafe link targets but keeps their text', () => {
+    expect(sanitizeEmailHtml('<p><a href="javascript:alert(1)">Click</a></p>')).toBe('<p>Click</p>');
+    expect(sanitizeEmailHtml('<p><a href="data:text/html,hi">Click</a></p>')).toBe('<p>Click</p>');
+    expect(sanitizeEmailHtml('<p><a>Click</a></p>')).toBe('<p>Click</p>');
+  });
+
+  it('returns nothing for markup without text', () => {
+    expect(sanitizeEmailHtml('<p><br></p><p></p>')).toBe('');
+  });
+});
+
+describe('htmlToPlainText', () => {
+  it('separates paragraphs with blank lines and keeps line breaks', () => {
+    expect(htmlToPlainText('<p>Hi Jane,</p><p>Line one<br>Line two</p>')).toBe('Hi Jane,\n\nLine one\nLine two');
+  });
+
+  it('writes lists as dashes or numbers', () => {
+    expect(htmlToPlainText('<p>Skills:</p><ul><li>React</li><li>Node</li></ul><ol><li>First</li><li>Second</li></ol>')).toBe(
+      'Skills:\n\n- React\n- Node\n\n1. First\n2. Second'
+    );
+  });
+
+  it('follows links with their address unless the text already is it', () => {
+    expect(htmlToPlainText('<a href="https://acme.com/jobs">our jobs</a>')).toBe('our jobs (https://acme.com/jobs)');
+    expect(htmlToPlainText('<a href="https://acme.com">https://acme.com</a>')).toBe('https://acme.com');
+    expect(htmlToPlainText('<a href="mailto:jane@acme.com">jane@acme.com</a>')).toBe('jane@acme.com');
+  });
+});
+
+describe('plainTextToHtml', () => {
+  it('turns blank lines into paragraphs and newlines into line breaks', () => {
+    expect(plainTextToHtml('Hi Jane,\n\nLine one\nLine two\n')).toBe('<p>Hi Jane,</p><p>Line one<br>Line two</p>');
+  });
+
+  it('escapes markup and links web addresses', () => {
+    expect(plainTextToHtml('<b>See</b> https://acme.com/jobs.')).toBe(
+      '<p>&lt;b&gt;See&lt;/b&gt; <a href="https://acme.com/jobs" target="_blank" rel="noopener noreferrer">https://acme.com/jobs</a>.</p>'
+    );
+  });
+});
+
+describe('getContentHtml', () => {
+  it('prefers the stored HTML and falls back to the plain text', () => {
+    expect(getContentHtml({ content: 'Plain', content_html: '<p>Rich</p>' })).toBe('<p>Rich</p>');
+    expect(getContentHtml({ content: 'Plain', content_html: null })).toBe('<p>Plain</p>');
+  });
+});
+
+describe('toEmailContent', () => {
+  it('stores the sanitized HTML with its plain-text alternative', () => {
+    expect(toEmailContent('<div>Hi</div><script>x</script><p>Bye</p>')).toEqual({
+      content: 'Hi\n\nBye',
+      content_html: '<p>Hi</p><p>Bye</p>',
+    });
+  });
+});
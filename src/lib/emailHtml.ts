@@ -0,0 +1,158 @@
+/**
+ * Helpers for the HTML part of outgoing emails. Email HTML is limited to
+ * paragraphs, line breaks, bold/italic/underline, links and lists; anything
+ * else is unwrapped to its text, and scripts and styles are dropped entirely.
+ */
+
+// Allowed tags, with the tags the browser's editing commands also produce mapped onto them
+const TAG_MAP: Record<string, string> = {
+  p: 'p',
+  div: 'p',
+  br: 'br',
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em',
+  u: 'u',
+  a: 'a',
+  ul: 'ul',
+  ol: 'ol',
+  li: 'li',
+};
+
+// Dropped together with everything inside them
+const DROPPED_TAGS = new Set(['script', 'style', 'head', 'title', 'meta', 'link', 'iframe', 'object', 'embed', 'template']);
+
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+const URL_PATTERN = /\b(https?:\/\/[^\s<]+[^\s<.,;:!?)'"])/g;
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const sanitizeNode = (node: Node, doc: Document): Node[] => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return [doc.createTextNode(node.textContent ?? '')];
+  }
+  if (!(node instanceof Element)) return [];
+
+  const source = node.tagName.toLowerCase();
+  if (DROPPED_TAGS.has(source)) return [];
+
+  const children = Array.from(node.childNodes).flatMap(child => sanitizeNode(child, doc));
+  const tag = TAG_MAP[source];
+  if (!tag) return children;
+
+  const element = doc.createElement(tag);
+  if (tag === 'a') {
+    const href = node.getAttribute('href')?.trim() ?? '';
+    // Links to anything but the web or an email address lose the link but keep the text
+    if (!SAFE_URL_PATTERN.test(href)) return children;
+    element.setAttribute('href', href);
+    element.setAttribute('target', '_blank');
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+  children.forEach(child => element.appendChild(child));
+  return [element];
+};
+
+/**
+ * Strip HTML down to the tags and link targets allowed in emails
+ */
+export const sanitizeEmailHtml = (html: string): string => {
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  const container = parsed.createElement('div');
+  Array.from(parsed.body.childNodes)
+    .flatMap(node => sanitizeNode(node, parsed))
+    .forEach(node => container.appendChild(node));
+
+  // Editors leave empty paragraphs behind when everything is deleted
+  return container.textContent?.trim() ? container.innerHTML : '';
+};
+
+const BLOCK_TAGS = new Set(['p', 'div', 'ul', 'ol']);
+
+const toPlainText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ');
+  if (!(node instanceof Element)) return '';
+
+  const tag = node.tagName.toLowerCase();
+  if (DROPPED_TAGS.has(tag)) return '';
+  if (tag === 'br') return '\n';
+
+  if (tag === 'ul' || tag === 'ol') {
+    const items = Array.from(node.children).filter(child => child.tagName.toLowerCase() === 'li');
+    const lines = items.map((item, index) =>
+      `${tag === 'ol' ? `${index + 1}.` : '-'} ${Array.from(item.childNodes).map(toPlainText).join('').trim()}`
+    );
+    return `\n\n${lines.join('\n')}\n\n`;
+  }
+
+  const text = Array.from(node.childNodes).map(toPlainText).join('');
+
+  // Keep link targets readable in clients that only show text
+  if (tag === 'a') {
+    const href = node.getAttribute('href') ?? '';
+    const target = href.replace(/^mailto:/i, '');
+    return href && text.trim() !== target ? `${text} (${target})` : text;
+  }
+
+  return BLOCK_TAGS.has(tag) ? `\n\n${text.trim()}\n\n` : text;
+};
+
+/**
+ * Plain-text alternative of an HTML email: paragraphs separated by blank lines,
+ * lists as "-" or "1." lines, and links followed by their address
+ */
+export const htmlToPlainText = (html: string): string => {
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(parsed.body.childNodes)
+    .map(toPlainText)
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * HTML for plain text (e.g. a filled template or an older application):
+ * blank lines start paragraphs, single newlines become line breaks and web
+ * addresses become links
+ */
+export const plainTextToHtml = (text: string): string =>
+  text
+    .trim()
+    .split(/\n\s*\n/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => {
+      const escaped = escapeHtml(paragraph.trim())
+        .replace(URL_PATTERN, url => `<a href="${url}" target="_blank" rel="noopener noreferrer">${url}</a>`)
+        .replace(/\n/g, '<br>');
+      return `<p>${escaped}</p>`;
+    })
+    .join('');
+
+/**
+ * The HTML version of an application's email, built from the plain text when
+ * it was written before rich text was supported
+ */
+export const getContentHtml = (application: { content?: string | null; content_html?: string | null }): string =>
+  application.content_html || plainTextToHtml(application.content ?? '');
+
+// Tailwind classes that give email HTML roughly the look mail clients give it
+export const EMAIL_HTML_CLASS_NAME =
+  "break-words [&_p]:mb-3 [&_p:last-child]:mb-0 [&_ul]:mb-3 [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:mb-3 [&_ol]:list-decimal [&_ol]:pl-6 [&_a]:text-primary [&_a]:underline";
+
+/**
+ * Sanitized HTML and its plain-text alternative, as stored on an application
+ */
+export const toEmailContent = (html: string): { content: string; content_html: string } => {
+  const contentHtml = sanitizeEmailHtml(html);
+  return { content: htmlToPlainText(contentHtml), content_html: contentHtml };
+};
@@ -0,0 +1,120 @@
+import { FollowUpIntervalUnit, FollowUpSettings } from '@/lib/api';
+import { getAssignedSequence, getNextSequenceStep, isSequenceMissing } from '@/lib/followUpSequences';
+import type { Application } from '@/store/applicationStore';
+
+const MINUTES_PER_UNIT: Record<FollowUpIntervalUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 24 * 60,
+};
+
+// Allowed interval per unit
+export const INTERVAL_LIMITS: Record<FollowUpIntervalUnit, { min: number; max: number; hint: string }> = {
+  minutes: { min: 5, max: 1440, hint: 'Minimum 5 minutes, maximum 24 hours (1440 minutes)' },
+  hours: { min: 1, max: 72, hint: 'Minimum 1 hour, maximum 3 days (72 hours)' },
+  days: { min: 1, max: 30, hint: 'Minimum 1 day, maximum 30 days' },
+};
+
+export const DEFAULT_FOLLOW_UP_SETTINGS: FollowUpSettings = {
+  type: 'periodic_limited',
+  interval_days: 7,
+  interval_minutes: 7 * MINUTES_PER_UNIT.days,
+  interval_unit: 'days',
+  max_count: 3,
+  follow_up_count: 0,
+  last_follow_up_date: null,
+  next_follow_up_date: null,
+  paused: false,
+};
+
+type IntervalFields = Pick<FollowUpSettings, 'interval_days' | 'interval_minutes' | 'interval_unit'>;
+
+// Settings saved before sub-day intervals existed only have interval_days
+const getPlainIntervalMinutes = (settings: IntervalFields | undefined): number =>
+  settings?.interval_minutes || (settings?.interval_days || DEFAULT_FOLLOW_UP_SETTINGS.interval_days) * MINUTES_PER_UNIT.days;
+
+/**
+ * Exact wait before the next follow-up in minutes: the next sequence step's
+ * delay when a sequence is assigned, otherwise the interval
+ */
+export const getIntervalMinutes = (settings: FollowUpSettings | undefined): number => {
+  const step = getNextSequenceStep(settings);
+  if (step) {
+    return step.delay * MINUTES_PER_UNIT[step.delayUnit];
+  }
+  return getPlainIntervalMinutes(settings);
+};
+
+/**
+ * The interval in the unit it was entered in, for editing and display.
+ * Ignores any sequence, whose steps carry their own delays.
+ */
+export const getInterval = (settings: IntervalFields | undefined): { value: number; unit: FollowUpIntervalUnit } => {
+  const unit = settings?.interval_unit ?? 'days';
+  return { value: Math.max(1, Math.round(getPlainIntervalMinutes(settings) / MINUTES_PER_UNIT[unit])), unit };
+};
+
+/**
+ * Interval fields for a value in a unit. interval_days is rounded up to a
+ * whole day so day-only consumers never follow up sooner than asked.
+ */
+export const toIntervalFields = (value: number, unit: FollowUpIntervalUnit): IntervalFields => {
+  const minutes = value * MINUTES_PER_UNIT[unit];
+  return {
+    interval_days: Math.max(1, Math.ceil(minutes / MINUTES_PER_UNIT.days)),
+    interval_minutes: minutes,
+    interval_unit: unit,
+  };
+};
+
+/**
+ * Convert an interval between units, clamped to the new unit's limits
+ */
+export const convertInterval = (value: number, from: FollowUpIntervalUnit, to: FollowUpIntervalUnit): number => {
+  const converted = Math.ceil((value * MINUTES_PER_UNIT[from]) / MINUTES_PER_UNIT[to]);
+  return Math.min(Math.max(converted, INTERVAL_LIMITS[to].min), INTERVAL_LIMITS[to].max);
+};
+
+export const formatInterval = (settings: IntervalFields | undefined): string => {
+  const { value, unit } = getInterval(settings);
+  return `${value} ${value === 1 ? unit.slice(0, -1) : unit}`;
+};
+
+/**
+ * Short human-readable summary, e.g. "Every 2 days, up to 3 times"
+ */
+export const describeFollowUpSettings = (settings: FollowUpSettings | undefined): string => {
+  if (!settings) return 'No follow-ups scheduled';
+  if (isSequenceMissing(settings)) return 'Sequence not saved in this browser';
+
+  const sequence = getAssignedSequence(settings);
+  if (sequence) {
+    const steps = `${sequence.name} (${sequence.steps.length} step${sequence.steps.length === 1 ? '' : 's'})`;
+    return settings.paused ? `${steps} (paused)` : steps;
+  }
+
+  const interval = formatInterval(settings);
+  const schedule = {
+    one_time: `Once, ${interval} after sending`,
+    periodic_limited: `Every ${interval}, up to ${settings.max_count} times`,
+    until_response: `Every ${interval} until a reply (max ${settings.max_count})`,
+  }[settings.type];
+
+  return settings.paused ? `${schedule} (paused)` : schedule;
+};
+
+/**
+ * Server follow-up settings equivalent to a locally stored auto follow-up.
+ * Keeps the server's count and dates; only the policy comes from the local data.
+ */
+export const fromLocalAutoFollowUp = (
+  autoFollowUp: NonNullable<Application['autoFollowUp']>,
+  current: FollowUpSettings | undefined
+): FollowUpSettings => ({
+  ...DEFAULT_FOLLOW_UP_SETTINGS,
+  ...current,
+  type: 'periodic_limited',
+  ...toIntervalFields(autoFollowUp.interval, autoFollowUp.intervalType),
+  max_count: autoFollowUp.maxFollowUps,
+  paused: !autoFollowUp.enabled,
+});
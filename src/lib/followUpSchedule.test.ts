@@ -0,0 +1,131 @@
+import {
+  applySendingRules,
+  buildFollowUpQueue,
+  getFollowUpDueState,
+  getFollowUpLimit,
+  getNextFollowUpDate,
+  isFollowUpDue,
+} from '@/lib/followUpSchedule';
+import { makeApplication, makeFollowUpSettings } from '@/test/fixtures';
+
+// Business hours in New York, which switches to daylight saving time on 2026-03-08
+const NEW_YORK_RULES = makeFollowUpSettings({
+  business_days_only: true,
+  send_window: { start: '09:00', end: '17:00' },
+  recipient_timezone: 'America/New_York',
+});
+
+describe('getFollowUpLimit', () => {
+  it('sends one follow-up for one-time settings', () => {
+    expect(getFollowUpLimit(makeFollowUpSettings({ type: 'one_time', max_count: 5 }))).toBe(1);
+  });
+
+  it('stops at max_count, or three when unset', () => {
+    expect(getFollowUpLimit(makeFollowUpSettings({ max_count: 5 }))).toBe(5);
+    expect(getFollowUpLimit(makeFollowUpSettings({ max_count: 0 }))).toBe(3);
+    expect(getFollowUpLimit(undefined)).toBe(3);
+  });
+});
+
+describe('applySendingRules', () => {
+  it('leaves the date alone without settings or rules', () => {
+    const date = new Date('2026-03-07T03:00:00Z');
+    expect(applySendingRules(date, undefined)).toBe(date);
+    expect(applySendingRules(date, makeFollowUpSettings())).toBe(date);
+  });
+
+  it('keeps times inside the sending window', () => {
+    const date = new Date('2026-03-10T15:00:00Z'); // Tuesday 11:00 in New York
+    expect(applySendingRules(date, NEW_YORK_RULES)).toEqual(date);
+  });
+
+  it('waits for the window to open', () => {
+    const date = new Date('2026-03-10T11:30:00Z'); // Tuesday 07:30 in New York
+    expect(applySendingRules(date, NEW_YORK_RULES).toISOString()).toBe('2026-03-10T13:00:00.000Z');
+  });
+
+  it('moves past the window and the weekend to the next business morning', () => {
+    const date = new Date('2026-03-06T23:00:00Z'); // Friday 18:00 in New York
+    expect(applySendingRules(date, NEW_YORK_RULES).toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('skips blackout dates in the recipient time zone', () => {
+    const date = new Date('2026-03-06T23:00:00Z');
+    const settings = { ...NEW_YORK_RULES, blackout_dates: ['2026-03-09'] };
+    expect(applySendingRules(date, settings).toISOString()).toBe('2026-03-10T13:00:00.000Z');
+  });
+
+  it('ignores rules that never allow sending', () => {
+    const date = new Date('2026-03-06T23:00:00Z');
+    const settings = makeFollowUpSettings({ send_window: { start: '09:00', end: '09:00' }, recipient_timezone: 'UTC' });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(applySendingRules(date, settings)).toBe(date);
+  });
+});
+
+describe('getNextFollowUpDate', () => {
+  it('is one interval after the application was sent', () => {
+    expect(getNextFollowUpDate(makeFollowUpSettings(), '2026-03-02T15:00:00Z')?.toISOString()).toBe('2026-03-05T15:00:00.000Z');
+  });
+
+  it('counts from the last follow-up once one went out', () => {
+    const settings = makeFollowUpSettings({ follow_up_count: 1, last_follow_up_date: '2026-03-05T15:00:00Z' });
+    expect(getNextFollowUpDate(settings, '2026-03-02T15:00:00Z')?.toISOString()).toBe('2026-03-08T15:00:00.000Z');
+  });
+
+  it('applies the sending rules', () => {
+    expect(getNextFollowUpDate(NEW_YORK_RULES, '2026-03-03T23:00:00Z')?.toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('is null when paused, used up or never sent', () => {
+    expect(getNextFollowUpDate(makeFollowUpSettings({ paused: true }), '2026-03-02T15:00:00Z')).toBeNull();
+    expect(getNextFollowUpDate(makeFollowUpSettings({ follow_up_count: 3 }), '2026-03-02T15:00:00Z')).toBeNull();
+    expect(getNextFollowUpDate(makeFollowUpSettings({ type: 'one_time', follow_up_count: 1 }), '2026-03-02T15:00:00Z')).toBeNull();
+    expect(getNextFollowUpDate(makeFollowUpSettings(), null)).toBeNull();
+    expect(getNextFollowUpDate(undefined, '2026-03-02T15:00:00Z')).toBeNull();
+  });
+
+  it("waits the sequence step's delay, and never falls back to the interval when the sequence is missing", () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const withSequence = makeFollowUpSettings({ sequence_id: 'default-escalation' });
+    expect(getNextFollowUpDate(withSequence, '2026-03-02T15:00:00Z')?.toISOString()).toBe('2026-03-07T15:00:00.000Z');
+    expect(getNextFollowUpDate(makeFollowUpSettings({ sequence_id: 'from-another-browser' }), '2026-03-02T15:00:00Z')).toBeNull();
+  });
+});
+
+describe('due state', () => {
+  // Local times, as the dashboard groups follow-ups by the user's own days
+  const now = new Date(2026, 2, 10, 12, 0);
+  const sentDaysBefore = (days: number, hour = 8) => new Date(2026, 2, 10 - days, hour, 0).toISOString();
+
+  it('groups due dates into overdue, today and upcoming', () => {
+    expect(getFollowUpDueState(new Date(2026, 2, 9, 23, 59), now)).toBe('overdue');
+    expect(getFollowUpDueState(new Date(2026, 2, 10, 0, 0), now)).toBe('due_today');
+    expect(getFollowUpDueState(new Date(2026, 2, 10, 23, 0), now)).toBe('due_today');
+    expect(getFollowUpDueState(new Date(2026, 2, 11, 0, 0), now)).toBe('upcoming');
+  });
+
+  it('counts follow-ups due later today as due', () => {
+    expect(isFollowUpDue(makeApplication({ sent_at: sentDaysBefore(3, 8) }), now)).toBe(true);
+    expect(isFollowUpDue(makeApplication({ sent_at: sentDaysBefore(2, 8) }), now)).toBe(false);
+  });
+
+  it('only follows up on applications still waiting for a reply', () => {
+    expect(isFollowUpDue(makeApplication({ status: 'responded', sent_at: sentDaysBefore(5) }), now)).toBe(false);
+  });
+
+  it('queues pending follow-ups by due state, soonest first', () => {
+    const queue = buildFollowUpQueue([
+      makeApplication({ _id: 'upcoming', sent_at: sentDaysBefore(1) }),
+      makeApplication({ _id: 'today', sent_at: sentDaysBefore(3) }),
+      makeApplication({ _id: 'older', sent_at: sentDaysBefore(6) }),
+      makeApplication({ _id: 'overdue', sent_at: sentDaysBefore(5) }),
+      makeApplication({ _id: 'replied', status: 'responded', sent_at: sentDaysBefore(5) }),
+    ], now);
+
+    expect(queue.overdue.map(entry => entry.application._id)).toEqual(['older', 'overdue']);
+    expect(queue.dueToday.map(entry => entry.application._id)).toEqual(['today']);
+    expect(queue.upcoming.map(entry => entry.application._id)).toEqual(['upcoming']);
+  });
+});
@@ -0,0 +1,163 @@
+import { addMinutes, endOfDay, isBefore, isSameDay, startOfDay } from 'date-fns';
+import { FollowUpSettings, JobApplication } from '@/lib/api';
+import { getIntervalMinutes } from '@/lib/followUpPolicy';
+import { getAssignedSequence, isSequenceMissing } from '@/lib/followUpSequences';
+import { fromZonedTime, getLocalTimeZone, getZonedParts, isValidTimeZone, toDateKey } from '@/lib/zonedTime';
+
+const DEFAULT_MAX_COUNT = 3;
+
+export type FollowUpDueState = 'overdue' | 'due_today' | 'upcoming';
+
+export interface ScheduledFollowUp {
+  application: JobApplication;
+  dueDate: Date;
+  state: FollowUpDueState;
+}
+
+export interface FollowUpQueue {
+  overdue: ScheduledFollowUp[];
+  dueToday: ScheduledFollowUp[];
+  upcoming: ScheduledFollowUp[];
+}
+
+const toDate = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * How many follow-ups the settings allow in total. A sequence sends one per
+ * step; one-time means exactly one; the other types stop at max_count
+ * (until_response also stops on any reply).
+ */
+export const getFollowUpLimit = (settings: FollowUpSettings | undefined): number => {
+  const sequence = getAssignedSequence(settings);
+  if (sequence) {
+    return sequence.steps.length;
+  }
+  if (settings?.type === 'one_time') {
+    return Math.min(1, settings.max_count ?? 1);
+  }
+  return settings?.max_count || DEFAULT_MAX_COUNT;
+};
+
+const parseTime = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Give up on rules that never allow sending (e.g. every day blacked out)
+const MAX_DAYS_TO_SEARCH = 366;
+
+/**
+ * Move a due date forward to the first moment the sending rules allow:
+ * a business day (if required), not blacked out, within the sending window,
+ * all in the recipient's time zone
+ */
+export const applySendingRules = (date: Date, settings: FollowUpSettings | undefined): Date => {
+  if (!settings) return date;
+
+  const timeZone = settings.recipient_timezone && isValidTimeZone(settings.recipient_timezone)
+    ? settings.recipient_timezone
+    : getLocalTimeZone();
+  const blackout = new Set(settings.blackout_dates ?? []);
+  const windowStart = settings.send_window ? parseTime(settings.send_window.start) : 0;
+  const windowEnd = settings.send_window ? parseTime(settings.send_window.end) : 24 * 60;
+
+  let candidate = date;
+  for (let i = 0; i < MAX_DAYS_TO_SEARCH * 2; i++) {
+    const parts = getZonedParts(candidate, timeZone);
+    const minuteOfDay = parts.hour * 60 + parts.minute;
+    const isWeekend = parts.weekday === 0 || parts.weekday === 6;
+    const startOfWindow = (dayOffset: number) => fromZonedTime(
+      parts.year, parts.month, parts.day + dayOffset,
+      Math.floor(windowStart / 60), windowStart % 60,
+      timeZone
+    );
+
+    if ((settings.business_days_only && isWeekend) || blackout.has(toDateKey(parts)) || minuteOfDay >= windowEnd) {
+      candidate = startOfWindow(1);
+    } else if (minuteOfDay < windowStart) {
+      candidate = startOfWindow(0);
+    } else {
+      return candidate;
+    }
+  }
+
+  console.warn("Follow-up sending rules leave no time to send; ignoring them", settings);
+  return date;
+};
+
+/**
+ * When the next follow-up is due: one interval after the last follow-up, or
+ * after the application itself if none went out yet, moved forward to fit
+ * the sending rules. Null when no more follow-ups should be sent, or when
+ * the sequence that sets the delay isn't in this browser.
+ */
+export const getNextFollowUpDate = (
+  settings: FollowUpSettings | undefined,
+  sentAt: string | null | undefined
+): Date | null => {
+  if (!settings || settings.paused || isSequenceMissing(settings)) return null;
+  if ((settings.follow_up_count || 0) >= getFollowUpLimit(settings)) return null;
+
+  const from = toDate(settings.last_follow_up_date) ?? toDate(sentAt);
+  if (!from) return null;
+
+  return applySendingRules(addMinutes(from, getIntervalMinutes(settings)), settings);
+};
+
+/**
+ * Next due date for an application, only while it is still waiting on a reply
+ */
+export const getApplicationNextFollowUpDate = (application: JobApplication): Date | null =>
+  application.status === 'sent'
+    ? getNextFollowUpDate(application.follow_up_settings, application.sent_at)
+    : null;
+
+/**
+ * Settings with next_follow_up_date recomputed from the rest of the schedule
+ */
+export const withNextFollowUpDate = (
+  settings: FollowUpSettings,
+  sentAt: string | null | undefined
+): FollowUpSettings => ({
+  ...settings,
+  next_follow_up_date: getNextFollowUpDate(settings, sentAt)?.toISOString() ?? null,
+});
+
+export const getFollowUpDueState = (dueDate: Date, now: Date = new Date()): FollowUpDueState => {
+  if (isBefore(dueDate, startOfDay(now))) return 'overdue';
+  if (isSameDay(dueDate, now)) return 'due_today';
+  return 'upcoming';
+};
+
+/**
+ * Whether a follow-up should go out today (or should have already)
+ */
+export const isFollowUpDue = (application: JobApplication, now: Date = new Date()): boolean => {
+  const dueDate = getApplicationNextFollowUpDate(application);
+  return dueDate !== null && !isBefore(endOfDay(now), dueDate);
+};
+
+/**
+ * Group applications with a pending follow-up by when it is due, soonest first
+ */
+export const buildFollowUpQueue = (applications: JobApplication[], now: Date = new Date()): FollowUpQueue => {
+  const queue: FollowUpQueue = { overdue: [], dueToday: [], upcoming: [] };
+
+  applications
+    .map(application => ({ application, dueDate: getApplicationNextFollowUpDate(application) }))
+    .filter((entry): entry is { application: JobApplication; dueDate: Date } => entry.dueDate !== null)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+    .forEach(({ application, dueDate }) => {
+      const state = getFollowUpDueState(dueDate, now);
+      const entry = { application, dueDate, state };
+      if (state === 'overdue') queue.overdue.push(entry);
+      else if (state === 'due_today') queue.dueToday.push(entry);
+      else queue.upcoming.push(entry);
+    });
+
+  return queue;
+};
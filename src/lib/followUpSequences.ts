@@ -0,0 +1,32 @@
+import { FollowUpSettings } from '@/lib/api';
+import { FollowUpSequence, FollowUpSequenceStep, useFollowUpSequenceStore } from '@/store/followUpSequenceStore';
+
+/**
+ * The sequence assigned to an application's follow-ups. Undefined when none is
+ * assigned, or when it isn't saved in this browser (see isSequenceMissing).
+ */
+export const getAssignedSequence = (settings: FollowUpSettings | undefined): FollowUpSequence | undefined =>
+  settings?.sequence_id ? useFollowUpSequenceStore.getState().getSequence(settings.sequence_id) : undefined;
+
+/**
+ * Whether the application has a sequence this browser doesn't know, e.g. one
+ * made on another device or since deleted. Sequences are only saved locally,
+ * so its delays and emails are unknown here and no follow-up is scheduled
+ * from it until another sequence (or none) is picked.
+ */
+export const isSequenceMissing = (settings: FollowUpSettings | undefined): boolean =>
+  !!settings?.sequence_id && !getAssignedSequence(settings);
+
+/**
+ * Step used for a follow-up number (1-based), undefined past the last step
+ */
+export const getSequenceStep = (
+  sequence: FollowUpSequence | undefined,
+  followUpNumber: number
+): FollowUpSequenceStep | undefined => sequence?.steps[followUpNumber - 1];
+
+/**
+ * Step the next follow-up for these settings will use
+ */
+export const getNextSequenceStep = (settings: FollowUpSettings | undefined): FollowUpSequenceStep | undefined =>
+  getSequenceStep(getAssignedSequence(settings), (settings?.follow_up_count || 0) + 1);
@@ -0,0 +1,193 @@
+import { FollowUpSettings, JobApplication, applicationsApi, followUpsApi } from '@/lib/api';
+import { ApplicationStatus, isClosingStatus } from '@/lib/applicationStatus';
+import { getFollowUpLimit, withNextFollowUpDate } from '@/lib/followUpSchedule';
+import { getNextSequenceStep, isSequenceMissing } from '@/lib/followUpSequences';
+import { getRecipientName } from '@/lib/contacts';
+import { formatPlaceholders, getApplicationValues, renderTemplate } from '@/lib/templateEngine';
+import { TemplateChoice } from '@/lib/templateLibrary';
+import { EmailSettings } from '@/store/emailSettingsStore';
+
+export type FollowUpRequest = Parameters<typeof followUpsApi.create>[0];
+
+// A template picked from the library; sequence steps take precedence over it
+export type FollowUpTemplate = Pick<TemplateChoice, 'subject' | 'body'>;
+
+/**
+ * Why a follow-up can't be sent for this application right now, or null if it can
+ */
+export const getFollowUpBlocker = (app: JobApplication): string | null => {
+  if (app.status !== 'sent') {
+    return `Follow-ups are only sent for applications with status "sent" (this one is "${app.status}")`;
+  }
+
+  if (app.follow_up_settings?.paused) {
+    return "Follow-ups are paused for this application";
+  }
+
+  if (isSequenceMissing(app.follow_up_settings)) {
+    return "This application's follow-up sequence isn't saved in this browser. Pick a sequence in its follow-up settings.";
+  }
+
+  const followUpCount = app.follow_up_settings?.follow_up_count || 0;
+  const maxCount = getFollowUpLimit(app.follow_up_settings);
+  if (followUpCount >= maxCount) {
+    return `Maximum follow-up limit (${maxCount}) has been reached for this application`;
+  }
+
+  return null;
+};
+
+/**
+ * Fill a follow-up template for an application. Follow-ups can go out
+ * unattended, so placeholders nobody fills are dropped rather than sent.
+ */
+const fillFollowUpTemplate = (template: string, app: JobApplication, emailSettings: EmailSettings): string => {
+  const values = getApplicationValues({ ...app, recipient_name: getRecipientName(app) }, emailSettings);
+  const { text, unknown, unfilled } = renderTemplate(template, values, {
+    removeUnfilled: true
+  });
+  if (unknown.length > 0 || unfilled.length > 0) {
+    console.warn(`Follow-up for ${app.company} left out ${formatPlaceholders([...unknown, ...unfilled])}`);
+  }
+  return text;
+};
+
+/**
+ * Follow-up email body: the sequence step's template when the application has
+ * a sequence, else the picked library template, else the saved follow-up
+ * template, or a default message
+ */
+export const buildFollowUpContent = (
+  app: JobApplication,
+  emailSettings: EmailSettings,
+  libraryTemplate?: FollowUpTemplate
+): string => {
+  const step = getNextSequenceStep(app.follow_up_settings);
+  const template = step?.body || libraryTemplate?.body || emailSettings.templates?.followUp;
+
+  if (template) {
+    // Use the template with replacements
+    return fillFollowUpTemplate(template, app, emailSettings);
+  }
+
+  // Use default follow-up content if no template
+  return fillFollowUpTemplate(`Dear {recipientName},
+
+I hope this email finds you well. I wanted to follow up regarding my application for the {position} position at {company} that I submitted on {applicationDate}.
+
+I remain very interested in this opportunity and would appreciate any updates you might have regarding the status of my application.
+
+Thank you for your time and consideration.
+
+Best regards,
+{senderName}`, app, emailSettings);
+};
+
+/**
+ * Follow-up subject, following the sequence step's subject strategy.
+ * Without a sequence it uses the library template's subject, if it has one,
+ * or replies to the original email.
+ */
+export const buildFollowUpSubject = (
+  app: JobApplication,
+  emailSettings: EmailSettings,
+  libraryTemplate?: FollowUpTemplate
+): string => {
+  const step = getNextSequenceStep(app.follow_up_settings);
+  if (!step && libraryTemplate?.subject.trim()) {
+    return fillFollowUpTemplate(libraryTemplate.subject, app, emailSettings);
+  }
+
+  switch (step?.subjectStrategy) {
+    case 'original':
+      return app.subject;
+    case 'custom':
+      if (step.subject.trim()) {
+        return fillFollowUpTemplate(step.subject, app, emailSettings);
+      }
+      return `Re: ${app.subject}`;
+    default:
+      return `Re: ${app.subject}`;
+  }
+};
+
+/**
+ * Everything the backend needs to create and send a follow-up for an application
+ */
+export const buildFollowUpRequest = (
+  app: JobApplication,
+  emailSettings: EmailSettings,
+  libraryTemplate?: FollowUpTemplate
+): FollowUpRequest => ({
+  recipient_email: app.recipient_email,
+  company: app.company,
+  position: app.position,
+  subject: buildFollowUpSubject(app, emailSettings, libraryTemplate),
+  content: buildFollowUpContent(app, emailSettings, libraryTemplate),
+  status: "sent",
+  follow_up_settings: app.follow_up_settings,
+  full_name: app.full_name,
+  portfolio_url: app.portfolio_url,
+  linkedin_url: app.linkedin_url,
+  original_application_id: app._id,
+  // Add email settings for SMTP sending
+  sender_email: emailSettings.senderEmail,
+  sender_name: emailSettings.senderName,
+  sender_password: emailSettings.senderPassword,
+  smtp_server: emailSettings.smtpServer,
+  smtp_port: emailSettings.smtpPort
+});
+
+/**
+ * Stop further follow-ups by capping the maximum at the current count
+ */
+export const capFollowUps = (settings: FollowUpSettings): FollowUpSettings => ({
+  ...settings,
+  type: 'one_time', // No more follow-ups needed
+  max_count: settings.follow_up_count, // Cap at current count
+  next_follow_up_date: null,
+});
+
+/**
+ * Follow-up settings as they will be after a status change
+ */
+export const settingsAfterStatusChange = (
+  settings: FollowUpSettings | undefined,
+  status: ApplicationStatus
+): FollowUpSettings | undefined =>
+  isClosingStatus(status) && settings ? capFollowUps(settings) : settings;
+
+/**
+ * Change an application's status. Closing statuses (rejected, accepted, ...)
+ * also cap follow-ups at the current count.
+ */
+export const changeApplicationStatus = async (application: JobApplication, status: ApplicationStatus): Promise<void> => {
+  await applicationsApi.updateStatus(application._id, status, application);
+
+  if (isClosingStatus(status) && application.follow_up_settings) {
+    await applicationsApi.updateFollowUpSettings(application._id, capFollowUps(application.follow_up_settings));
+  }
+};
+
+/**
+ * Create (and send) a follow-up, then record it on the original application
+ */
+export const sendFollowUp = async (application: JobApplication, followUp: FollowUpRequest) => {
+  const result = await followUpsApi.create(followUp);
+
+  // Count the follow-up and move the schedule on to the next one
+  const updatedSettings = withNextFollowUpDate({
+    ...application.follow_up_settings,
+    follow_up_count: (application.follow_up_settings?.follow_up_count || 0) + 1,
+    last_follow_up_date: new Date().toISOString()
+  }, application.sent_at);
+
+  try {
+    await applicationsApi.updateFollowUpSettings(application._id, updatedSettings);
+  } catch (settingsError) {
+    // The follow-up itself went out; the count is corrected on the next refetch
+    console.error("Failed to update follow-up settings in application:", settingsError);
+  }
+
+  return result;
+};
@@ -0,0 +1,29 @@
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { isApiError } from '@/services/apiErrors';
+
+/**
+ * Map the field errors of a validation ApiError onto react-hook-form fields
+ * @param error - The caught error
+ * @param setError - The form's setError function
+ * @param fields - Field names the form knows about
+ * @returns True if at least one form field received an error
+ */
+export function applyApiFieldErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly string[]
+): boolean {
+  if (!isApiError(error, 'validation') || error.error.code !== 'validation') {
+    return false;
+  }
+
+  let applied = false;
+  Object.entries(error.error.fieldErrors).forEach(([field, message]) => {
+    if (fields.includes(field)) {
+      setError(field as Path<T>, { type: 'server', message });
+      applied = true;
+    }
+  });
+
+  return applied;
+}
@@ -0,0 +1,59 @@
+import { JobApplication } from '@/lib/api';
+import { getDueScheduledSends, getScheduleError, sortByScheduledAt } from '@/lib/scheduledSends';
+import { makeApplication } from '@/test/fixtures';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+// Applications waiting to be sent, unless a test says otherwise
+const makeScheduled = (overrides: Partial<JobApplication>): JobApplication =>
+  makeApplication({ status: 'scheduled', ...overrides });
+
+describe('getScheduleError', () => {
+  it('requires a valid date', () => {
+    expect(getScheduleError(undefined, NOW)).toBe('Pick a date and time');
+    expect(getScheduleError(new Date('not a date'), NOW)).toBe('Pick a date and time');
+  });
+
+  it('rejects times in the past or less than a minute away', () => {
+    expect(getScheduleError(new Date('2026-03-10T11:00:00Z'), NOW)).toBe('Pick a time in the future');
+    expect(getScheduleError(new Date('2026-03-10T12:00:30Z'), NOW)).toBe('Pick a time in the future');
+  });
+
+  it('accepts times at least a minute away', () => {
+    expect(getScheduleError(new Date('2026-03-10T12:01:00Z'), NOW)).toBeNull();
+    expect(getScheduleError(new Date('2026-03-11T09:00:00Z'), NOW)).toBeNull();
+  });
+});
+
+describe('sortByScheduledAt', () => {
+  it('orders applications soonest first without changing the input', () => {
+    const later = makeScheduled({ _id: 'later', scheduled_at: '2026-03-12T09:00:00Z' });
+    const sooner = makeScheduled({ _id: 'sooner', scheduled_at: '2026-03-11T09:00:00Z' });
+    const applications = [later, sooner];
+
+    expect(sortByScheduledAt(applications).map(app => app._id)).toEqual(['sooner', 'later']);
+    expect(applications.map(app => app._id)).toEqual(['later', 'sooner']);
+  });
+});
+
+describe('getDueScheduledSends', () => {
+  it('returns scheduled applications whose time has come, earliest first', () => {
+    const applications = [
+      makeScheduled({ _id: 'now', scheduled_at: '2026-03-10T12:00:00Z' }),
+      makeScheduled({ _id: 'overdue', scheduled_at: '2026-03-09T08:00:00Z' }),
+      makeScheduled({ _id: 'future', scheduled_at: '2026-03-10T12:00:01Z' }),
+    ];
+
+    expect(getDueScheduledSends(applications, NOW).map(app => app._id)).toEqual(['overdue', 'now']);
+  });
+
+  it('skips applications that are no longer scheduled or have no send time', () => {
+    const applications = [
+      makeScheduled({ _id: 'processing', status: 'processing', scheduled_at: '2026-03-09T08:00:00Z' }),
+      makeScheduled({ _id: 'draft', status: 'draft', scheduled_at: '2026-03-09T08:00:00Z' }),
+      makeScheduled({ _id: 'unscheduled', scheduled_at: null }),
+    ];
+
+    expect(getDueScheduledSends(applications, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import { addMinutes, isBefore } from 'date-fns';
+import { ApplicationFilters, JobApplication, applicationsApi } from '@/lib/api';
+import { EmailSettings } from '@/store/emailSettingsStore';
+
+// Every application waiting for its scheduled send time
+export const SCHEDULED_FILTERS: ApplicationFilters = { status: 'scheduled' };
+
+// A send time this close to now might pass before the schedule is even saved
+const MIN_LEAD_MINUTES = 1;
+
+export type SenderSettings = Parameters<typeof applicationsApi.convertDraft>[1];
+
+/**
+ * Sender settings for the send path from the saved email settings
+ */
+export const toSenderSettings = (settings: EmailSettings): SenderSettings => ({
+  sender_email: settings.senderEmail,
+  sender_name: settings.senderName,
+  sender_password: settings.senderPassword,
+  smtp_server: settings.smtpServer,
+  smtp_port: settings.smtpPort
+});
+
+/**
+ * Why a send time can't be used, or null when it can
+ */
+export const getScheduleError = (date: Date | undefined, now: Date = new Date()): string | null => {
+  if (!date || isNaN(date.getTime())) return "Pick a date and time";
+  if (isBefore(date, addMinutes(now, MIN_LEAD_MINUTES))) return "Pick a time in the future";
+  return null;
+};
+
+/**
+ * Scheduled applications, soonest send first
+ */
+export const sortByScheduledAt = (applications: JobApplication[]): JobApplication[] =>
+  [...applications].sort((a, b) => new Date(a.scheduled_at ?? 0).getTime() - new Date(b.scheduled_at ?? 0).getTime());
+
+/**
+ * Scheduled applications whose send time has come, earliest first
+ */
+export const getDueScheduledSends = (applications: JobApplication[], now: Date = new Date()): JobApplication[] =>
+  sortByScheduledAt(applications).filter(app =>
+    app.status === 'scheduled' && !!app.scheduled_at && !isBefore(now, new Date(app.scheduled_at))
+  );
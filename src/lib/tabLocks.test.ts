@@ -0,0 +1,89 @@
+/**
+ * @jest-environment jsdom
+ */
+import { randomUUID } from 'crypto';
+import type * as TabLocksModule from '@/lib/tabLocks';
+
+// jsdom's crypto has no randomUUID
+if (!globalThis.crypto.randomUUID) {
+  Object.defineProperty(globalThis.crypto, 'randomUUID', { value: randomUUID });
+}
+
+// Each load of the module stands for a separate tab
+const openTab = (): typeof TabLocksModule => {
+  let tab: typeof TabLocksModule | undefined;
+  jest.isolateModules(() => {
+    tab = jest.requireActual<typeof TabLocksModule>('@/lib/tabLocks');
+  });
+  if (!tab) throw new Error('Failed to load tabLocks');
+  return tab;
+};
+
+describe('tabLocks', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.useRealTimers();
+  });
+
+  it('lets only one tab take a lock', () => {
+    const first = openTab();
+    const second = openTab();
+
+    expect(first.acquireLock('send:1', 60000)).toBe(true);
+    expect(second.acquireLock('send:1', 60000)).toBe(false);
+    expect(second.acquireLock('send:2', 60000)).toBe(true);
+    expect(first.getHeldLocks()).toEqual(['send:1', 'send:2']);
+  });
+
+  it('does not hand the same lock out twice within a tab', () => {
+    const tab = openTab();
+
+    expect(tab.acquireLock('send:1', 60000)).toBe(true);
+    expect(tab.acquireLock('send:1', 60000)).toBe(false);
+  });
+
+  it('renews a lock held by the same tab only', () => {
+    const first = openTab();
+    const second = openTab();
+
+    expect(first.holdLock('dispatcher', 60000)).toBe(true);
+    expect(first.holdLock('dispatcher', 60000)).toBe(true);
+    expect(second.holdLock('dispatcher', 60000)).toBe(false);
+  });
+
+  it('frees a lock when its tab releases it', () => {
+    const first = openTab();
+    const second = openTab();
+    first.acquireLock('send:1', 60000);
+
+    second.releaseLock('send:1');
+    expect(first.getHeldLocks()).toEqual(['send:1']);
+
+    first.releaseLock('send:1');
+    expect(second.acquireLock('send:1', 60000)).toBe(true);
+  });
+
+  it('frees a lock once it expires', () => {
+    jest.useFakeTimers({ now: new Date('2026-03-10T12:00:00Z') });
+    const first = openTab();
+    const second = openTab();
+    first.acquireLock('send:1', 60000);
+
+    jest.setSystemTime(new Date('2026-03-10T12:01:01Z'));
+    expect(first.getHeldLocks()).toEqual([]);
+    expect(second.acquireLock('send:1', 60000)).toBe(true);
+  });
+
+  it('notifies subscribers when locks change', () => {
+    const tab = openTab();
+    const listener = jest.fn();
+    const unsubscribe = tab.subscribeToLocks(listener);
+
+    tab.acquireLock('send:1', 60000);
+    tab.releaseLock('send:1');
+    unsubscribe();
+    tab.acquireLock('send:2', 60000);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,92 @@
+// Locks shared by every tab of this browser through localStorage, so work that
+// must happen once (sending an application, running the scheduled-send
+// dispatcher) isn't done by two tabs at the same time. Locks expire, so one
+// held by a tab that was closed mid-way is freed on its own.
+
+const STORAGE_KEY = 'tab-locks';
+
+// Identifies this tab's locks; a reload counts as a new tab
+const TAB_ID = crypto.randomUUID();
+
+interface TabLock {
+  owner: string;
+  expiresAt: number;
+}
+
+type TabLocks = Record<string, TabLock>;
+
+const listeners = new Set<() => void>();
+
+/**
+ * Raw lock state, which changes exactly when the locks do
+ */
+export const getLocksSnapshot = (): string => localStorage.getItem(STORAGE_KEY) ?? '';
+
+const parseLocks = (snapshot: string, now: number): TabLocks => {
+  try {
+    const locks: TabLocks = JSON.parse(snapshot || '{}');
+    return Object.fromEntries(Object.entries(locks).filter(([, lock]) => lock.expiresAt > now));
+  } catch {
+    return {};
+  }
+};
+
+const readLocks = (now: number = Date.now()): TabLocks => parseLocks(getLocksSnapshot(), now);
+
+const writeLocks = (locks: TabLocks) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(locks));
+  listeners.forEach(listener => listener());
+};
+
+const takeLock = (name: string, ttlMs: number, renew: boolean): boolean => {
+  const now = Date.now();
+  const locks = readLocks(now);
+  const current = locks[name];
+  if (current && !(renew && current.owner === TAB_ID)) return false;
+
+  writeLocks({ ...locks, [name]: { owner: TAB_ID, expiresAt: now + ttlMs } });
+  return true;
+};
+
+/**
+ * Take a lock. False when it's already held, by this tab or another.
+ */
+export const acquireLock = (name: string, ttlMs: number): boolean => takeLock(name, ttlMs, false);
+
+/**
+ * Take a lock, or extend it when this tab already holds it. False when
+ * another tab holds it.
+ */
+export const holdLock = (name: string, ttlMs: number): boolean => takeLock(name, ttlMs, true);
+
+/**
+ * Give up a lock this tab holds
+ */
+export const releaseLock = (name: string): void => {
+  const locks = readLocks();
+  if (locks[name]?.owner !== TAB_ID) return;
+
+  delete locks[name];
+  writeLocks(locks);
+};
+
+/**
+ * Names of the locks held by any tab, now or in an earlier snapshot
+ */
+export const getHeldLocks = (snapshot: string = getLocksSnapshot()): string[] =>
+  Object.keys(parseLocks(snapshot, Date.now()));
+
+/**
+ * Call the listener whenever a lock is taken or released, in any tab
+ */
+export const subscribeToLocks = (listener: () => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
@@ -0,0 +1,98 @@
+import {
+  findTemplateIssues,
+  getApplicationValues,
+  getTemplatePlaceholders,
+  renderTemplate,
+  splitPlaceholders,
+} from '@/lib/templateEngine';
+
+describe('renderTemplate', () => {
+  it('fills variables with their values', () => {
+    expect(renderTemplate('Applying to {company} as {position}', { company: 'Acme', position: 'Engineer' })).toEqual({
+      text: 'Applying to Acme as Engineer',
+      unknown: [],
+      unfilled: [],
+    });
+  });
+
+  it('falls back to the inline default, then the catalog default', () => {
+    expect(renderTemplate('Dear {recipientName|team}', {}).text).toBe('Dear team');
+    expect(renderTemplate('Dear {recipientName}', { recipientName: '  ' }).text).toBe('Dear Hiring Manager');
+  });
+
+  it('reports and keeps placeholders it cannot fill', () => {
+    expect(renderTemplate('{company} needs {skill}', {})).toEqual({
+      text: '{company} needs {skill}',
+      unknown: ['skill'],
+      unfilled: ['company'],
+    });
+  });
+
+  it('drops placeholders it cannot fill when asked to', () => {
+    expect(renderTemplate('At {company}{skill}.', {}, { removeUnfilled: true }).text).toBe('At .');
+  });
+
+  it('keeps conditional blocks only when the variable has a value', () => {
+    const template = 'Hi{#if portfolioUrl}, see {portfolioUrl}{else}, no portfolio{/if}.';
+    expect(renderTemplate(template, { portfolioUrl: 'https://me.dev' }).text).toBe('Hi, see https://me.dev.');
+    expect(renderTemplate(template, {}).text).toBe('Hi, no portfolio.');
+    expect(renderTemplate('A{#if linkedinUrl} {linkedinUrl}{/if}', {}).text).toBe('A');
+  });
+
+  it('does not leave runs of blank lines behind skipped blocks', () => {
+    expect(renderTemplate('Hi\n\n{#if portfolioUrl}{portfolioUrl}{/if}\n\nBye', {}).text).toBe('Hi\n\nBye');
+  });
+
+  it('reports unknown conditional variables once', () => {
+    expect(renderTemplate('{#if team}{team}{/if}{team}', {}).unknown).toEqual(['team']);
+  });
+});
+
+describe('getTemplatePlaceholders', () => {
+  it('lists every variable once, including those in conditionals', () => {
+    expect(getTemplatePlaceholders('{company} {#if portfolioUrl}{portfolioUrl} {skill}{else}{team|x}{/if} {company}')).toEqual([
+      'portfolioUrl',
+      'company',
+      'skill',
+      'team',
+    ]);
+  });
+});
+
+describe('findTemplateIssues', () => {
+  it('reports unknown variables and ones the send path does not provide', () => {
+    expect(findTemplateIssues('{company} {previousEmail} {skill}', 'application')).toEqual({
+      unknown: ['skill'],
+      unavailable: ['previousEmail'],
+    });
+  });
+
+  it('accepts unavailable variables that have a default', () => {
+    expect(findTemplateIssues('{customMessage}', 'followUp')).toEqual({ unknown: [], unavailable: [] });
+  });
+});
+
+describe('splitPlaceholders', () => {
+  it('splits text around leftover placeholders', () => {
+    expect(splitPlaceholders('Hi {name}, about {skill|x}!')).toEqual([
+      { text: 'Hi ' },
+      { text: '{name}', placeholder: 'name' },
+      { text: ', about ' },
+      { text: '{skill|x}', placeholder: 'skill' },
+      { text: '!' },
+    ]);
+  });
+});
+
+describe('getApplicationValues', () => {
+  it('takes the sender from the application before the email settings', () => {
+    const settings = { senderName: 'Settings Name', senderEmail: 'settings@example.com' };
+
+    expect(getApplicationValues({ full_name: 'Alex Johnson', company: 'Acme' }, settings)).toMatchObject({
+      company: 'Acme',
+      senderName: 'Alex Johnson',
+      senderEmail: 'settings@example.com',
+    });
+    expect(getApplicationValues({}, settings).senderName).toBe('Settings Name');
+  });
+});
@@ -0,0 +1,259 @@
+import { format } from 'date-fns';
+import { JobApplication } from '@/lib/api';
+import { safeFormatDate } from '@/lib/utils';
+import type { EmailSettings } from '@/store/emailSettingsStore';
+
+/**
+ * Template syntax:
+ * - {name} is replaced with the variable's value, or its catalog default
+ * - {name|text} falls back to "text" when the variable is empty
+ * - {#if name}...{/if} (optionally with {else}) keeps a block only when the variable has a value
+ * Blocks don't nest. Placeholders that can't be filled are left in the text and reported.
+ */
+
+// Which send path renders a template: first applications, or follow-ups
+export type TemplateContext = 'application' | 'followUp';
+
+export interface TemplateVariableDefinition {
+  label: string;
+  description: string;
+  example: string; // Sample value for previews
+  fallback?: string; // Used when the value is missing
+  contexts: readonly TemplateContext[]; // Send paths that provide a value
+}
+
+export const TEMPLATE_VARIABLES = {
+  recipientName: {
+    label: 'Recipient name',
+    description: "Name of the person you're writing to",
+    example: 'Jane Smith',
+    fallback: 'Hiring Manager',
+    contexts: ['application', 'followUp'],
+  },
+  company: {
+    label: 'Company',
+    description: 'Company you are applying to',
+    example: 'Acme Corp',
+    contexts: ['application', 'followUp'],
+  },
+  position: {
+    label: 'Position',
+    description: 'Job title you are applying for',
+    example: 'Frontend Engineer',
+    contexts: ['application', 'followUp'],
+  },
+  senderName: {
+    label: 'Your name',
+    description: 'Your full name, from the application or your profile',
+    example: 'Alex Johnson',
+    fallback: 'Job Applicant',
+    contexts: ['application', 'followUp'],
+  },
+  senderEmail: {
+    label: 'Your email',
+    description: 'The address emails are sent from',
+    example: 'alex@example.com',
+    contexts: ['application', 'followUp'],
+  },
+  portfolioUrl: {
+    label: 'Portfolio URL',
+    description: 'Link to your portfolio, when provided',
+    example: 'https://alexjohnson.dev',
+    contexts: ['application', 'followUp'],
+  },
+  linkedinUrl: {
+    label: 'LinkedIn URL',
+    description: 'Link to your LinkedIn profile, when provided',
+    example: 'https://linkedin.com/in/alexjohnson',
+    contexts: ['application', 'followUp'],
+  },
+  customMessage: {
+    label: 'Custom message',
+    description: 'A personal paragraph for this application',
+    example: 'I have followed your work on design systems for years.',
+    fallback: 'I am excited about the opportunity to contribute to your team and am eager to discuss how my background aligns with your needs.',
+    contexts: ['application'],
+  },
+  applicationDate: {
+    label: 'Application date',
+    description: 'When the original application was sent',
+    example: 'Jan 5, 2026',
+    contexts: ['followUp'],
+  },
+  previousEmail: {
+    label: 'Previous email',
+    description: 'The original application text',
+    example: 'Dear Hiring Manager, ...',
+    contexts: ['followUp'],
+  },
+  today: {
+    label: "Today's date",
+    description: 'The date the email is sent',
+    example: 'Jan 12, 2026',
+    contexts: ['application', 'followUp'],
+  },
+} satisfies Record<string, TemplateVariableDefinition>;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+export type TemplateValues = Partial<Record<TemplateVariable, string | null | undefined>>;
+
+export interface RenderResult {
+  text: string;
+  unknown: string[]; // Placeholders that aren't in the catalog
+  unfilled: TemplateVariable[]; // Known variables with no value and no default
+}
+
+export interface RenderOptions {
+  // Drop placeholders that can't be filled instead of leaving them in the text,
+  // for emails that go out without anyone reviewing them
+  removeUnfilled?: boolean;
+}
+
+const CONDITIONAL_PATTERN = /\{#if (\w+)\}([\s\S]*?)(?:\{else\}([\s\S]*?))?\{\/if\}/g;
+const PLACEHOLDER_PATTERN = /\{(\w+)(?:\|([^{}]*))?\}/g;
+
+export const isTemplateVariable = (name: string): name is TemplateVariable =>
+  Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLES, name);
+
+export const getTemplateVariableDefinition = (name: TemplateVariable): TemplateVariableDefinition =>
+  TEMPLATE_VARIABLES[name];
+
+/**
+ * Variables the given send path fills in
+ */
+export const getContextVariables = (context: TemplateContext): TemplateVariable[] =>
+  (Object.keys(TEMPLATE_VARIABLES) as TemplateVariable[]).filter(name =>
+    getTemplateVariableDefinition(name).contexts.includes(context)
+  );
+
+const getValue = (values: TemplateValues, name: string): string =>
+  isTemplateVariable(name) ? (values[name] ?? '').trim() : '';
+
+const unique = <T,>(items: T[]): T[] => [...new Set(items)];
+
+/**
+ * Fill a template's variables and conditionals
+ */
+export const renderTemplate = (
+  template: string,
+  values: TemplateValues,
+  options: RenderOptions = {}
+): RenderResult => {
+  const unknown: string[] = [];
+  const unfilled: TemplateVariable[] = [];
+
+  const withConditionals = template.replace(
+    CONDITIONAL_PATTERN,
+    (_match, name: string, then: string, otherwise: string | undefined) => {
+      if (!isTemplateVariable(name)) unknown.push(name);
+      return getValue(values, name) ? then : otherwise ?? '';
+    }
+  );
+
+  const text = withConditionals.replace(PLACEHOLDER_PATTERN, (match, name: string, inlineDefault: string | undefined) => {
+    if (!isTemplateVariable(name)) {
+      unknown.push(name);
+      return options.removeUnfilled ? '' : match;
+    }
+
+    const value = getValue(values, name) || inlineDefault || getTemplateVariableDefinition(name).fallback;
+    if (value !== undefined) return value;
+
+    unfilled.push(name);
+    return options.removeUnfilled ? '' : match;
+  });
+
+  return {
+    // Skipped conditional blocks shouldn't leave gaps of blank lines
+    text: text.replace(/\n{3,}/g, '\n\n'),
+    unknown: unique(unknown),
+    unfilled: unique(unfilled),
+  };
+};
+
+/**
+ * Every variable name a template refers to, known or not
+ */
+export const getTemplatePlaceholders = (template: string): string[] => {
+  const names = [
+    ...Array.from(template.matchAll(CONDITIONAL_PATTERN), match => match[1]),
+    ...Array.from(template.replace(CONDITIONAL_PATTERN, '$2$3').matchAll(PLACEHOLDER_PATTERN), match => match[1]),
+  ];
+  return unique(names);
+};
+
+export interface TemplateIssues {
+  unknown: string[]; // Not in the catalog, so never filled
+  unavailable: TemplateVariable[]; // Known, but this send path doesn't provide them
+}
+
+/**
+ * Placeholders in a template that nobody will fill when it is sent
+ */
+export const findTemplateIssues = (template: string, context: TemplateContext): TemplateIssues => {
+  const placeholders = getTemplatePlaceholders(template);
+  const available = getContextVariables(context);
+
+  return {
+    unknown: placeholders.filter(name => !isTemplateVariable(name)),
+    unavailable: placeholders.filter(isTemplateVariable).filter(name =>
+      !available.includes(name) && getTemplateVariableDefinition(name).fallback === undefined
+    ),
+  };
+};
+
+export interface TextSegment {
+  text: string;
+  placeholder?: string; // Set when the segment is a leftover {placeholder}
+}
+
+/**
+ * Split text around the placeholders left in it, for highlighting them
+ */
+export const splitPlaceholders = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ text: text.slice(last, index) });
+    segments.push({ text: match[0], placeholder: match[1] });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+
+  return segments;
+};
+
+/**
+ * Readable list of placeholders, e.g. "{skill}, {team}"
+ */
+export const formatPlaceholders = (names: string[]): string => names.map(name => `{${name}}`).join(', ');
+
+/**
+ * Sample values for every variable, for previews
+ */
+export const getExampleValues = (): TemplateValues =>
+  Object.fromEntries(
+    (Object.keys(TEMPLATE_VARIABLES) as TemplateVariable[]).map(name => [name, getTemplateVariableDefinition(name).example])
+  );
+
+/**
+ * Template values for an application (saved or still being written)
+ */
+export const getApplicationValues = (
+  application: Partial<JobApplication>,
+  emailSettings: Pick<EmailSettings, 'senderName' | 'senderEmail'>
+): TemplateValues => ({
+  recipientName: application.recipient_name,
+  company: application.company,
+  position: application.position,
+  senderName: application.full_name || emailSettings.senderName,
+  senderEmail: application.sender_email || emailSettings.senderEmail,
+  portfolioUrl: application.portfolio_url,
+  linkedinUrl: application.linkedin_url,
+  applicationDate: safeFormatDate(application.sent_at || application.created_at),
+  previousEmail: application.content,
+  today: format(new Date(), 'PP'),
+});
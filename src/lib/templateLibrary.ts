@@ -0,0 +1,154 @@
+import { JobApplication } from '@/lib/api';
+import { TemplateValues, renderTemplate } from '@/lib/templateEngine';
+import { hasVariants } from '@/lib/templateVariants';
+import { EmailSettings, EmailTemplate, EmailTemplateType, TemplateVariant } from '@/store/emailSettingsStore';
+import { UNKNOWN_AUTHOR, getContentHash, useTemplateVersionStore } from '@/store/templateVersionStore';
+
+// A template the composer can apply: one from the library, or the one saved in Settings
+export interface TemplateChoice {
+  id: string;
+  templateId?: string; // Library template id; unset for the Settings template
+  name: string;
+  subject: string; // Empty means "keep the usual subject" (e.g. Re: for follow-ups)
+  body: string;
+  isDefault: boolean;
+  weight?: number; // Share of the main wording when A/B testing
+  variants?: TemplateVariant[];
+}
+
+export const SETTINGS_TEMPLATE_ID = 'settings-default';
+
+export const TEMPLATE_TYPE_LABELS: Record<EmailTemplateType, { singular: string; plural: string }> = {
+  [EmailTemplateType.JOB_APPLICATION]: { singular: 'Job Application', plural: 'Job Applications' },
+  [EmailTemplateType.FOLLOW_UP]: { singular: 'Follow-up', plural: 'Follow-ups' },
+  [EmailTemplateType.COVER_LETTER]: { singular: 'Cover Letter', plural: 'Cover Letters' },
+};
+
+const SETTINGS_TEMPLATE_SUBJECTS: Record<EmailTemplateType, string> = {
+  [EmailTemplateType.JOB_APPLICATION]: 'Application for {position} position at {company}',
+  [EmailTemplateType.FOLLOW_UP]: '',
+  // Cover letters use the subject as the document title
+  [EmailTemplateType.COVER_LETTER]: 'Cover letter - {position} at {company}',
+};
+
+// Settings has no cover letter, so this one is always offered
+const DEFAULT_COVER_LETTER = `{senderName}
+{today}
+
+Dear {recipientName},
+
+I am writing to apply for the {position} position at {company}. {customMessage}
+
+Throughout my career I have focused on delivering high-quality work, collaborating closely with my teammates and continually growing my skills. I am confident that this experience would allow me to contribute to {company} from day one.{#if portfolioUrl}
+
+You can find examples of my work at {portfolioUrl}.{/if}
+
+Thank you for considering my application. I would welcome the opportunity to discuss how I can help your team.
+
+Sincerely,
+{senderName}`;
+
+const getSettingsBody = (type: EmailTemplateType, emailSettings: Pick<EmailSettings, 'templates'>): string | undefined => {
+  switch (type) {
+    case EmailTemplateType.FOLLOW_UP:
+      return emailSettings.templates?.followUp;
+    case EmailTemplateType.COVER_LETTER:
+      return DEFAULT_COVER_LETTER;
+    default:
+      return emailSettings.templates?.jobApplication;
+  }
+};
+
+/**
+ * Templates of a type to pick from: the library's, then the default template
+ * from Settings as a fallback
+ */
+export const getTemplateChoices = (
+  library: EmailTemplate[] | undefined,
+  type: EmailTemplateType,
+  emailSettings: Pick<EmailSettings, 'templates'>
+): TemplateChoice[] => {
+  const choices: TemplateChoice[] = (library ?? [])
+    .filter(template => template.type === type)
+    .map(template => ({
+      id: template._id ?? template.name,
+      templateId: template._id,
+      name: template.name,
+      subject: template.subject,
+      body: template.body,
+      isDefault: template.isDefault,
+      weight: template.weight,
+      variants: template.variants,
+    }));
+
+  const settingsBody = getSettingsBody(type, emailSettings);
+  if (settingsBody) {
+    choices.push({
+      id: SETTINGS_TEMPLATE_ID,
+      name: type === EmailTemplateType.COVER_LETTER ? 'Basic cover letter' : 'Basic template (Settings)',
+      subject: SETTINGS_TEMPLATE_SUBJECTS[type],
+      body: settingsBody,
+      isDefault: false,
+    });
+  }
+
+  return choices;
+};
+
+/**
+ * The template to preselect: the library default, else the first one
+ */
+export const getDefaultChoice = (choices: TemplateChoice[]): TemplateChoice | undefined =>
+  choices.find(choice => choice.isDefault) ?? choices[0];
+
+export interface RenderedChoice {
+  subject: string | null; // Null when the template leaves the subject alone
+  body: string;
+  leftOver: string[]; // Placeholders that still need filling in by hand
+}
+
+/**
+ * Subject and body of a template, filled together
+ */
+export const renderTemplateChoice = (
+  choice: Pick<TemplateChoice, 'subject' | 'body'>,
+  values: TemplateValues
+): RenderedChoice => {
+  const subject = choice.subject.trim() ? renderTemplate(choice.subject, values) : null;
+  const body = renderTemplate(choice.body, values);
+
+  return {
+    subject: subject?.text ?? null,
+    body: body.text,
+    leftOver: [...new Set([...(subject?.unknown ?? []), ...(subject?.unfilled ?? []), ...body.unknown, ...body.unfilled])],
+  };
+};
+
+export type TemplateSource = Pick<
+  JobApplication,
+  'template_id' | 'template_version' | 'template_content_hash' | 'template_variant' | 'template_variant_name'
+>;
+
+/**
+ * Which library template version (and A/B variant, when the template has
+ * variants) an email was written from, for recording on the application.
+ * A template changed outside this app gets a new version here.
+ */
+export const getTemplateSource = (choice: TemplateChoice, variant?: TemplateVariant): TemplateSource => {
+  if (!choice.templateId) {
+    return { template_id: null, template_version: null, template_content_hash: null, template_variant: null, template_variant_name: null };
+  }
+
+  const version = useTemplateVersionStore.getState().recordVersion(
+    { _id: choice.templateId, name: choice.name, subject: choice.subject, body: choice.body },
+    UNKNOWN_AUTHOR
+  );
+  const isTest = variant !== undefined && hasVariants(choice);
+  return {
+    template_id: choice.templateId,
+    template_version: version?.version ?? null,
+    template_content_hash: getContentHash(choice),
+    template_variant: isTest ? variant.id : null,
+    template_variant_name: isTest ? variant.name : null,
+  };
+};
@@ -0,0 +1,64 @@
+import { EmailTemplate, TemplateVariant } from '@/store/emailSettingsStore';
+
+// The template's own subject and body count as variant A
+export const MAIN_VARIANT_ID = 'main';
+export const MAIN_VARIANT_NAME = 'A';
+
+const DEFAULT_WEIGHT = 1;
+
+type VariantSource = Pick<EmailTemplate, 'subject' | 'body' | 'weight' | 'variants'>;
+
+/**
+ * Letter name for the variant at a position (A is the main wording)
+ */
+export const getVariantName = (index: number): string => String.fromCharCode(65 + (index % 26));
+
+export const createVariant = (variant: Partial<TemplateVariant> = {}): TemplateVariant => ({
+  id: crypto.randomUUID(),
+  name: '',
+  subject: '',
+  body: '',
+  weight: DEFAULT_WEIGHT,
+  ...variant,
+});
+
+export const hasVariants = (template: VariantSource): boolean => (template.variants?.length ?? 0) > 0;
+
+/**
+ * Every wording of a template, the main one first. Without variants this is
+ * just the main wording.
+ */
+export const getAllVariants = (template: VariantSource): TemplateVariant[] => [
+  {
+    id: MAIN_VARIANT_ID,
+    name: MAIN_VARIANT_NAME,
+    subject: template.subject,
+    body: template.body,
+    weight: template.weight ?? DEFAULT_WEIGHT,
+  },
+  ...(template.variants ?? []),
+];
+
+/**
+ * Share of sends each wording gets, 0-1, in the same order as getAllVariants
+ */
+export const getVariantShares = (template: VariantSource): number[] => {
+  const weights = getAllVariants(template).map(variant => Math.max(0, variant.weight));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => (total > 0 ? weight / total : 1 / weights.length));
+};
+
+/**
+ * Pick a wording at random in proportion to the weights
+ */
+export const pickVariant = (template: VariantSource, random: () => number = Math.random): TemplateVariant => {
+  const variants = getAllVariants(template);
+  const shares = getVariantShares(template);
+
+  let roll = random();
+  for (let i = 0; i < variants.length; i++) {
+    roll -= shares[i];
+    if (roll < 0) return variants[i];
+  }
+  return variants[variants.length - 1];
+};
@@ -0,0 +1,44 @@
+import { fromZonedTime, getZonedParts, isValidTimeZone, toDateKey } from '@/lib/zonedTime';
+
+describe('getZonedParts', () => {
+  it('reads the wall-clock date and weekday in a time zone', () => {
+    expect(getZonedParts(new Date('2026-03-06T23:00:00Z'), 'Asia/Tokyo')).toEqual({
+      year: 2026, month: 3, day: 7, hour: 8, minute: 0, weekday: 6,
+    });
+    expect(getZonedParts(new Date('2026-03-06T23:00:00Z'), 'America/New_York')).toEqual({
+      year: 2026, month: 3, day: 6, hour: 18, minute: 0, weekday: 5,
+    });
+  });
+
+  it('uses 0 for midnight', () => {
+    expect(getZonedParts(new Date('2026-03-06T00:30:00Z'), 'UTC').hour).toBe(0);
+  });
+});
+
+describe('fromZonedTime', () => {
+  it('finds the instant a time zone shows a wall-clock time', () => {
+    expect(fromZonedTime(2026, 3, 6, 9, 0, 'America/New_York').toISOString()).toBe('2026-03-06T14:00:00.000Z');
+    expect(fromZonedTime(2026, 3, 6, 9, 0, 'Asia/Kolkata').toISOString()).toBe('2026-03-06T03:30:00.000Z');
+  });
+
+  it('uses the offset in effect after a daylight saving change', () => {
+    expect(fromZonedTime(2026, 3, 9, 9, 0, 'America/New_York').toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('rolls day overflow into the next month', () => {
+    expect(fromZonedTime(2026, 1, 32, 9, 0, 'UTC').toISOString()).toBe('2026-02-01T09:00:00.000Z');
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zones only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('toDateKey', () => {
+  it('pads the month and day', () => {
+    expect(toDateKey({ year: 2026, month: 3, day: 7 })).toBe('2026-03-07');
+  });
+});
@@ -0,0 +1,360 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, Clock, Mail, MessageSquare, Split, X } from 'lucide-react';
+import Header from '@/components/Header';
+import DateRangePicker from '@/components/DateRangePicker';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ApplicationFilters, FollowUpFilters } from '@/lib/api';
+import {
+  BreakdownRow,
+  DateRangeFilter,
+  MIN_TEST_SAMPLE,
+  TemplateTestResult,
+  filterSentApplications,
+  getBreakdown,
+  getFollowUpEffectiveness,
+  getFunnel,
+  getMedianResponseDays,
+  getTemplateTests,
+  getWeeklySent
+} from '@/lib/analytics';
+import { useApplications, useFollowUps } from '@/hooks/useApplicationQueries';
+import { useEmailTemplateLibrary } from '@/hooks/useEmailTemplates';
+import { getErrorMessage } from '@/services/apiErrors';
+
+// Analytics need the full history, not just one page
+const ALL_APPLICATIONS: ApplicationFilters = { sort_field: 'sent_at', sort_order: 1 };
+const ALL_FOLLOW_UPS: FollowUpFilters = { sort_field: 'sent_at', sort_order: 1 };
+
+const weeklyChartConfig = {
+  sent: { label: "Applications sent", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const funnelChartConfig = {
+  count: { label: "Applications", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const followUpChartConfig = {
+  reached: { label: "Applications", color: "hsl(var(--muted-foreground))" },
+  responses: { label: "Replies", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const BreakdownTable: React.FC<{ title: string; rows: BreakdownRow[] }> = ({ title, rows }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>By {title.toLowerCase()}</CardTitle>
+      <CardDescription>Top {title.toLowerCase()}s by applications sent</CardDescription>
+    </CardHeader>
+    <CardContent>
+      {rows.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{title}</TableHead>
+              <TableHead className="text-right">Sent</TableHead>
+              <TableHead className="text-right">Replies</TableHead>
+              <TableHead className="text-right">Reply rate</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.name}>
+                <TableCell>{row.name}</TableCell>
+                <TableCell className="text-right">{row.sent}</TableCell>
+                <TableCell className="text-right">{row.responses}</TableCell>
+                <TableCell className="text-right">{formatPercent(row.rate)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-muted-foreground">No applications in this period.</p>
+      )}
+    </CardContent>
+  </Card>
+);
+
+const describeTest = (test: TemplateTestResult): string => {
+  const pValue = test.pValue !== null ? ` (p = ${test.pValue.toFixed(3)})` : '';
+  if (!test.leader) return 'Only one variant has been sent so far';
+  if (test.significance === 'too_few') return `Too early to tell: each variant needs at least ${MIN_TEST_SAMPLE} sends${pValue}`;
+  if (test.significance === 'significant') return `${test.leader.name} gets more replies, significant at 95%${pValue}`;
+  return `No clear winner yet${pValue}`;
+};
+
+const TemplateTestsCard: React.FC<{ tests: TemplateTestResult[]; templateNames: Map<string, string> }> = ({
+  tests,
+  templateNames
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <Split className="h-5 w-5" />
+        Template A/B tests
+      </CardTitle>
+      <CardDescription>Reply rates per template variant, and whether the gap is more than chance</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-6">
+      {tests.length > 0 ? tests.map(test => (
+        <div key={test.templateId} className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="font-medium">{templateNames.get(test.templateId) ?? 'Deleted template'}</h3>
+            <Badge variant={test.significance === 'significant' ? 'default' : 'outline'}>
+              {describeTest(test)}
+            </Badge>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead className="text-right">Sent</TableHead>
+                <TableHead className="text-right">Replies</TableHead>
+                <TableHead className="text-right">Reply rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {test.variants.map(variant => (
+                <TableRow key={variant.variantId}>
+                  <TableCell>
+                    {variant.name}
+                    {variant === test.leader && test.significance === 'significant' && (
+                      <Badge variant="secondary" className="ml-2 text-xs">Leader</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{variant.sent}</TableCell>
+                  <TableCell className="text-right">{variant.responses}</TableCell>
+                  <TableCell className="text-right">{formatPercent(variant.rate)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )) : (
+        <p className="text-sm text-muted-foreground">
+          No A/B tests in this period. Add variants to a template under Settings &gt; Email Templates.
+        </p>
+      )}
+    </CardContent>
+  </Card>
+);
+
+const AnalyticsPage = () => {
+  const navigate = useNavigate();
+  const [range, setRange] = useState<DateRangeFilter>({});
+
+  const applicationsQuery = useApplications(ALL_APPLICATIONS);
+  const followUpsQuery = useFollowUps(ALL_FOLLOW_UPS);
+  const templatesQuery = useEmailTemplateLibrary();
+  const isLoading = applicationsQuery.isLoading || followUpsQuery.isLoading;
+
+  useEffect(() => {
+    const error = applicationsQuery.error || followUpsQuery.error;
+    if (error) {
+      toast.error(getErrorMessage(error, "Failed to load analytics data"));
+    }
+  }, [applicationsQuery.error, followUpsQuery.error]);
+
+  const stats = useMemo(() => {
+    const applications = filterSentApplications(applicationsQuery.data ?? [], range);
+    const applicationIds = new Set(applications.map(app => app._id));
+    const followUps = (followUpsQuery.data ?? []).filter(followUp => applicationIds.has(followUp.original_application_id));
+
+    return {
+      sent: applications.length,
+      weekly: getWeeklySent(applications),
+      funnel: getFunnel(applications),
+      medianResponseDays: getMedianResponseDays(applications),
+      followUpEffectiveness: getFollowUpEffectiveness(applications, followUps).map(row => ({
+        ...row,
+        label: row.followUpNumber === 0 ? 'No follow-up' : `After #${row.followUpNumber}`,
+      })),
+      byCompany: getBreakdown(applications, 'company'),
+      byPosition: getBreakdown(applications, 'position'),
+      templateTests: getTemplateTests(applications),
+    };
+  }, [applicationsQuery.data, followUpsQuery.data, range]);
+
+  const templateNames = useMemo(
+    () => new Map((templatesQuery.data ?? []).map(template => [template._id ?? '', template.name])),
+    [templatesQuery.data]
+  );
+
+  const responseRate = stats.funnel[1]?.rate ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center mb-4"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+            <h1 className="text-3xl font-bold">Analytics</h1>
+            <div className="flex gap-2">
+              <DateRangePicker
+                from={range.from}
+                to={range.to}
+                onChange={setRange}
+                placeholder="All time"
+              />
+              {(range.from || range.to) && (
+                <Button variant="ghost" onClick={() => setRange({})} className="gap-1">
+                  <X className="h-4 w-4" /> Clear
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Sent</CardTitle>
+                  <CardDescription>Applications sent in this period</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-4xl font-bold flex items-center">
+                    <Mail className="mr-2 h-8 w-8 text-primary" />
+                    {stats.sent}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Reply rate</CardTitle>
+                  <CardDescription>Applications that got any reply</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-4xl font-bold flex items-center">
+                    <MessageSquare className="mr-2 h-8 w-8 text-primary" />
+                    {formatPercent(responseRate)}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle>Median time to reply</CardTitle>
+                  <CardDescription>From sending to the first reply</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-4xl font-bold flex items-center">
+                    <Clock className="mr-2 h-8 w-8 text-primary" />
+                    {stats.medianResponseDays === null
+                      ? 'N/A'
+                      : `${stats.medianResponseDays.toFixed(1)} days`}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Applications sent per week</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {stats.weekly.length > 0 ? (
+                  <ChartContainer config={weeklyChartConfig} className="h-[250px] w-full aspect-auto">
+                    <BarChart data={stats.weekly}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="sent" fill="var(--color-sent)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No applications sent in this period.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Pipeline funnel</CardTitle>
+                  <CardDescription>
+                    {stats.funnel.slice(1).map(stage => `${stage.stage} ${formatPercent(stage.rate)}`).join(' · ')}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={funnelChartConfig} className="h-[250px] w-full aspect-auto">
+                    <BarChart data={stats.funnel} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="stage" tickLine={false} axisLine={false} width={80} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Follow-up effectiveness</CardTitle>
+                  <CardDescription>
+                    Replies received after each number of follow-ups
+                    {stats.followUpEffectiveness.length > 0 && ': ' + stats.followUpEffectiveness
+                      .map(row => `${row.label} ${formatPercent(row.rate)}`)
+                      .join(' · ')}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {stats.followUpEffectiveness.length > 0 ? (
+                    <ChartContainer config={followUpChartConfig} className="h-[250px] w-full aspect-auto">
+                      <BarChart data={stats.followUpEffectiveness}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="reached" fill="var(--color-reached)" radius={4} />
+                        <Bar dataKey="responses" fill="var(--color-responses)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No follow-up data in this period.</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <BreakdownTable title="Company" rows={stats.byCompany} />
+              <BreakdownTable title="Position" rows={stats.byPosition} />
+            </div>
+
+            <TemplateTestsCard tests={stats.templateTests} templateNames={templateNames} />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
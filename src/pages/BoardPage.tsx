@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { ArrowLeft, Building2, Calendar, RefreshCw, Send } from 'lucide-react';
+import Header from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ApplicationFilters, JobApplication } from '@/lib/api';
+import {
+  APPLICATION_STATUSES,
+  ApplicationStatus,
+  describeIllegalTransition,
+  getManualTransitions,
+  getStatusBadgeVariant
+} from '@/lib/applicationStatus';
+import { getFollowUpLimit } from '@/lib/followUpSchedule';
+import { useApplications, useUpdateApplicationStatus } from '@/hooks/useApplicationQueries';
+import { getErrorMessage } from '@/services/apiErrors';
+import { cn } from '@/lib/utils';
+
+// Every application regardless of status, most recently touched first
+const BOARD_FILTERS: ApplicationFilters = {
+  sort_field: 'updated_at',
+  sort_order: -1
+};
+
+// Mime type for the dragged application ID, so unrelated drops are ignored
+const DRAG_DATA_TYPE = 'application/x-jobbuddy-application';
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return 'N/A';
+  return new Date(dateString).toLocaleDateString();
+};
+
+interface BoardCardProps {
+  application: JobApplication;
+  isDragging: boolean;
+  onOpen: (application: JobApplication) => void;
+  onDragStart: (application: JobApplication) => void;
+  onDragEnd: () => void;
+}
+
+const BoardCard: React.FC<BoardCardProps> = ({ application, isDragging, onOpen, onDragStart, onDragEnd }) => {
+  const handleDragStart = (event: React.DragEvent) => {
+    event.dataTransfer.setData(DRAG_DATA_TYPE, application._id);
+    event.dataTransfer.effectAllowed = 'move';
+    onDragStart(application);
+  };
+
+  return (
+    <Card
+      draggable
+      onDragStart={handleDragStart}
+      onDragEnd={onDragEnd}
+      onClick={() => onOpen(application)}
+      className={cn(
+        "cursor-grab active:cursor-grabbing hover:border-primary/50 transition-colors",
+        isDragging && "opacity-50"
+      )}
+    >
+      <CardContent className="p-3 space-y-1">
+        <p className="font-medium leading-tight">{application.position || 'Untitled position'}</p>
+        <p className="text-sm text-muted-foreground flex items-center gap-1">
+          <Building2 className="h-3.5 w-3.5" /> {application.company || 'N/A'}
+        </p>
+        <div className="flex items-center justify-between text-xs text-muted-foreground pt-1">
+          <span className="flex items-center gap-1">
+            <Calendar className="h-3 w-3" /> {formatDate(application.sent_at || application.created_at)}
+          </span>
+          <span className="flex items-center gap-1" title="Follow-ups sent">
+            <Send className="h-3 w-3" />
+            {application.follow_up_settings?.follow_up_count || 0}/{getFollowUpLimit(application.follow_up_settings)}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const BoardPage = () => {
+  const navigate = useNavigate();
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+  // The card being dragged, so columns can show whether they accept it
+  const [dragged, setDragged] = useState<JobApplication | null>(null);
+
+  const applicationsQuery = useApplications(BOARD_FILTERS);
+  const updateStatusMutation = useUpdateApplicationStatus();
+  const applications = applicationsQuery.data ?? [];
+
+  useEffect(() => {
+    if (applicationsQuery.error) {
+      toast.error(getErrorMessage(applicationsQuery.error, "Failed to load job applications"));
+    }
+  }, [applicationsQuery.error]);
+
+  const applicationsByStatus = (status: ApplicationStatus) => applications.filter(app => app.status === status);
+
+  // Cards can't be dragged into statuses the sending flow manages
+  const canMove = (from: ApplicationStatus, to: ApplicationStatus) =>
+    from === to || getManualTransitions(from).includes(to);
+
+  const acceptsDrop = (status: ApplicationStatus) => !dragged || canMove(dragged.status, status);
+
+  const handleDragOver = (event: React.DragEvent, status: ApplicationStatus) => {
+    if (!event.dataTransfer.types.includes(DRAG_DATA_TYPE) || !acceptsDrop(status)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setDropTarget(status);
+  };
+
+  const handleDrop = (event: React.DragEvent, status: ApplicationStatus) => {
+    event.preventDefault();
+    setDropTarget(null);
+    setDragged(null);
+
+    const id = event.dataTransfer.getData(DRAG_DATA_TYPE);
+    const application = applications.find(app => app._id === id);
+    if (!application || application.status === status) return;
+
+    if (!canMove(application.status, status)) {
+      toast.error(describeIllegalTransition(application.status, status));
+      return;
+    }
+
+    // Same side effects as the dashboard: closing statuses cap follow-ups
+    updateStatusMutation.mutate({ application, status }, {
+      onSuccess: () => toast.success(`${application.company || 'Application'} moved to ${status}`),
+      onError: (error) => {
+        console.error("Error updating application status:", error);
+        toast.error(getErrorMessage(error, "Failed to update application status"));
+      }
+    });
+  };
+
+  const handleOpen = (application: JobApplication) => {
+    navigate(`/applications/edit/${application._id}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center mb-4"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+
+          <div className="flex items-center justify-between">
+            <h1 className="text-3xl font-bold">Application Pipeline</h1>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => applicationsQuery.refetch()}
+              disabled={applicationsQuery.isFetching}
+              className="flex items-center gap-2"
+            >
+              <RefreshCw className={cn("h-4 w-4", applicationsQuery.isFetching && "animate-spin")} />
+              {applicationsQuery.isFetching ? "Refreshing..." : "Refresh"}
+            </Button>
+          </div>
+          <p className="text-muted-foreground mt-1">
+            Drag a card to another column to change its status. Columns that can't take the card are dimmed.
+          </p>
+        </div>
+
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {APPLICATION_STATUSES.map(status => {
+            const columnApplications = applicationsByStatus(status);
+
+            return (
+              <div
+                key={status}
+                onDragOver={(e) => handleDragOver(e, status)}
+                onDragLeave={() => setDropTarget(current => current === status ? null : current)}
+                onDrop={(e) => handleDrop(e, status)}
+                className={cn(
+                  "flex-shrink-0 w-64 rounded-lg border bg-muted/40 p-3 transition-colors",
+                  dropTarget === status && "border-primary bg-primary/5",
+                  !acceptsDrop(status) && "opacity-40"
+                )}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <Badge variant={getStatusBadgeVariant(status)} className="capitalize">{status}</Badge>
+                  <span className="text-sm text-muted-foreground">{columnApplications.length}</span>
+                </div>
+
+                <div className="space-y-2 min-h-[120px]">
+                  {applicationsQuery.isLoading ? (
+                    <>
+                      <Skeleton className="h-20 w-full" />
+                      <Skeleton className="h-20 w-full" />
+                    </>
+                  ) : columnApplications.length > 0 ? (
+                    columnApplications.map(app => (
+                      <BoardCard
+                        key={app._id}
+                        application={app}
+                        isDragging={dragged?._id === app._id}
+                        onOpen={handleOpen}
+                        onDragStart={setDragged}
+                        onDragEnd={() => {
+                          setDragged(null);
+                          setDropTarget(null);
+                        }}
+                      />
+                    ))
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center py-6">No applications</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default BoardPage;
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { ArrowLeft, Building2, Plus, Search } from 'lucide-react';
+import Header from '@/components/Header';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import CompanyEditorDialog from '@/components/companies/CompanyEditorDialog';
+import CompanyLogo from '@/components/companies/CompanyLogo';
+import { ApplicationFilters, FollowUpFilters } from '@/lib/api';
+import { getStatusBadgeVariant } from '@/lib/applicationStatus';
+import { COMPANY_SIZE_LABELS, getCompanyRollup, isCompanyApplication } from '@/lib/companies';
+import { safeFormatDistanceToNow } from '@/lib/utils';
+import { useApplications, useFollowUps } from '@/hooks/useApplicationQueries';
+import { getErrorMessage } from '@/services/apiErrors';
+import { CompanyDetails, normalizeCompanyName, useCompanyStore } from '@/store/companyStore';
+import { useContactStore } from '@/store/contactStore';
+
+// Every application and follow-up, to roll them up per company
+const ALL_APPLICATIONS: ApplicationFilters = { sort_field: 'sent_at', sort_order: 1 };
+const ALL_FOLLOW_UPS: FollowUpFilters = { sort_field: 'sent_at', sort_order: 1 };
+
+const CompaniesPage = () => {
+  const navigate = useNavigate();
+  const { companies, addCompany, ensureCompany } = useCompanyStore();
+  const contacts = useContactStore(state => state.contacts);
+  const applicationsQuery = useApplications(ALL_APPLICATIONS);
+  const followUpsQuery = useFollowUps(ALL_FOLLOW_UPS);
+  const [query, setQuery] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    const error = applicationsQuery.error || followUpsQuery.error;
+    if (error) {
+      toast.error(getErrorMessage(error, 'Failed to load applications'));
+    }
+  }, [applicationsQuery.error, followUpsQuery.error]);
+
+  const rows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return companies
+      .filter(company => !needle || company.name.toLowerCase().includes(needle) || company.domain.includes(needle))
+      .map(company => ({
+        company,
+        rollup: getCompanyRollup(company, applicationsQuery.data ?? [], followUpsQuery.data ?? [], contacts)
+      }))
+      .sort((a, b) => a.company.name.localeCompare(b.company.name));
+  }, [companies, contacts, query, applicationsQuery.data, followUpsQuery.data]);
+
+  // Companies applied to before companies existed, one per spelling of their name
+  const unsavedCompanies = useMemo(() => {
+    const names = new Map<string, { name: string; email: string }>();
+    (applicationsQuery.data ?? []).forEach(app => {
+      const normalized = normalizeCompanyName(app.company);
+      if (!normalized || names.has(normalized) || companies.some(company => isCompanyApplication(company, app))) return;
+      names.set(normalized, { name: app.company.trim(), email: app.recipient_email });
+    });
+    return Array.from(names.values());
+  }, [companies, applicationsQuery.data]);
+
+  const handleImport = () => {
+    unsavedCompanies.forEach(({ name, email }) => ensureCompany(name, email));
+    toast.success(`Added ${unsavedCompanies.length} compan${unsavedCompanies.length === 1 ? 'y' : 'ies'} from your applications`);
+  };
+
+  const handleSave = (details: CompanyDetails) => {
+    const id = addCompany(details);
+    toast.success('Company added');
+    setIsAdding(false);
+    navigate(`/companies/${id}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center mb-4"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+            <h1 className="text-3xl font-bold">Companies</h1>
+            <div className="flex flex-wrap gap-2">
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search companies..."
+                  className="w-[240px] pl-8"
+                />
+              </div>
+              {unsavedCompanies.length > 0 && (
+                <Button variant="outline" onClick={handleImport} className="gap-2">
+                  <Building2 className="h-4 w-4" />
+                  Add {unsavedCompanies.length} from applications
+                </Button>
+              )}
+              <Button onClick={() => setIsAdding(true)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Company
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {applicationsQuery.isLoading ? (
+              <div className="space-y-2 p-6">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            ) : rows.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Size</TableHead>
+                    <TableHead>Applications</TableHead>
+                    <TableHead>Latest status</TableHead>
+                    <TableHead>Contacts</TableHead>
+                    <TableHead>Last interaction</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ company, rollup }) => (
+                    <TableRow
+                      key={company.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/companies/${company.id}`)}
+                    >
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <CompanyLogo company={company} />
+                          <div>
+                            <div className="font-medium">{company.name}</div>
+                            {company.domain && <div className="text-xs text-muted-foreground">{company.domain}</div>}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>{company.size ? COMPANY_SIZE_LABELS[company.size] : '—'}</TableCell>
+                      <TableCell>{rollup.applications.length}</TableCell>
+                      <TableCell>
+                        {rollup.applications.length > 0 ? (
+                          <Badge variant={getStatusBadgeVariant(rollup.applications[0].status)} className="capitalize">
+                            {rollup.applications[0].status}
+                          </Badge>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell>{rollup.contacts.length}</TableCell>
+                      <TableCell>
+                        {rollup.lastInteraction ? safeFormatDistanceToNow(rollup.lastInteraction.date) : 'Never'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="py-12 text-center text-muted-foreground">
+                {query
+                  ? 'No companies match your search.'
+                  : 'No companies yet. Companies you apply to are added automatically.'}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <CompanyEditorDialog
+        open={isAdding}
+        company={null}
+        onOpenChange={setIsAdding}
+        onSave={handleSave}
+      />
+    </div>
+  );
+};
+
+export default CompaniesPage;
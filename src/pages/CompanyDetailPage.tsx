@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { ArrowLeft, ExternalLink, FileEdit, Plus, Trash2 } from 'lucide-react';
+import Header from '@/components/Header';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import CompanyEditorDialog from '@/components/companies/CompanyEditorDialog';
+import CompanyLogo from '@/components/companies/CompanyLogo';
+import { ApplicationFilters, FollowUpFilters } from '@/lib/api';
+import { APPLICATION_STATUSES, getStatusBadgeVariant } from '@/lib/applicationStatus';
+import { COMPANY_SIZE_LABELS, getCompanyRollup } from '@/lib/companies';
+import { getContactDisplayName } from '@/lib/contacts';
+import { safeFormatDistanceToNow } from '@/lib/utils';
+import { useApplications, useFollowUps } from '@/hooks/useApplicationQueries';
+import { getErrorMessage } from '@/services/apiErrors';
+import { CompanyDetails, useCompanyStore } from '@/store/companyStore';
+import { useContactStore } from '@/store/contactStore';
+
+// Every application and follow-up, to pick out the ones for this company
+const ALL_APPLICATIONS: ApplicationFilters = { sort_field: 'sent_at', sort_order: 1 };
+const ALL_FOLLOW_UPS: FollowUpFilters = { sort_field: 'sent_at', sort_order: 1 };
+
+const CompanyDetailPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const company = useCompanyStore(state => state.companies.find(c => c.id === id));
+  const { updateCompany, deleteCompany } = useCompanyStore();
+  const contacts = useContactStore(state => state.contacts);
+  const applicationsQuery = useApplications(ALL_APPLICATIONS);
+  const followUpsQuery = useFollowUps(ALL_FOLLOW_UPS);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    const error = applicationsQuery.error || followUpsQuery.error;
+    if (error) {
+      toast.error(getErrorMessage(error, 'Failed to load applications'));
+    }
+  }, [applicationsQuery.error, followUpsQuery.error]);
+
+  const rollup = useMemo(
+    () => company && getCompanyRollup(company, applicationsQuery.data ?? [], followUpsQuery.data ?? [], contacts),
+    [company, contacts, applicationsQuery.data, followUpsQuery.data]
+  );
+
+  if (!company || !rollup) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-secondary/50">
+        <Header />
+        <main className="container mx-auto px-4 py-6 text-center">
+          <h1 className="text-2xl font-bold mb-4">Company not found</h1>
+          <Button onClick={() => navigate('/companies')}>Back to Companies</Button>
+        </main>
+      </div>
+    );
+  }
+
+  const handleSave = (details: CompanyDetails) => {
+    updateCompany(company.id, details);
+    toast.success('Company updated');
+    setIsEditing(false);
+  };
+
+  const confirmDelete = () => {
+    deleteCompany(company.id);
+    toast.success('Company deleted');
+    navigate('/companies');
+  };
+
+  const statusCounts = APPLICATION_STATUSES.filter(status => rollup.statusCounts[status]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/companies')}
+            className="flex items-center mb-4"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Companies
+          </Button>
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <CompanyLogo company={company} className="h-14 w-14" />
+              <div>
+                <h1 className="text-3xl font-bold">{company.name}</h1>
+                <div className="flex flex-wrap items-center gap-x-3 text-sm text-muted-foreground">
+                  {company.website && (
+                    <a href={company.website} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:underline">
+                      {company.website.replace(/^https?:\/\//, '')}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                  {company.domain && <span>@{company.domain}</span>}
+                  {company.size && <span>{COMPANY_SIZE_LABELS[company.size]}</span>}
+                </div>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setIsEditing(true)} className="gap-2">
+                <FileEdit className="h-4 w-4" />
+                Edit
+              </Button>
+              <Button variant="outline" onClick={() => setIsDeleting(true)} className="gap-2">
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+              <Button onClick={() => navigate('/applications/new')} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Application
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Applications</CardDescription>
+              <CardTitle className="text-3xl">{rollup.applications.length}</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-1">
+              {statusCounts.map(status => (
+                <Badge key={status} variant={getStatusBadgeVariant(status)} className="capitalize">
+                  {rollup.statusCounts[status]} {status}
+                </Badge>
+              ))}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Follow-ups sent</CardDescription>
+              <CardTitle className="text-3xl">{rollup.followUps.length}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Last interaction</CardDescription>
+              <CardTitle className="text-xl">
+                {rollup.lastInteraction ? safeFormatDistanceToNow(rollup.lastInteraction.date) : 'Never'}
+              </CardTitle>
+            </CardHeader>
+            {rollup.lastInteraction && (
+              <CardContent className="text-sm text-muted-foreground">{rollup.lastInteraction.description}</CardContent>
+            )}
+          </Card>
+        </div>
+
+        {company.notes && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg">Notes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="whitespace-pre-wrap text-sm">{company.notes}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">Applications</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {applicationsQuery.isLoading ? (
+                <div className="space-y-2 p-6">
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                </div>
+              ) : rollup.applications.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Position</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Sent</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rollup.applications.map(app => (
+                      <TableRow
+                        key={app._id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/applications/edit/${app._id}`)}
+                      >
+                        <TableCell className="font-medium">{app.position}</TableCell>
+                        <TableCell>{app.recipient_email}</TableCell>
+                        <TableCell>
+                          <Badge variant={getStatusBadgeVariant(app.status)} className="capitalize">{app.status}</Badge>
+                        </TableCell>
+                        <TableCell>{app.sent_at ? format(new Date(app.sent_at), 'MMM d, yyyy') : '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="px-6 pb-6 text-sm text-muted-foreground">No applications to {company.name} yet.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Contacts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {rollup.contacts.length > 0 ? (
+                <ul className="space-y-3 text-sm">
+                  {rollup.contacts.map(contact => (
+                    <li key={contact.id}>
+                      <div className="font-medium">{getContactDisplayName(contact)}</div>
+                      <div className="text-muted-foreground">
+                        {[contact.role, contact.email].filter(Boolean).join(' · ')}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No contacts at {company.name}. <Link to="/contacts" className="underline">Add one</Link>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <CompanyEditorDialog
+        open={isEditing}
+        company={company}
+        onOpenChange={setIsEditing}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={isDeleting} onOpenChange={setIsDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Company</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {company.name}? Its applications and contacts are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CompanyDetailPage;
@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { ArrowLeft, FileEdit, Plus, Search, Trash2, UserPlus } from 'lucide-react';
+import Header from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import ContactEditorDialog from '@/components/contacts/ContactEditorDialog';
+import ContactDetailsSheet from '@/components/contacts/ContactDetailsSheet';
+import { ApplicationFilters, FollowUpFilters } from '@/lib/api';
+import { getContactActivity, getContactDisplayName, getLastContactedAt, searchContacts } from '@/lib/contacts';
+import { safeFormatDistanceToNow } from '@/lib/utils';
+import { useApplications, useFollowUps } from '@/hooks/useApplicationQueries';
+import { getErrorMessage } from '@/services/apiErrors';
+import { Contact, ContactDetails, useContactStore } from '@/store/contactStore';
+
+// Every application and follow-up, to list what was sent to each contact
+const ALL_APPLICATIONS: ApplicationFilters = { sort_field: 'sent_at', sort_order: 1 };
+const ALL_FOLLOW_UPS: FollowUpFilters = { sort_field: 'sent_at', sort_order: 1 };
+
+const ContactsPage = () => {
+  const navigate = useNavigate();
+  const { contacts, addContact, updateContact, deleteContact, addRecipient } = useContactStore();
+  const applicationsQuery = useApplications(ALL_APPLICATIONS);
+  const followUpsQuery = useFollowUps(ALL_FOLLOW_UPS);
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<{ contact: Contact | null } | null>(null);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [contactToDelete, setContactToDelete] = useState<Contact | null>(null);
+
+  useEffect(() => {
+    const error = applicationsQuery.error || followUpsQuery.error;
+    if (error) {
+      toast.error(getErrorMessage(error, 'Failed to load emails sent to contacts'));
+    }
+  }, [applicationsQuery.error, followUpsQuery.error]);
+
+  const rows = useMemo(() => {
+    const applications = applicationsQuery.data ?? [];
+    const followUps = followUpsQuery.data ?? [];
+    return searchContacts(contacts, query, contacts.length).map(contact => {
+      const activity = getContactActivity(contact, applications, followUps);
+      return { contact, activity, lastContactedAt: getLastContactedAt(contact, activity) };
+    });
+  }, [contacts, query, applicationsQuery.data, followUpsQuery.data]);
+
+  const viewing = rows.find(row => row.contact.id === viewingId);
+
+  // Recipients of earlier applications, before contacts existed
+  const unsavedRecipients = useMemo(() => {
+    const saved = new Set(contacts.map(contact => contact.email.trim().toLowerCase()));
+    const recipients = new Map<string, { email: string; name?: string | null; company: string }>();
+    (applicationsQuery.data ?? []).forEach(app => {
+      const email = app.recipient_email?.trim();
+      if (!email || !app.sent_at || saved.has(email.toLowerCase())) return;
+      recipients.set(email.toLowerCase(), { email, name: app.recipient_name, company: app.company });
+    });
+    return Array.from(recipients.values());
+  }, [contacts, applicationsQuery.data]);
+
+  const handleImport = () => {
+    unsavedRecipients.forEach(recipient => addRecipient(recipient));
+    toast.success(`Added ${unsavedRecipients.length} contact${unsavedRecipients.length === 1 ? '' : 's'} from your applications`);
+  };
+
+  const handleSave = (details: ContactDetails) => {
+    if (editing?.contact) {
+      updateContact(editing.contact.id, details);
+      toast.success('Contact updated');
+    } else {
+      addContact(details);
+      toast.success('Contact added');
+    }
+    setEditing(null);
+  };
+
+  const confirmDelete = () => {
+    if (contactToDelete) {
+      deleteContact(contactToDelete.id);
+      toast.success('Contact deleted');
+    }
+    setContactToDelete(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center mb-4"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dashboard
+          </Button>
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+            <h1 className="text-3xl font-bold">Contacts</h1>
+            <div className="flex flex-wrap gap-2">
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search contacts..."
+                  className="w-[240px] pl-8"
+                />
+              </div>
+              {unsavedRecipients.length > 0 && (
+                <Button variant="outline" onClick={handleImport} className="gap-2">
+                  <UserPlus className="h-4 w-4" />
+                  Add {unsavedRecipients.length} from applications
+                </Button>
+              )}
+              <Button onClick={() => setEditing({ contact: null })} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Contact
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {applicationsQuery.isLoading ? (
+              <div className="space-y-2 p-6">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            ) : rows.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Emails</TableHead>
+                    <TableHead>Last contacted</TableHead>
+                    <TableHead className="w-[100px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ contact, activity, lastContactedAt }) => (
+                    <TableRow
+                      key={contact.id}
+                      className="cursor-pointer"
+                      onClick={() => setViewingId(contact.id)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{getContactDisplayName(contact)}</div>
+                        {contact.role && <div className="text-xs text-muted-foreground">{contact.role}</div>}
+                      </TableCell>
+                      <TableCell>{contact.company || '—'}</TableCell>
+                      <TableCell>{contact.email}</TableCell>
+                      <TableCell>{activity.length}</TableCell>
+                      <TableCell>{lastContactedAt ? safeFormatDistanceToNow(lastContactedAt) : 'Never'}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                          <Button variant="ghost" size="icon" onClick={() => setEditing({ contact })}>
+                            <FileEdit className="h-4 w-4" />
+                            <span className="sr-only">Edit</span>
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setContactToDelete(contact)}>
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Delete</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="py-12 text-center text-muted-foreground">
+                {query
+                  ? 'No contacts match your search.'
+                  : 'No contacts yet. People you send applications to are added automatically.'}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <ContactEditorDialog
+        open={editing !== null}
+        contact={editing?.contact ?? null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={handleSave}
+      />
+
+      <ContactDetailsSheet
+        contact={viewing?.contact ?? null}
+        activity={viewing?.activity ?? []}
+        lastContactedAt={viewing?.lastContactedAt ?? null}
+        onOpenChange={(open) => !open && setViewingId(null)}
+        onEdit={(contact) => setEditing({ contact })}
+      />
+
+      <AlertDialog open={!!contactToDelete} onOpenChange={(open) => !open && setContactToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Contact</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {contactToDelete ? getContactDisplayName(contactToDelete) : 'this contact'}?
+              Applications sent to them are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ContactsPage;
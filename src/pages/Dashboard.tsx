@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   Card, 
   CardContent, 
@@ -13,10 +13,42 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import Header from '../components/Header';
+import TablePagination from '../components/TablePagination';
+import ApplicationsToolbar from '../components/ApplicationsToolbar';
+import SortableTableHead from '../components/SortableTableHead';
 import FollowUpSettingsDialog from '../components/FollowUpSettingsDialog';
-import { JobApplication, FollowUp, FollowUpSettings, applicationsApi, followUpsApi, checkApiHealth } from '@/lib/api';
-import { Calendar, Clock, Mail, Send, User, FileEdit, FilePenLine, Eye, Settings, Plus } from 'lucide-react';
-import { safeFormatDate, safeFormatDistanceToNow } from '@/lib/utils';
+import BulkActionBar from '../components/BulkActionBar';
+import FollowUpQueue from '../components/FollowUpQueue';
+import ScheduledSends from '../components/ScheduledSends';
+import ScheduleSendDialog from '../components/ScheduleSendDialog';
+import SendFollowUpDialog from '../components/SendFollowUpDialog';
+import { ApplicationFilters, FollowUpFilters, JobApplication, checkApiHealth } from '@/lib/api';
+import { ApplicationStatus, canTransition, getStatusBadgeVariant } from '@/lib/applicationStatus';
+import { FollowUpRequest, getFollowUpBlocker } from '@/lib/followUps';
+import { buildFollowUpQueue, getApplicationNextFollowUpDate, getFollowUpLimit } from '@/lib/followUpSchedule';
+import { isSequenceMissing } from '@/lib/followUpSequences';
+import { SCHEDULED_FILTERS, sortByScheduledAt, toSenderSettings } from '@/lib/scheduledSends';
+import { format } from 'date-fns';
+import {
+  LIST_REFETCH_INTERVAL,
+  useApplications,
+  useApplicationsPage,
+  useCancelScheduledSend,
+  useConvertDraft,
+  useCreateFollowUp,
+  useDeleteApplication,
+  useDrafts,
+  useFollowUpsPage,
+  useScheduleApplication,
+  useUpdateApplicationStatus
+} from '@/hooks/useApplicationQueries';
+import { ApplicationSortField, useApplicationTableParams } from '@/hooks/useApplicationTableParams';
+import { useRowSelection } from '@/hooks/useRowSelection';
+import { useSendingApplicationIds } from '@/hooks/useSendLocks';
+import { useLocalFollowUpMigration } from '@/hooks/useLocalFollowUpMigration';
+import { getErrorMessage, isApiError } from '@/services/apiErrors';
+import { Calendar, Clock, Mail, Send, User, FileEdit, FilePenLine, Eye, Settings, Plus, FolderKanban, BarChart3 } from 'lucide-react';
+import { safeFormatDistanceToNow } from '@/lib/utils';
 import { useEmailSettingsStore } from '@/store/emailSettingsStore';
 import { useNavigate } from 'react-router-dom';
 import {
@@ -28,80 +60,154 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { DialogTrigger } from '@/components/ui/dialog';
+import { Checkbox } from "@/components/ui/checkbox";
+
+// Follow-ups list shown on the dashboard; a stable reference so the query key stays equal between renders
+const FOLLOW_UP_FILTERS: FollowUpFilters = {
+  sort_field: 'updated_at',
+  sort_order: -1
+};
+
+// Every application still waiting on a reply, for the follow-up queue
+const AWAITING_REPLY_FILTERS: ApplicationFilters = { status: 'sent' };
+
+const DRAFTS_LIMIT = 5;
+const PAGE_SIZE = 10;
 
 const Dashboard = () => {
   const navigate = useNavigate();
-  const [applications, setApplications] = useState<JobApplication[]>([]);
-  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
-  const [drafts, setDrafts] = useState<JobApplication[]>([]);
   const [activeTab, setActiveTab] = useState('applications');
-  const [isLoading, setIsLoading] = useState({
-    applications: true,
-    followUps: true,
-    drafts: true
-  });
   const [apiStatus, setApiStatus] = useState<'loading' | 'connected' | 'error'>('loading');
+  // Applications table search, filters, sorting and page live in the URL
+  const applicationTable = useApplicationTableParams();
+  const { update: updateApplicationTable } = applicationTable;
+  const applicationsPage = applicationTable.state.page;
+  const setApplicationsPage = (page: number) => updateApplicationTable({ page });
+  const [followUpsPage, setFollowUpsPage] = useState(1);
+  // Draft or scheduled application whose send time is being picked
+  const [scheduleTarget, setScheduleTarget] = useState<JobApplication | null>(null);
+  // Application whose follow-up is being reviewed before sending
+  const [followUpTarget, setFollowUpTarget] = useState<JobApplication | null>(null);
   
   // Get email settings from store
   const { settings: emailSettings } = useEmailSettingsStore();
 
+  // Only query once the API is reachable, and only poll the visible tab
+  const queryOptions = (tab: string) => ({
+    enabled: apiStatus === 'connected',
+    refetchInterval: activeTab === tab ? LIST_REFETCH_INTERVAL : false as const
+  });
+  
+  const applicationsQuery = useApplicationsPage(applicationTable.filters, applicationsPage, PAGE_SIZE, queryOptions('applications'));
+  const followUpsQuery = useFollowUpsPage(FOLLOW_UP_FILTERS, followUpsPage, PAGE_SIZE, queryOptions('followUps'));
+  const draftsQuery = useDrafts(DRAFTS_LIMIT, queryOptions('drafts'));
+  const awaitingReplyQuery = useApplications(AWAITING_REPLY_FILTERS, queryOptions('queue'));
+  const scheduledQuery = useApplications(SCHEDULED_FILTERS, queryOptions('scheduled'));
+  
+  // Recomputed on every refetch, so "due today" rolls over with the data
+  const followUpQueue = useMemo(() => buildFollowUpQueue(awaitingReplyQuery.data ?? []), [awaitingReplyQuery.data]);
+  const dueFollowUpCount = followUpQueue.overdue.length + followUpQueue.dueToday.length;
+  
+  // Follow-up settings saved on the home page used to stay in this browser only
+  useLocalFollowUpMigration(awaitingReplyQuery.data);
+  
+  const applications = applicationsQuery.data?.items ?? [];
+  const followUps = followUpsQuery.data?.items ?? [];
+  const drafts = draftsQuery.data ?? [];
+  const scheduled = useMemo(() => sortByScheduledAt(scheduledQuery.data ?? []), [scheduledQuery.data]);
+  const applicationSelection = useRowSelection(applications);
+  const draftSelection = useRowSelection(drafts);
+  const { clear: clearApplicationSelection } = applicationSelection;
+  const totals = {
+    applications: applicationsQuery.data?.total ?? 0,
+    followUps: followUpsQuery.data?.total ?? 0
+  };
+  
+  const isLoading = {
+    applications: apiStatus === 'loading' || applicationsQuery.isLoading,
+    followUps: apiStatus === 'loading' || followUpsQuery.isLoading,
+    drafts: apiStatus === 'loading' || draftsQuery.isLoading,
+    queue: apiStatus === 'loading' || awaitingReplyQuery.isLoading,
+    scheduled: apiStatus === 'loading' || scheduledQuery.isLoading
+  };
+  
+  const isRefreshing = {
+    applications: applicationsQuery.isFetching,
+    followUps: followUpsQuery.isFetching,
+    drafts: draftsQuery.isFetching,
+    queue: awaitingReplyQuery.isFetching,
+    scheduled: scheduledQuery.isFetching
+  };
+  
+  const updateStatusMutation = useUpdateApplicationStatus();
+  const convertDraftMutation = useConvertDraft();
+  const createFollowUpMutation = useCreateFollowUp();
+  const deleteApplicationMutation = useDeleteApplication();
+  const scheduleMutation = useScheduleApplication();
+  const cancelScheduleMutation = useCancelScheduledSend();
+  // Sends under way in any tab, including the scheduled-send dispatcher
+  const sendingIds = useSendingApplicationIds();
+
   // Function to refresh specific data
-  const refreshData = async (dataType: 'applications' | 'followUps' | 'drafts') => {
-    try {
-      setIsLoading(prev => ({ ...prev, [dataType]: true }));
-      
-      switch (dataType) {
-        case 'applications':
-          console.log("Refreshing applications data...");
-          const apps = await applicationsApi.getAll({ 
-            status: 'sent',
-            sort_field: 'updated_at',
-            sort_order: -1
-          });
-          console.log("Applications data received:", apps);
-          
-          if (Array.isArray(apps)) {
-            setApplications(apps);
-          } else {
-            console.error("Received non-array applications data:", apps);
-            toast.error("Invalid data format received for applications");
-          }
-          break;
-        case 'followUps':
-          console.log("Refreshing follow-ups data...");
-          const fups = await followUpsApi.getAll({
-            sort_field: 'updated_at',
-            sort_order: -1
-          });
-          console.log("Follow-ups data received:", fups);
-          
-          if (Array.isArray(fups)) {
-            setFollowUps(fups);
-          } else {
-            console.error("Received non-array follow-ups data:", fups);
-            toast.error("Invalid data format received for follow-ups");
-          }
-          break;
-        case 'drafts':
-          console.log("Refreshing drafts data...");
-          const draftApps = await applicationsApi.getDrafts(5);
-          console.log("Drafts data received:", draftApps);
-          
-          if (Array.isArray(draftApps)) {
-            setDrafts(draftApps);
-          } else {
-            console.error("Received non-array drafts data:", draftApps);
-            toast.error("Invalid data format received for drafts");
-          }
-          break;
-      }
-    } catch (error) {
-      console.error(`Error refreshing ${dataType} data:`, error);
-      toast.error(`Failed to refresh ${dataType} data`);
-    } finally {
-      setIsLoading(prev => ({ ...prev, [dataType]: false }));
-    }
+  const refreshData = (dataType: 'applications' | 'followUps' | 'drafts' | 'queue' | 'scheduled') => {
+    const queries = {
+      applications: applicationsQuery,
+      followUps: followUpsQuery,
+      drafts: draftsQuery,
+      queue: awaitingReplyQuery,
+      scheduled: scheduledQuery
+    };
+    queries[dataType].refetch();
   };
+  
+  // Step back when the current page empties out (e.g. after marking its last row responded)
+  useEffect(() => {
+    if (applicationsQuery.data && !applicationsQuery.isPlaceholderData && applications.length === 0 && applicationsPage > 1) {
+      updateApplicationTable({ page: applicationsPage - 1 });
+    }
+  }, [applicationsQuery.data, applicationsQuery.isPlaceholderData, applications.length, applicationsPage, updateApplicationTable]);
+  
+  // A selection only makes sense for the rows it was made on
+  useEffect(() => {
+    clearApplicationSelection();
+  }, [applicationTable.filters, applicationsPage, clearApplicationSelection]);
+  
+  useEffect(() => {
+    if (followUpsQuery.data && !followUpsQuery.isPlaceholderData && followUps.length === 0 && followUpsPage > 1) {
+      setFollowUpsPage(page => page - 1);
+    }
+  }, [followUpsQuery.data, followUpsQuery.isPlaceholderData, followUps.length, followUpsPage]);
+  
+  // Surface load failures once per failed fetch
+  useEffect(() => {
+    if (applicationsQuery.error) {
+      toast.error(getErrorMessage(applicationsQuery.error, "Failed to load job applications"));
+    }
+  }, [applicationsQuery.error]);
+  
+  useEffect(() => {
+    if (followUpsQuery.error) {
+      toast.error(getErrorMessage(followUpsQuery.error, "Failed to load follow-ups"));
+    }
+  }, [followUpsQuery.error]);
+  
+  useEffect(() => {
+    if (draftsQuery.error) {
+      toast.error(getErrorMessage(draftsQuery.error, "Failed to load drafts"));
+    }
+  }, [draftsQuery.error]);
+  
+  useEffect(() => {
+    if (awaitingReplyQuery.error) {
+      toast.error(getErrorMessage(awaitingReplyQuery.error, "Failed to load the follow-up queue"));
+    }
+  }, [awaitingReplyQuery.error]);
+  
+  useEffect(() => {
+    if (scheduledQuery.error) {
+      toast.error(getErrorMessage(scheduledQuery.error, "Failed to load scheduled applications"));
+    }
+  }, [scheduledQuery.error]);
 
   const checkApi = async (retries = 2, delay = 1500) => {
     try {
@@ -144,80 +250,10 @@ const Dashboard = () => {
     }
   };
 
-  // Load data from backend API
+  // Check the backend once; the queries start as soon as it is connected
   useEffect(() => {
-    const loadData = async () => {
-      const isApiConnected = await checkApi();
-      if (!isApiConnected) {
-        // Don't attempt to load data if the API is not connected
-        setIsLoading({
-          applications: false,
-          followUps: false,
-          drafts: false
-        });
-        return;
-      }
-      
-      // Load all data in parallel
-      try {
-        // Fetch applications
-        setIsLoading(prev => ({ ...prev, applications: true }));
-        console.log("Fetching applications...");
-        const apps = await applicationsApi.getAll({ 
-          status: 'sent',
-          sort_field: 'updated_at',
-          sort_order: -1 
-        });
-        console.log("Received applications data:", apps);
-        
-        // Log the first application to see its structure
-        if (apps.length > 0) {
-          console.log("First application data structure:", apps[0]);
-          console.log("Application ID:", apps[0]._id, "Type:", typeof apps[0]._id);
-        }
-        
-        setApplications(apps);
-        setIsLoading(prev => ({ ...prev, applications: false }));
-        
-        // Fetch follow-ups
-        setIsLoading(prev => ({ ...prev, followUps: true }));
-        console.log("Fetching follow-ups...");
-        const fups = await followUpsApi.getAll({
-          sort_field: 'updated_at',
-          sort_order: -1
-        });
-        console.log("Received follow-ups data:", fups);
-        setFollowUps(fups);
-        setIsLoading(prev => ({ ...prev, followUps: false }));
-        
-        // Fetch drafts
-        setIsLoading(prev => ({ ...prev, drafts: true }));
-        console.log("Fetching drafts...");
-        const draftApps = await applicationsApi.getDrafts(5);
-        console.log("Received drafts data:", draftApps);
-        setDrafts(draftApps);
-        setIsLoading(prev => ({ ...prev, drafts: false }));
-      } catch (error) {
-        console.error("Error loading dashboard data:", error);
-        toast.error("Failed to load dashboard data");
-      }
-    };
-    
-    loadData();
-    
-    // Refresh data every 5 minutes
-    const refreshInterval = setInterval(() => {
-      if (activeTab === 'applications') {
-        refreshData('applications');
-      } else if (activeTab === 'followUps') {
-        refreshData('followUps');
-      } else if (activeTab === 'drafts') {
-        refreshData('drafts');
-      }
-    }, 5 * 60 * 1000);
-    
-    return () => clearInterval(refreshInterval);
-  }, [activeTab]);
+    checkApi();
+  }, []);
 
   // Handle tab change
   const handleTabChange = (value: string) => {
@@ -225,59 +261,19 @@ const Dashboard = () => {
   };
 
   // Update application status
-  const handleUpdateStatus = async (id: string, status: string) => {
-    try {
-      console.log(`Updating application ${id} status to ${status}`);
-      const success = await applicationsApi.update(id, { status });
-      
-      if (success) {
-        toast.success(`Application status updated to ${status}`);
-        
-        // Find the application in our state
-        const app = applications.find(a => a._id === id);
-        
-        if (app) {
-          // Update local state
-          setApplications(prev => 
-            prev.map(app => app._id === id ? { ...app, status } : app)
-          );
-          
-          // If the status is 'rejected' or 'accepted', update follow-up settings
-          if (status === 'rejected' || status === 'accepted') {
-            const updatedSettings: FollowUpSettings = {
-              ...app.follow_up_settings,
-              type: 'one_time' as const, // No more follow-ups needed
-              max_count: app.follow_up_settings.follow_up_count, // Cap at current count
-              interval_days: app.follow_up_settings.interval_days,
-              follow_up_count: app.follow_up_settings.follow_up_count,
-              last_follow_up_date: app.follow_up_settings.last_follow_up_date,
-              next_follow_up_date: app.follow_up_settings.next_follow_up_date
-            };
-            
-            try {
-              await applicationsApi.updateFollowUpSettings(id, updatedSettings);
-              
-              // Update local application state with new settings
-              setApplications(prev => 
-                prev.map(a => a._id === id ? { 
-                  ...a, 
-                  follow_up_settings: updatedSettings 
-                } : a)
-              );
-            } catch (settingsError) {
-              console.error("Failed to update follow-up settings:", settingsError);
-            }
-          }
-        }
+  const handleUpdateStatus = (app: JobApplication, status: ApplicationStatus) => {
+    console.log(`Updating application ${app._id} status to ${status}`);
+    updateStatusMutation.mutate({ application: app, status }, {
+      onSuccess: () => toast.success(`Application status updated to ${status}`),
+      onError: (error) => {
+        console.error("Error updating application status:", error);
+        toast.error(getErrorMessage(error, "Failed to update application status"));
       }
-    } catch (error) {
-      console.error("Error updating application status:", error);
-      toast.error("Failed to update application status");
-    }
+    });
   };
 
   // Convert draft to sent application
-  const handleConvertDraft = async (id: string | any) => {
+  const handleConvertDraft = async (id: string) => {
     try {
       // Check if email settings are configured
       if (!emailSettings.senderEmail || !emailSettings.senderPassword) {
@@ -285,44 +281,29 @@ const Dashboard = () => {
         return;
       }
       
-      // Extract the string ID if passed an object
-      let draftId = id;
-      if (typeof id === 'object') {
-        draftId = id._id || id.$oid || id;
-      }
-      
       toast.loading("Converting draft and sending email...", { id: "convert-draft-toast" });
       
       // Pass email settings to convertDraft function
-      const success = await applicationsApi.convertDraft(draftId, {
-        sender_email: emailSettings.senderEmail,
-        sender_name: emailSettings.senderName,
-        sender_password: emailSettings.senderPassword,
-        smtp_server: emailSettings.smtpServer,
-        smtp_port: emailSettings.smtpPort
+      await convertDraftMutation.mutateAsync({
+        id,
+        emailSettings: toSenderSettings(emailSettings)
       });
       
-      if (success) {
-        toast.success("Draft converted and email sent successfully", { id: "convert-draft-toast" });
-        
-        // Remove from drafts and refetch applications
-        setDrafts(prev => prev.filter(draft => draft._id !== id));
-        await refreshData('applications');
-      } else {
-        toast.error("Failed to send email - draft status maintained", { id: "convert-draft-toast" });
-        // Refresh drafts since the status might have changed and then changed back
-        await refreshData('drafts');
-      }
+      toast.success("Draft converted and email sent successfully", { id: "convert-draft-toast" });
     } catch (error) {
       console.error("Error converting draft:", error);
-      toast.error("Error processing draft - please check email settings", { id: "convert-draft-toast" });
-      // Refresh to ensure UI is in sync with actual data
-      await refreshData('drafts');
+      
+      // SMTP failures leave the draft in place; other errors may be transient
+      const message = getErrorMessage(error, "Error processing draft - please check email settings");
+      toast.error(
+        isApiError(error, 'smtp') ? `${message} The draft status was kept.` : message,
+        { id: "convert-draft-toast" }
+      );
     }
   };
 
-  // Create follow-up for an application
-  const handleCreateFollowUp = async (app: JobApplication) => {
+  // Create follow-up for an application from the reviewed subject and content
+  const handleCreateFollowUp = async (app: JobApplication, followUpData: FollowUpRequest) => {
     try {
       console.log("Creating follow-up for application:", app);
       
@@ -332,130 +313,63 @@ const Dashboard = () => {
         return;
       }
       
-      // Check if we have exceeded the maximum follow-up count
-      const followUpCount = app.follow_up_settings?.follow_up_count || 0;
-      const maxCount = app.follow_up_settings?.max_count || 3;
-      
-      if (followUpCount >= maxCount) {
-        toast.error(`Maximum follow-up limit (${maxCount}) has been reached for this application`);
+      // Not sent, paused or out of follow-ups
+      const blocker = getFollowUpBlocker(app);
+      if (blocker) {
+        toast.error(blocker);
         return;
       }
 
-      // Prepare content using template if available
-      let emailContent = '';
-      const applicationDate = safeFormatDate(app.sent_at || app.created_at);
-      
-      if (emailSettings.templates?.followUp) {
-        // Use the template with replacements
-        emailContent = emailSettings.templates.followUp
-          .replace(/{recipientName}/g, 'Hiring Manager')
-          .replace(/{position}/g, app.position)
-          .replace(/{company}/g, app.company)
-          .replace(/{applicationDate}/g, applicationDate)
-          .replace(/{senderName}/g, app.full_name || emailSettings.senderName || 'Job Applicant');
-      } else {
-        // Use default follow-up content if no template
-        emailContent = `Dear Hiring Manager,
-
-I hope this email finds you well. I wanted to follow up regarding my application for the ${app.position} position at ${app.company} that I submitted on ${applicationDate}.
-
-I remain very interested in this opportunity and would appreciate any updates you might have regarding the status of my application.
-
-Thank you for your time and consideration.
-
-Best regards,
-${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
-      }
-      
-      // Create follow-up data - using the exact format that works
-      const followUpData = {
-        recipient_email: app.recipient_email,
-        company: app.company,
-        position: app.position,
-        subject: `Re: ${app.subject}`,
-        content: emailContent,
-        status: "sent",
-        follow_up_settings: app.follow_up_settings,
-        full_name: app.full_name,
-        portfolio_url: app.portfolio_url,
-        linkedin_url: app.linkedin_url,
-        original_application_id: app._id,
-        // Add email settings for SMTP sending
-        sender_email: emailSettings.senderEmail,
-        sender_name: emailSettings.senderName,
-        sender_password: emailSettings.senderPassword,
-        smtp_server: emailSettings.smtpServer,
-        smtp_port: emailSettings.smtpPort
-      };
-
       console.log("Sending follow-up data:", followUpData);
       toast.loading("Creating and sending follow-up email...", { id: "followup-toast" });
 
-      // Create the follow-up email
-      const result = await followUpsApi.create(followUpData);
-      if (result && result.success) {
-        // Check if email was sent
-        if (result.email_sent) {
-          toast.success("Follow-up email sent successfully", { id: "followup-toast" });
-        } else if ('email_error' in result && result.email_error) {
-          toast.error(`Follow-up created but not sent: ${result.email_error}`, { id: "followup-toast" });
-        } else {
-          toast.success("Follow-up email created but not sent (missing credentials)", { id: "followup-toast" });
-        }
-        
-        // Refresh follow-ups data
-        await refreshData('followUps');
-        
-        // Update the follow-up settings in the application
-        const updatedSettings: FollowUpSettings = {
-          ...app.follow_up_settings,
-          follow_up_count: (app.follow_up_settings?.follow_up_count || 0) + 1,
-          last_follow_up_date: new Date().toISOString()
-        };
-        
-        // Update the follow-up settings in the backend
-        const settingsUpdateSuccess = await applicationsApi.updateFollowUpSettings(
-          app._id,
-          updatedSettings
-        );
-        
-        if (settingsUpdateSuccess) {
-          console.log("Successfully updated follow-up settings in application");
-        } else {
-          console.error("Failed to update follow-up settings in application");
-        }
-        
-        // Update the application in the local state
-        setApplications(prev => 
-          prev.map(a => a._id === app._id ? { 
-            ...a, 
-            follow_up_settings: updatedSettings 
-          } : a)
-        );
+      // Create the follow-up email; the hook also bumps the application's follow-up count
+      const result = await createFollowUpMutation.mutateAsync({ application: app, followUp: followUpData });
+      setFollowUpTarget(null);
+      
+      // Check if email was sent
+      if (result.email_sent) {
+        toast.success("Follow-up email sent successfully", { id: "followup-toast" });
+      } else if (result.email_error) {
+        toast.error(`Follow-up created but not sent: ${result.email_error}`, { id: "followup-toast" });
       } else {
-        console.error("Failed to create follow-up:", result);
-        toast.error("Failed to create follow-up email", { id: "followup-toast" });
+        toast.success("Follow-up email created but not sent (missing credentials)", { id: "followup-toast" });
       }
     } catch (error) {
       console.error("Error creating follow-up:", error);
-      toast.error("Failed to create follow-up email", { id: "followup-toast" });
+      toast.error(getErrorMessage(error, "Failed to create follow-up email"), { id: "followup-toast" });
     }
   };
 
-  const handleFollowUpSettingsUpdate = (application: JobApplication, updatedSettings: FollowUpSettings) => {
-    // Update local state
-    setApplications(prev => 
-      prev.map(app => 
-        app._id === application._id ? { ...app, follow_up_settings: updatedSettings } : app
-      )
-    );
+  // Schedule a draft, or move an already scheduled send
+  const handleSchedule = (scheduledAt: Date) => {
+    if (!scheduleTarget) return;
+    
+    scheduleMutation.mutate({ application: scheduleTarget, scheduledAt }, {
+      onSuccess: () => {
+        toast.success(`Application scheduled for ${format(scheduledAt, 'MMM d, HH:mm')}`);
+        setScheduleTarget(null);
+      },
+      onError: (error) => {
+        console.error("Error scheduling application:", error);
+        toast.error(getErrorMessage(error, "Failed to schedule application"));
+      }
+    });
+  };
+
+  // Cancel a scheduled send; the application goes back to drafts
+  const handleCancelSchedule = (app: JobApplication) => {
+    cancelScheduleMutation.mutate(app, {
+      onSuccess: () => toast.success("Scheduled send cancelled. The application is back in drafts."),
+      onError: (error) => toast.error(getErrorMessage(error, "Failed to cancel scheduled send"))
+    });
   };
 
-  const handleDeleteDraft = async (id: string) => {
-    // For now just remove from state
-    // In a real app, we'd call an API to delete the draft
-    setDrafts(prev => prev.filter(draft => draft._id !== id));
-    toast.success("Draft removed");
+  const handleDeleteDraft = (id: string) => {
+    deleteApplicationMutation.mutate(id, {
+      onSuccess: () => toast.success("Draft removed"),
+      onError: (error) => toast.error(getErrorMessage(error, "Failed to delete draft"))
+    });
   };
 
   const formatDate = (dateString: string | null) => {
@@ -463,27 +377,21 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
     return new Date(dateString).toLocaleDateString();
   };
 
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case 'sent':
-        return 'default';
-      case 'responded':
-        return 'secondary';
-      case 'rejected':
-        return 'destructive';
-      case 'accepted':
-        return 'secondary';
-      case 'draft':
-        return 'outline';
-      case 'processing':
-        return 'secondary';
-      case 'failed':
-        return 'destructive';
-      default:
-        return 'secondary';
-    }
+  // Next due follow-up, after business-day and sending-window adjustments
+  const formatNextFollowUp = (app: JobApplication) => {
+    const next = getApplicationNextFollowUpDate(app);
+    return next ? format(next, 'EEE, MMM d, HH:mm') : null;
   };
 
+  const sortableColumn = (field: ApplicationSortField, label: string) => (
+    <SortableTableHead
+      label={label}
+      active={applicationTable.state.sortField === field}
+      order={applicationTable.state.sortOrder}
+      onSort={() => applicationTable.toggleSort(field)}
+    />
+  );
+
   // Update the navigation handler function to handle IDs properly
   const handleNavigateToEdit = (app: JobApplication) => {
     console.log("Original application:", app);
@@ -520,12 +428,28 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
       <main className="container mx-auto px-4 py-6">
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-3xl font-bold">Application Dashboard</h1>
-          <Button 
-            onClick={() => navigate('/applications/new')} 
-            className="flex items-center gap-2"
-          >
-            <Plus className="h-4 w-4" /> New Application
-          </Button>
+          <div className="flex gap-2">
+            <Button 
+              variant="outline"
+              onClick={() => navigate('/board')} 
+              className="flex items-center gap-2"
+            >
+              <FolderKanban className="h-4 w-4" /> Board View
+            </Button>
+            <Button 
+              variant="outline"
+              onClick={() => navigate('/analytics')} 
+              className="flex items-center gap-2"
+            >
+              <BarChart3 className="h-4 w-4" /> Analytics
+            </Button>
+            <Button 
+              onClick={() => navigate('/applications/new')} 
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" /> New Application
+            </Button>
+          </div>
         </div>
         
         {apiStatus === 'error' && (
@@ -546,12 +470,12 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
           <Card>
             <CardHeader className="pb-2">
               <CardTitle>Applications</CardTitle>
-              <CardDescription>Total sent job applications</CardDescription>
+              <CardDescription>Applications matching the current filters</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="text-4xl font-bold flex items-center">
                 <Mail className="mr-2 h-8 w-8 text-primary" />
-                {isLoading.applications ? "Loading..." : applications.length}
+                {isLoading.applications ? "Loading..." : totals.applications}
               </div>
             </CardContent>
           </Card>
@@ -564,7 +488,7 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
             <CardContent>
               <div className="text-4xl font-bold flex items-center">
                 <Send className="mr-2 h-8 w-8 text-primary" />
-                {isLoading.followUps ? "Loading..." : followUps.length}
+                {isLoading.followUps ? "Loading..." : totals.followUps}
               </div>
             </CardContent>
           </Card>
@@ -584,109 +508,189 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
         </div>
         
         <Tabs defaultValue="applications" className="w-full mb-10" onValueChange={handleTabChange}>
-          <TabsList className="grid grid-cols-3 mb-4">
+          <TabsList className="grid grid-cols-5 mb-4">
             <TabsTrigger value="applications">Applications</TabsTrigger>
+            <TabsTrigger value="queue" className="gap-2">
+              Follow-up Queue
+              {dueFollowUpCount > 0 && <Badge variant="destructive">{dueFollowUpCount}</Badge>}
+            </TabsTrigger>
             <TabsTrigger value="followUps">Follow-ups</TabsTrigger>
             <TabsTrigger value="drafts">Drafts</TabsTrigger>
+            <TabsTrigger value="scheduled" className="gap-2">
+              Scheduled
+              {scheduled.length > 0 && <Badge variant="secondary">{scheduled.length}</Badge>}
+            </TabsTrigger>
           </TabsList>
           
           {/* Applications Tab */}
           <TabsContent value="applications">
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-2xl font-semibold">Recent Applications</h2>
+              <h2 className="text-2xl font-semibold">Applications</h2>
               <Button 
                 variant="outline" 
                 size="sm"
                 onClick={() => refreshData('applications')}
-                disabled={isLoading.applications}
+                disabled={isRefreshing.applications}
               >
-                {isLoading.applications ? "Refreshing..." : "Refresh"}
+                {isRefreshing.applications ? "Refreshing..." : "Refresh"}
               </Button>
             </div>
+            <ApplicationsToolbar
+              state={applicationTable.state}
+              onChange={applicationTable.update}
+              onReset={applicationTable.reset}
+              isFiltered={applicationTable.isFiltered}
+            />
+            <BulkActionBar
+              selected={applicationSelection.selected}
+              onClearSelection={applicationSelection.clear}
+            />
             {isLoading.applications ? (
               <p>Loading applications...</p>
             ) : Array.isArray(applications) && applications.length > 0 ? (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Date</TableHead>
-                    <TableHead>Company</TableHead>
-                    <TableHead>Position</TableHead>
-                    <TableHead>Recipient</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Follow-ups</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {applications
-                    .map(app => (
-                    <TableRow key={app._id}>
-                      <TableCell>{formatDate(app.sent_at)}</TableCell>
-                      <TableCell>{app.company || 'N/A'}</TableCell>
-                      <TableCell>{app.position || 'N/A'}</TableCell>
-                      <TableCell>{app.recipient_email}</TableCell>
-                      <TableCell>
-                        <Badge variant={getStatusBadgeVariant(app.status)}>{app.status}</Badge>
-                      </TableCell>
-                      <TableCell>
-                        {app.follow_up_settings?.follow_up_count || 0}/{app.follow_up_settings?.max_count || 0}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex space-x-2">
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                            onClick={() => handleUpdateStatus(app._id, 'responded')}
-                            disabled={app.status === 'responded'}
-                          >
-                            Mark Responded
-                          </Button>
-                          <FollowUpSettingsDialog 
-                            application={app}
-                            onSettingsUpdated={(settings) => handleFollowUpSettingsUpdate(app, settings)}
-                            trigger={
-                              <Button variant="outline" size="sm">Settings</Button>
-                            }
-                          />
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleCreateFollowUp(app)}
-                            disabled={
-                              app.status !== 'sent' || 
-                              (app.follow_up_settings?.follow_up_count || 0) >= (app.follow_up_settings?.max_count || 0)
-                            }
-                          >
-                            Send Follow-up
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleNavigateToEdit(app)}
-                            className="flex items-center gap-2"
-                          >
-                            <Eye className="h-4 w-4" /> View/Edit
-                          </Button>
-                        </div>
-                      </TableCell>
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={applicationSelection.headerState}
+                          onCheckedChange={applicationSelection.toggleAll}
+                          aria-label="Select all applications on this page"
+                        />
+                      </TableHead>
+                      {sortableColumn('sent_at', 'Date')}
+                      {sortableColumn('company', 'Company')}
+                      {sortableColumn('position', 'Position')}
+                      {sortableColumn('recipient_email', 'Recipient')}
+                      {sortableColumn('status', 'Status')}
+                      <TableHead>Follow-ups</TableHead>
+                      <TableHead>Actions</TableHead>
                     </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+                  </TableHeader>
+                  <TableBody>
+                    {applications
+                      .map(app => (
+                      <TableRow key={app._id} data-state={applicationSelection.isSelected(app._id) ? 'selected' : undefined}>
+                        <TableCell>
+                          <Checkbox
+                            checked={applicationSelection.isSelected(app._id)}
+                            onCheckedChange={() => applicationSelection.toggle(app._id)}
+                            aria-label={`Select application to ${app.company || app.recipient_email}`}
+                          />
+                        </TableCell>
+                        <TableCell>{formatDate(app.sent_at)}</TableCell>
+                        <TableCell>{app.company || 'N/A'}</TableCell>
+                        <TableCell>{app.position || 'N/A'}</TableCell>
+                        <TableCell>{app.recipient_email}</TableCell>
+                        <TableCell>
+                          <Badge variant={getStatusBadgeVariant(app.status)}>{app.status}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {app.follow_up_settings?.follow_up_count || 0}/{getFollowUpLimit(app.follow_up_settings)}
+                          {formatNextFollowUp(app) && (
+                            <div className="text-xs text-muted-foreground whitespace-nowrap">
+                              Next: {formatNextFollowUp(app)}
+                            </div>
+                          )}
+                          {isSequenceMissing(app.follow_up_settings) && (
+                            <div className="text-xs text-destructive whitespace-nowrap">
+                              Sequence not in this browser
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => handleUpdateStatus(app, 'responded')}
+                              disabled={app.status === 'responded' || !canTransition(app.status, 'responded')}
+                            >
+                              Mark Responded
+                            </Button>
+                            <FollowUpSettingsDialog 
+                              application={app}
+                              trigger={
+                                <Button variant="outline" size="sm">Settings</Button>
+                              }
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setFollowUpTarget(app)}
+                              disabled={getFollowUpBlocker(app) !== null}
+                              title={getFollowUpBlocker(app) ?? undefined}
+                            >
+                              Send Follow-up
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleNavigateToEdit(app)}
+                              className="flex items-center gap-2"
+                            >
+                              <Eye className="h-4 w-4" /> View/Edit
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <TablePagination
+                  page={applicationsPage}
+                  pageSize={PAGE_SIZE}
+                  total={totals.applications}
+                  onPageChange={setApplicationsPage}
+                />
+              </>
             ) : (
               <div className="text-center p-8 border rounded-lg">
-                <p className="mb-4">No applications found.</p>
-                <Button 
-                  variant="outline"
-                  onClick={() => refreshData('applications')}
-                >
-                  Refresh Data
-                </Button>
+                <p className="mb-4">
+                  {applicationTable.isFiltered ? "No applications match the current filters." : "No applications found."}
+                </p>
+                {applicationTable.isFiltered ? (
+                  <Button variant="outline" onClick={applicationTable.reset}>
+                    Clear Filters
+                  </Button>
+                ) : (
+                  <Button 
+                    variant="outline"
+                    onClick={() => refreshData('applications')}
+                  >
+                    Refresh Data
+                  </Button>
+                )}
               </div>
             )}
           </TabsContent>
           
+          {/* Follow-up Queue Tab */}
+          <TabsContent value="queue">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-semibold">Follow-up Queue</h2>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => refreshData('queue')}
+                disabled={isRefreshing.queue}
+              >
+                {isRefreshing.queue ? "Refreshing..." : "Refresh"}
+              </Button>
+            </div>
+            {isLoading.queue ? (
+              <p>Loading follow-up queue...</p>
+            ) : (
+              <FollowUpQueue
+                queue={followUpQueue}
+                onSend={setFollowUpTarget}
+                onOpen={handleNavigateToEdit}
+                isSending={createFollowUpMutation.isPending}
+              />
+            )}
+          </TabsContent>
+          
           {/* Follow-ups Tab */}
           <TabsContent value="followUps">
             <div className="flex justify-between items-center mb-4">
@@ -695,41 +699,49 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
                 variant="outline" 
                 size="sm"
                 onClick={() => refreshData('followUps')}
-                disabled={isLoading.followUps}
+                disabled={isRefreshing.followUps}
               >
-                {isLoading.followUps ? "Refreshing..." : "Refresh"}
+                {isRefreshing.followUps ? "Refreshing..." : "Refresh"}
               </Button>
             </div>
             {isLoading.followUps ? (
               <p>Loading follow-ups...</p>
             ) : followUps.length > 0 ? (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Date</TableHead>
-                    <TableHead>Company</TableHead>
-                    <TableHead>Position</TableHead>
-                    <TableHead>Recipient</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Follow-up #</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {followUps
-                    .map(followUp => (
-                    <TableRow key={followUp._id}>
-                      <TableCell>{formatDate(followUp.sent_at)}</TableCell>
-                      <TableCell>{followUp.company || 'N/A'}</TableCell>
-                      <TableCell>{followUp.position || 'N/A'}</TableCell>
-                      <TableCell>{followUp.recipient_email}</TableCell>
-                      <TableCell>
-                        <Badge variant={getStatusBadgeVariant(followUp.status)}>{followUp.status}</Badge>
-                      </TableCell>
-                      <TableCell>{followUp.follow_up_number}</TableCell>
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Company</TableHead>
+                      <TableHead>Position</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Follow-up #</TableHead>
                     </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+                  </TableHeader>
+                  <TableBody>
+                    {followUps
+                      .map(followUp => (
+                      <TableRow key={followUp._id}>
+                        <TableCell>{formatDate(followUp.sent_at)}</TableCell>
+                        <TableCell>{followUp.company || 'N/A'}</TableCell>
+                        <TableCell>{followUp.position || 'N/A'}</TableCell>
+                        <TableCell>{followUp.recipient_email}</TableCell>
+                        <TableCell>
+                          <Badge variant={getStatusBadgeVariant(followUp.status)}>{followUp.status}</Badge>
+                        </TableCell>
+                        <TableCell>{followUp.follow_up_number}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <TablePagination
+                  page={followUpsPage}
+                  pageSize={PAGE_SIZE}
+                  total={totals.followUps}
+                  onPageChange={setFollowUpsPage}
+                />
+              </>
             ) : (
               <p>No follow-ups found.</p>
             )}
@@ -738,12 +750,24 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
           {/* Drafts Tab */}
           <TabsContent value="drafts">
             <h2 className="text-2xl font-semibold mb-4">Application Drafts</h2>
+            <BulkActionBar
+              selected={draftSelection.selected}
+              onClearSelection={draftSelection.clear}
+              showFollowUpActions={false}
+            />
             {isLoading.drafts ? (
               <p>Loading drafts...</p>
             ) : drafts.length > 0 ? (
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={draftSelection.headerState}
+                        onCheckedChange={draftSelection.toggleAll}
+                        aria-label="Select all drafts"
+                      />
+                    </TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead>Company</TableHead>
                     <TableHead>Position</TableHead>
@@ -754,7 +778,14 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
                 <TableBody>
                   {drafts
                     .map(draft => (
-                    <TableRow key={draft._id}>
+                    <TableRow key={draft._id} data-state={draftSelection.isSelected(draft._id) ? 'selected' : undefined}>
+                      <TableCell>
+                        <Checkbox
+                          checked={draftSelection.isSelected(draft._id)}
+                          onCheckedChange={() => draftSelection.toggle(draft._id)}
+                          aria-label={`Select draft to ${draft.company || draft.recipient_email}`}
+                        />
+                      </TableCell>
                       <TableCell>{formatDate(draft.created_at)}</TableCell>
                       <TableCell>{draft.company || 'N/A'}</TableCell>
                       <TableCell>{draft.position || 'N/A'}</TableCell>
@@ -765,8 +796,17 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
                             variant="outline" 
                             size="sm"
                             onClick={() => handleConvertDraft(draft._id)}
+                            disabled={sendingIds.has(draft._id)}
+                          >
+                            {sendingIds.has(draft._id) ? 'Sending...' : 'Send'}
+                          </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => setScheduleTarget(draft)}
+                            className="flex items-center gap-2"
                           >
-                            Send
+                            <Clock className="h-4 w-4" /> Schedule
                           </Button>
                           <Button 
                             variant="destructive" 
@@ -793,7 +833,54 @@ ${app.full_name || emailSettings.senderName || 'Job Applicant'}`;
               <p>No draft applications found.</p>
             )}
           </TabsContent>
+          
+          {/* Scheduled Tab */}
+          <TabsContent value="scheduled">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-2xl font-semibold">Scheduled Applications</h2>
+                <p className="text-sm text-muted-foreground">Sent automatically at their scheduled time while the app is open</p>
+              </div>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => refreshData('scheduled')}
+                disabled={isRefreshing.scheduled}
+              >
+                {isRefreshing.scheduled ? "Refreshing..." : "Refresh"}
+              </Button>
+            </div>
+            {isLoading.scheduled ? (
+              <p>Loading scheduled applications...</p>
+            ) : (
+              <ScheduledSends
+                applications={scheduled}
+                onSendNow={(app) => handleConvertDraft(app._id)}
+                onReschedule={setScheduleTarget}
+                onCancel={handleCancelSchedule}
+                onOpen={handleNavigateToEdit}
+                isBusy={convertDraftMutation.isPending || cancelScheduleMutation.isPending}
+                sendingIds={sendingIds}
+              />
+            )}
+          </TabsContent>
         </Tabs>
+        
+        <ScheduleSendDialog
+          open={!!scheduleTarget}
+          onOpenChange={(open) => !open && setScheduleTarget(null)}
+          onConfirm={handleSchedule}
+          initialValue={scheduleTarget?.scheduled_at ? new Date(scheduleTarget.scheduled_at) : null}
+          title={scheduleTarget?.status === 'scheduled' ? "Reschedule" : "Schedule send"}
+          isSubmitting={scheduleMutation.isPending}
+        />
+
+        <SendFollowUpDialog
+          application={followUpTarget}
+          onOpenChange={(open) => !open && setFollowUpTarget(null)}
+          onSend={handleCreateFollowUp}
+          isSending={createFollowUpMutation.isPending}
+        />
       </main>
     </div>
   );
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { z } from 'zod';
 import { toast } from 'sonner';
@@ -7,21 +7,48 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { ArrowLeft, Save } from 'lucide-react';
-import { JobApplication, applicationsApi } from '@/lib/api';
+import { format } from 'date-fns';
+import { ArrowLeft, Clock, FileText, Save } from 'lucide-react';
+import { useApplication, useUpdateApplication, useUpdateApplicationStatus } from '@/hooks/useApplicationQueries';
+import { ApplicationStatus, getManualTransitions, getStatusBadgeVariant } from '@/lib/applicationStatus';
+import { getErrorMessage, isApiError } from '@/services/apiErrors';
+import { applyApiFieldErrors } from '@/lib/formErrors';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ApplicationTimeline from '@/components/ApplicationTimeline';
+import TemplatePicker from '@/components/email-templates/TemplatePicker';
+import RichTextEditor from '@/components/RichTextEditor';
+import PlainTextVersion from '@/components/PlainTextVersion';
+import { getContentHtml, htmlToPlainText, plainTextToHtml, toEmailContent } from '@/lib/emailHtml';
+import { formatPlaceholders, getApplicationValues } from '@/lib/templateEngine';
+import { TemplateChoice, TemplateSource, getTemplateSource, renderTemplateChoice } from '@/lib/templateLibrary';
+import { hasVariants, pickVariant } from '@/lib/templateVariants';
+import { EmailTemplateType, useEmailSettingsStore } from '@/store/emailSettingsStore';
+import { getContentHash, useTemplateVersionStore } from '@/store/templateVersionStore';
+import { Attachment } from '@/lib/api';
+import { getAttachmentFields, getAttachmentsSizeError, resolveAttachmentRefs } from '@/lib/attachments';
+import { useAttachments } from '@/hooks/useAttachments';
+import AttachmentPicker from '@/components/attachments/AttachmentPicker';
+import SentAttachments from '@/components/attachments/SentAttachments';
+import RecipientInput from '@/components/contacts/RecipientInput';
+import { Contact } from '@/store/contactStore';
+import { useCompanyStore } from '@/store/companyStore';
+import { getRecipientName } from '@/lib/contacts';
+import { getCompanyName } from '@/lib/companies';
 
 // Define the form schema with Zod - similar to NewApplicationPage
 const formSchema = z.object({
   recipient_email: z.string().email({ message: "Please enter a valid email address" }),
+  recipient_name: z.string(),
   company: z.string().min(1, { message: "Company name is required" }),
   position: z.string().min(1, { message: "Position is required" }),
   subject: z.string().min(1, { message: "Subject is required" }),
   content: z.string().min(20, { message: "Content should be at least 20 characters" }),
+  content_html: z.string(),
   full_name: z.string().min(1, { message: "Your full name is required" }),
   portfolio_url: z.string().url({ message: "Please enter a valid URL" }).optional().or(z.literal('')),
   linkedin_url: z.string().url({ message: "Please enter a valid URL" }).optional().or(z.literal(''))
@@ -29,144 +56,189 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+const UNSENT_STATUSES: readonly ApplicationStatus[] = ['draft', 'scheduled', 'failed'];
+
+const NO_ATTACHMENTS: Attachment[] = [];
+
 const EditApplicationPage = () => {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
-  const [isSaving, setIsSaving] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [application, setApplication] = useState<JobApplication | null>(null);
-  
+  const { settings: emailSettings } = useEmailSettingsStore();
   // Set up the form with react-hook-form
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       recipient_email: '',
+      recipient_name: '',
       company: '',
       position: '',
       subject: '',
       content: '',
+      content_html: '',
       full_name: '',
       portfolio_url: '',
       linkedin_url: ''
     }
   });
 
-  // Fetch the application data
+  // Extract the string ID from a potential serialized MongoDB ObjectId
+  const applicationId = useMemo(() => {
+    if (!id) return undefined;
+    try {
+      const parsedId = JSON.parse(id);
+      return parsedId?.$oid || id;
+    } catch (e) {
+      // If it's not a JSON string, use the ID as is
+      return id;
+    }
+  }, [id]);
+
+  const { data: application, isLoading, error: loadError } = useApplication(applicationId);
+  const updateApplicationMutation = useUpdateApplication();
+  const updateStatusMutation = useUpdateApplicationStatus();
+  const isSaving = updateApplicationMutation.isPending;
+  // Set when a library template is applied, replacing the one recorded on the application
+  const [templateSource, setTemplateSource] = useState<TemplateSource>({});
+  const templateVersion = useTemplateVersionStore(state =>
+    application?.template_id
+      ? state.histories[application.template_id]?.find(version =>
+          // Numbers only match in the browser that sent it; the wording matches anywhere
+          application.template_content_hash
+            ? getContentHash(version) === application.template_content_hash
+            : version.version === application.template_version)
+      : undefined
+  );
+  const { data: attachmentLibrary = NO_ATTACHMENTS } = useAttachments();
+  // Null until the picked files change; the application keeps its saved ones until then
+  const [pickedAttachments, setPickedAttachments] = useState<Attachment[] | null>(null);
+  const selectedAttachments = pickedAttachments ?? resolveAttachmentRefs(application?.attachments, attachmentLibrary);
+  const isUnsent = !!application && UNSENT_STATUSES.includes(application.status);
+
   useEffect(() => {
-    const fetchApplication = async () => {
-      if (!id) {
-        toast.error('No application ID provided');
-        navigate('/dashboard');
-        return;
-      }
+    if (!id) {
+      toast.error('No application ID provided');
+      navigate('/dashboard');
+    }
+  }, [id, navigate]);
 
-      console.log("Fetching application with ID:", id, "Type:", typeof id);
-      
-      // Extract the string ID from potential MongoDB ObjectId structure
-      let applicationId = "";
-      if (typeof id === 'string') {
-        // Handle potential serialized MongoDB ObjectId
-        try {
-          const parsedId = JSON.parse(id);
-          if (parsedId && parsedId.$oid) {
-            applicationId = parsedId.$oid;
-          } else {
-            applicationId = id;
-          }
-        } catch (e) {
-          // If it's not a JSON string, use the ID as is
-          applicationId = id;
-        }
-      } else if (typeof id === 'object') {
-        // Direct object reference
-        const objectId = id as any;
-        if (objectId.$oid) {
-          applicationId = objectId.$oid;
-        }
-      }
-      
-      console.log("Using application ID:", applicationId, "Type:", typeof applicationId);
+  // Set form values once the application has loaded
+  useEffect(() => {
+    if (!application) return;
 
-      setIsLoading(true);
-      try {
-        // Use the dedicated method to get application by ID
-        const foundApplication = await applicationsApi.getById(applicationId);
-        
-        if (!foundApplication) {
-          toast.error('Application not found');
-          navigate('/dashboard');
-          return;
-        }
+    console.log("Found application:", application);
+    form.reset({
+      recipient_email: application.recipient_email,
+      recipient_name: getRecipientName(application) ?? '',
+      company: application.company || '',
+      position: application.position || '',
+      subject: application.subject || '',
+      content: application.content || '',
+      content_html: getContentHtml(application),
+      full_name: application.full_name || '',
+      portfolio_url: application.portfolio_url || '',
+      linkedin_url: application.linkedin_url || ''
+    });
+  }, [application, form]);
 
-        console.log("Found application:", foundApplication);
-        setApplication(foundApplication);
-        
-        // Set form values from the application
-        form.reset({
-          recipient_email: foundApplication.recipient_email,
-          company: foundApplication.company || '',
-          position: foundApplication.position || '',
-          subject: foundApplication.subject || '',
-          content: foundApplication.content || '',
-          full_name: foundApplication.full_name || '',
-          portfolio_url: foundApplication.portfolio_url || '',
-          linkedin_url: foundApplication.linkedin_url || ''
-        });
-      } catch (error) {
-        console.error('Error fetching application:', error);
-        toast.error('Failed to load application');
-        navigate('/dashboard');
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  useEffect(() => {
+    if (!loadError) return;
 
-    fetchApplication();
-  }, [id, navigate, form]);
+    console.error('Error fetching application:', loadError);
+    toast.error(isApiError(loadError, 'not_found')
+      ? 'Application not found'
+      : getErrorMessage(loadError, 'Failed to load application'));
+    navigate('/dashboard');
+  }, [loadError, navigate]);
+
+  // Fill the picked template's subject and body from the form
+  const applyTemplate = (choice: TemplateChoice) => {
+    // Templates under A/B test get a variant picked for each application
+    const variant = pickVariant(choice);
+    const { subject, body, leftOver } = renderTemplateChoice(variant, getApplicationValues({
+      recipient_name: form.getValues('recipient_name'),
+      company: form.getValues('company'),
+      position: form.getValues('position'),
+      full_name: form.getValues('full_name'),
+      portfolio_url: form.getValues('portfolio_url'),
+      linkedin_url: form.getValues('linkedin_url')
+    }, emailSettings));
+    
+    if (subject !== null) {
+      form.setValue('subject', subject, { shouldValidate: true, shouldDirty: true });
+    }
+    form.setValue('content', body, { shouldValidate: true, shouldDirty: true });
+    form.setValue('content_html', plainTextToHtml(body), { shouldDirty: true });
+    setTemplateSource(getTemplateSource(choice, variant));
+    
+    if (leftOver.length > 0) {
+      toast.warning(`Template applied. Fill in ${formatPlaceholders(leftOver)} before sending.`);
+    } else {
+      toast.success(hasVariants(choice)
+        ? `"${choice.name}" applied (variant ${variant.name})!`
+        : `"${choice.name}" applied!`);
+    }
+  };
+
+  // Address the email to the picked contact, and take their company if none is entered yet
+  const handleSelectContact = (contact: Contact) => {
+    if (contact.name) {
+      form.setValue('recipient_name', contact.name, { shouldDirty: true });
+    }
+    if (contact.company && !form.getValues('company')) {
+      form.setValue('company', contact.company, { shouldValidate: true, shouldDirty: true });
+    }
+  };
+
+  const handleStatusChange = (status: ApplicationStatus) => {
+    if (!application || status === application.status) return;
+
+    updateStatusMutation.mutate({ application, status }, {
+      onSuccess: () => toast.success(`Application status updated to ${status}`),
+      onError: (error) => {
+        console.error('Error updating application status:', error);
+        toast.error(getErrorMessage(error, 'Failed to update application status'));
+      }
+    });
+  };
 
   const handleSaveChanges = async (values: FormValues) => {
-    if (!id || !application) {
+    if (!applicationId || !application) {
       toast.error('Application data missing');
       return;
     }
 
-    setIsSaving(true);
+    const sizeError = pickedAttachments ? getAttachmentsSizeError(pickedAttachments) : null;
+    if (sizeError) {
+      toast.error(sizeError);
+      return;
+    }
+
     try {
       // Update the application with new values
-      const success = await applicationsApi.update(id, {
-        ...values,
-        // Preserve the status and other fields not in the form
-        status: application.status
+      await updateApplicationMutation.mutateAsync({
+        id: applicationId,
+        // Status changes go through the status selector so they are validated
+        updates: {
+          ...values,
+          company: getCompanyName(values.company),
+          ...toEmailContent(values.content_html),
+          ...templateSource,
+          ...(pickedAttachments ? getAttachmentFields(pickedAttachments) : {})
+        }
       });
+      useCompanyStore.getState().ensureCompany(values.company, values.recipient_email);
       
-      if (success) {
-        toast.success('Application updated successfully');
-        navigate('/dashboard');
-      } else {
-        toast.error('Failed to update application');
-      }
+      toast.success('Application updated successfully');
+      navigate('/dashboard');
     } catch (error) {
       console.error('Error updating application:', error);
-      toast.error('Failed to update application. Please try again.');
-    } finally {
-      setIsSaving(false);
-    }
-  };
-
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case 'sent':
-        return 'default';
-      case 'responded':
-        return 'secondary';
-      case 'rejected':
-        return 'destructive';
-      case 'accepted':
-        return 'secondary';
-      case 'draft':
-        return 'outline';
-      default:
-        return 'secondary';
+      
+      // Show server-side validation messages next to the offending fields
+      if (applyApiFieldErrors(error, form.setError, Object.keys(formSchema.shape))) {
+        toast.error('Please fix the highlighted fields');
+      } else {
+        toast.error(getErrorMessage(error, 'Failed to update application. Please try again.'));
+      }
     }
   };
 
@@ -187,9 +259,40 @@ const EditApplicationPage = () => {
           <div className="flex justify-between items-center">
             <h1 className="text-3xl font-bold">Edit Application</h1>
             {application && (
-              <Badge variant={getStatusBadgeVariant(application.status)}>
-                Status: {application.status}
-              </Badge>
+              <div className="flex items-center gap-2">
+                <Badge variant={getStatusBadgeVariant(application.status)}>
+                  Status: {application.status}
+                </Badge>
+                {application.status === 'scheduled' && application.scheduled_at && (
+                  <Badge variant="outline" className="gap-1">
+                    <Clock className="h-3 w-3" />
+                    Sends {format(new Date(application.scheduled_at), 'MMM d, HH:mm')}
+                  </Badge>
+                )}
+                {templateVersion && (
+                  <Badge variant="outline" className="gap-1" title="Template version this email was written from">
+                    <FileText className="h-3 w-3" />
+                    {templateVersion.name} v{templateVersion.version}
+                  </Badge>
+                )}
+                {/* Only moves allowed from the current status are offered */}
+                <Select
+                  value=""
+                  onValueChange={(value) => handleStatusChange(value as ApplicationStatus)}
+                  disabled={updateStatusMutation.isPending || getManualTransitions(application.status).length === 0}
+                >
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue placeholder="Change status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getManualTransitions(application.status).map(status => (
+                      <SelectItem key={status} value={status} className="capitalize">
+                        {status}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             )}
           </div>
         </div>
@@ -221,7 +324,7 @@ const EditApplicationPage = () => {
                         <FormItem>
                           <FormLabel>Recipient Email</FormLabel>
                           <FormControl>
-                            <Input placeholder="hiring@company.com" {...field} />
+                            <RecipientInput placeholder="hiring@company.com" onSelectContact={handleSelectContact} {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -230,13 +333,14 @@ const EditApplicationPage = () => {
                     
                     <FormField
                       control={form.control}
-                      name="full_name"
+                      name="recipient_name"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Your Full Name</FormLabel>
+                          <FormLabel>Recipient Name</FormLabel>
                           <FormControl>
-                            <Input placeholder="John Doe" {...field} />
+                            <Input placeholder="Jane Smith" {...field} />
                           </FormControl>
+                          <FormDescription>Fills in {'{recipientName}'} in templates.</FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -290,7 +394,21 @@ const EditApplicationPage = () => {
                     )}
                   />
                   
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="full_name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Your Full Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="John Doe" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
                     <FormField
                       control={form.control}
                       name="portfolio_url"
@@ -325,21 +443,41 @@ const EditApplicationPage = () => {
                     name="content"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Email Content</FormLabel>
+                        <div className="flex items-center justify-between gap-2">
+                          <FormLabel>Email Content</FormLabel>
+                          {/* Templates only make sense for emails that haven't gone out yet */}
+                          {isUnsent && (
+                            <TemplatePicker type={EmailTemplateType.JOB_APPLICATION} onApply={applyTemplate} />
+                          )}
+                        </div>
                         <FormControl>
-                          <Textarea 
-                            placeholder="Application email content..." 
-                            className="min-h-32"
-                            {...field} 
+                          <RichTextEditor
+                            value={form.watch('content_html')}
+                            onChange={(html) => {
+                              form.setValue('content_html', html, { shouldDirty: true });
+                              field.onChange(htmlToPlainText(html));
+                            }}
+                            placeholder="Application email content..."
                           />
                         </FormControl>
                         <FormDescription>
-                          Edit your application email content here.
+                          Edit your application email content here. A plain-text version is sent alongside it.
                         </FormDescription>
                         <FormMessage />
+                        <PlainTextVersion text={field.value} />
                       </FormItem>
                     )}
                   />
+
+                  <div className="space-y-2">
+                    <Label>Attachments</Label>
+                    {/* Sent emails show exactly which file versions went out */}
+                    {isUnsent ? (
+                      <AttachmentPicker value={selectedAttachments} onChange={setPickedAttachments} disabled={isSaving} />
+                    ) : (
+                      <SentAttachments attachments={application?.attachments ?? []} />
+                    )}
+                  </div>
                   
                   <div className="flex justify-end pt-4">
                     <Button
@@ -355,6 +493,8 @@ const EditApplicationPage = () => {
             )}
           </CardContent>
         </Card>
+        
+        {application && <ApplicationTimeline application={application} />}
       </main>
     </div>
   );
@@ -1,26 +1,49 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { z } from 'zod';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
 import Header from '@/components/Header';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { ArrowLeft, Send, Save, FileText } from 'lucide-react';
-import { applicationsApi } from '@/lib/api';
-import { useEmailSettingsStore } from '@/store/emailSettingsStore';
+import { ArrowLeft, Send, Save, Clock } from 'lucide-react';
+import { ApplicationFilters, Attachment, applicationsApi } from '@/lib/api';
+import { getErrorMessage, isApiError } from '@/services/apiErrors';
+import { applyApiFieldErrors } from '@/lib/formErrors';
+import { formatPlaceholders, getApplicationValues, getTemplatePlaceholders } from '@/lib/templateEngine';
+import { TemplateChoice, TemplateSource, getTemplateSource, renderTemplateChoice } from '@/lib/templateLibrary';
+import { hasVariants, pickVariant } from '@/lib/templateVariants';
+import { EmailTemplateType, useEmailSettingsStore } from '@/store/emailSettingsStore';
+import TemplatePicker from '@/components/email-templates/TemplatePicker';
+import ScheduleSendDialog from '@/components/ScheduleSendDialog';
+import RichTextEditor from '@/components/RichTextEditor';
+import PlainTextVersion from '@/components/PlainTextVersion';
+import { htmlToPlainText, plainTextToHtml, toEmailContent } from '@/lib/emailHtml';
+import { getAttachmentFields, getAttachmentsSizeError, mentionsAttachment } from '@/lib/attachments';
+import AttachmentPicker from '@/components/attachments/AttachmentPicker';
+import CoverLetterSection from '@/components/CoverLetterSection';
+import { useCoverLetter } from '@/hooks/useCoverLetter';
+import RecipientInput from '@/components/contacts/RecipientInput';
+import { Contact, useContactStore } from '@/store/contactStore';
+import DuplicateApplicationAlert from '@/components/companies/DuplicateApplicationAlert';
+import { findDuplicateApplications, getCompanyName } from '@/lib/companies';
+import { useApplications } from '@/hooks/useApplicationQueries';
+import { normalizeCompanyName, useCompanyStore } from '@/store/companyStore';
 
 // Define the form schema with Zod
 const formSchema = z.object({
   recipient_email: z.string().email({ message: "Please enter a valid email address" }),
+  recipient_name: z.string(),
   company: z.string().min(1, { message: "Company name is required" }),
   position: z.string().min(1, { message: "Position is required" }),
   subject: z.string().min(1, { message: "Subject is required" }),
   content: z.string().min(20, { message: "Content should be at least 20 characters" }),
+  content_html: z.string(),
   full_name: z.string().min(1, { message: "Your full name is required" }),
   portfolio_url: z.string().url({ message: "Please enter a valid URL" }).optional().or(z.literal('')),
   linkedin_url: z.string().url({ message: "Please enter a valid URL" }).optional().or(z.literal(''))
@@ -28,54 +51,97 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+// Every application, to catch applying for the same role twice
+const ALL_APPLICATIONS: ApplicationFilters = { sort_field: 'sent_at', sort_order: 1 };
+
 const NewApplicationPage = () => {
   const navigate = useNavigate();
   const [isSaving, setIsSaving] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  // Library template version the email was written from, recorded on the application
+  const [templateSource, setTemplateSource] = useState<TemplateSource>({});
+  // Library files to send, recorded on the application by version
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Going ahead with an application for a role already applied to
+  const [confirmedDuplicate, setConfirmedDuplicate] = useState(false);
   // Get email settings from store
   const { settings: emailSettings } = useEmailSettingsStore();
+  const companies = useCompanyStore(state => state.companies);
+  const { data: applications } = useApplications(ALL_APPLICATIONS);
   
   // Set up the form with react-hook-form
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       recipient_email: '',
+      recipient_name: '',
       company: '',
       position: '',
       subject: '',
       content: '',
+      content_html: '',
       full_name: '',
       portfolio_url: '',
       linkedin_url: ''
     }
   });
 
-  // Handle applying the job application template
-  const applyJobApplicationTemplate = () => {
-    if (!emailSettings.templates?.jobApplication) {
-      toast.error("No job application template found. Please set up a template in Settings.");
-      return;
-    }
+  const formValues = form.watch();
+  const coverLetter = useCoverLetter(getApplicationValues({
+    recipient_name: formValues.recipient_name,
+    company: formValues.company,
+    position: formValues.position,
+    full_name: formValues.full_name,
+    portfolio_url: formValues.portfolio_url,
+    linkedin_url: formValues.linkedin_url
+  }, emailSettings));
 
-    const recipientEmail = form.getValues('recipient_email');
-    const company = form.getValues('company');
-    const position = form.getValues('position');
-    const fullName = form.getValues('full_name');
+  const duplicates = findDuplicateApplications(applications ?? [], formValues.company, formValues.position);
+  const matchedCompany = companies.find(company => company.normalizedName === normalizeCompanyName(formValues.company));
 
-    // Apply template with replacements
-    let content = emailSettings.templates.jobApplication;
-    content = content.replace(/{recipientName}/g, recipientEmail.split('@')[0] || 'Hiring Manager');
-    content = content.replace(/{company}/g, company || '[Company Name]');
-    content = content.replace(/{position}/g, position || '[Position]');
-    content = content.replace(/{senderName}/g, fullName || emailSettings.senderName || 'Job Applicant');
-    content = content.replace(/{customMessage}/g, 'I am excited about the opportunity to contribute to your team and am eager to discuss how my background aligns with your needs.');
+  // A confirmation only covers the role it was given for
+  useEffect(() => {
+    setConfirmedDuplicate(false);
+  }, [formValues.company, formValues.position]);
+
+  // Fill the picked template's subject and body from the form
+  const applyTemplate = (choice: TemplateChoice) => {
+    // Templates under A/B test get a variant picked for each application
+    const variant = pickVariant(choice);
+    const { subject, body, leftOver } = renderTemplateChoice(variant, getApplicationValues({
+      recipient_name: form.getValues('recipient_name'),
+      company: form.getValues('company'),
+      position: form.getValues('position'),
+      full_name: form.getValues('full_name'),
+      portfolio_url: form.getValues('portfolio_url'),
+      linkedin_url: form.getValues('linkedin_url')
+    }, emailSettings));
     
-    // Generate subject line if empty
-    if (!form.getValues('subject')) {
-      form.setValue('subject', `Application for ${position} position at ${company}`);
+    if (subject !== null) {
+      form.setValue('subject', subject, { shouldValidate: true });
     }
+    form.setValue('content', body, { shouldValidate: true });
+    form.setValue('content_html', plainTextToHtml(body));
+    setTemplateSource(getTemplateSource(choice, variant));
     
-    form.setValue('content', content, { shouldValidate: true });
-    toast.success("Job application template applied!");
+    // Anything left in braces has to be filled in by hand before sending
+    if (leftOver.length > 0) {
+      toast.warning(`Template applied. Fill in ${formatPlaceholders(leftOver)} before sending.`);
+    } else {
+      toast.success(hasVariants(choice)
+        ? `"${choice.name}" applied (variant ${variant.name})!`
+        : `"${choice.name}" applied!`);
+    }
+  };
+
+  // Address the email to the picked contact, and take their company if none is entered yet
+  const handleSelectContact = (contact: Contact) => {
+    if (contact.name) {
+      form.setValue('recipient_name', contact.name, { shouldDirty: true });
+    }
+    if (contact.company && !form.getValues('company')) {
+      form.setValue('company', contact.company, { shouldValidate: true, shouldDirty: true });
+    }
   };
 
   // Auto-fill sender's name and email when component mounts
@@ -85,28 +151,142 @@ const NewApplicationPage = () => {
     }
   }, [emailSettings, form]);
 
+  // Map validation errors onto the form fields, otherwise show a toast
+  const handleSubmitError = (error: unknown, fallback: string) => {
+    if (applyApiFieldErrors(error, form.setError, Object.keys(formSchema.shape))) {
+      toast.error('Please fix the highlighted fields');
+      return;
+    }
+    toast.error(getErrorMessage(error, fallback));
+  };
+
+  // A template placeholder still in the email means something wasn't filled in
+  const hasLeftoverPlaceholders = (values: FormValues) => {
+    const leftOver = getTemplatePlaceholders(`${values.subject}\n${values.content}`);
+    if (leftOver.length === 0) return false;
+    
+    form.setError('content', { message: `Fill in ${formatPlaceholders(leftOver)} before sending` });
+    toast.error('Please fill in the remaining template placeholders');
+    return true;
+  };
+
+  // The cover letter is a file once saved, so it has to be complete even in drafts
+  const hasCoverLetterPlaceholders = () => {
+    if (!coverLetter.letter || coverLetter.leftOver.length === 0) return false;
+    toast.error(`Fill in ${formatPlaceholders(coverLetter.leftOver)} in the cover letter first`);
+    return true;
+  };
+
+  // Catch "I have attached my resume" with nothing attached, and emails too big to send
+  const hasAttachmentProblems = (values: FormValues) => {
+    const sizeError = getAttachmentsSizeError(attachments);
+    if (sizeError) {
+      toast.error(sizeError);
+      return true;
+    }
+    if (hasCoverLetterPlaceholders()) return true;
+    if (attachments.length === 0 && !coverLetter.letter && mentionsAttachment(values.content)) {
+      form.setError('content', { message: 'The email mentions an attachment, but nothing is attached' });
+      toast.error('Attach a file or remove the mention of an attachment');
+      return true;
+    }
+    return false;
+  };
+
+  // Sending again for a role already applied to has to be confirmed first
+  const isUnconfirmedDuplicate = () => {
+    if (duplicates.length === 0 || confirmedDuplicate) return false;
+    toast.error('You have already applied for this role. Confirm to apply again.');
+    return true;
+  };
+
+  // Save with the picked files plus the generated cover letter, uploaded to the
+  // attachments library first. The upload is removed again when nothing was saved.
+  const saveWithAttachments = async <T,>(values: FormValues, save: (outgoing: Attachment[]) => Promise<T>): Promise<T> => {
+    if (!coverLetter.letter) {
+      return save(attachments);
+    }
+
+    const upload = await coverLetter.upload(values.company, values.full_name);
+    try {
+      return await save([...attachments.filter(attachment => attachment._id !== upload.attachment._id), upload.attachment]);
+    } catch (error) {
+      // These may have saved the application with the letter attached
+      if (!isApiError(error, 'smtp') && !isApiError(error, 'send_unknown')) {
+        await coverLetter.discard(upload).catch(discardError => {
+          console.error('Error removing unused cover letter upload:', discardError);
+        });
+      }
+      throw error;
+    }
+  };
+
   const handleCreateDraft = async (values: FormValues) => {
+    if (hasCoverLetterPlaceholders()) return;
     setIsSaving(true);
     try {
       // Add status field to create a draft
-      const response = await applicationsApi.create({
+      await saveWithAttachments(values, outgoing => applicationsApi.create({
         ...values,
+        company: getCompanyName(values.company),
+        ...toEmailContent(values.content_html),
+        ...templateSource,
+        ...getAttachmentFields(outgoing),
         status: 'draft'
-      });
+      }));
+      // Only saved applications add their company
+      useCompanyStore.getState().ensureCompany(values.company, values.recipient_email);
       
       // If we reach here, the request was successful
       toast.success('Draft created successfully');
       navigate('/dashboard');
     } catch (error) {
       console.error('Error creating draft:', error);
-      // Display the error message directly from the caught error
-      toast.error(error instanceof Error ? error.message : 'Failed to create draft');
+      handleSubmitError(error, 'Failed to create draft');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  
+  // Save the application to be sent at a later time
+  const handleScheduleApplication = async (values: FormValues, scheduledAt: Date) => {
+    if (hasLeftoverPlaceholders(values) || hasAttachmentProblems(values) || isUnconfirmedDuplicate()) {
+      setIsScheduleOpen(false);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      // The email goes out later with whatever email settings are saved then
+      if (!emailSettings.senderEmail || !emailSettings.senderPassword) {
+        toast.error("Please configure your email settings first");
+        return;
+      }
+      
+      await saveWithAttachments(values, outgoing => applicationsApi.create({
+        ...values,
+        company: getCompanyName(values.company),
+        ...toEmailContent(values.content_html),
+        ...templateSource,
+        ...getAttachmentFields(outgoing),
+        status: 'scheduled',
+        scheduled_at: scheduledAt.toISOString()
+      }));
+      useCompanyStore.getState().ensureCompany(values.company, values.recipient_email);
+      
+      toast.success(`Application scheduled for ${format(scheduledAt, 'MMM d, HH:mm')}`);
+      setIsScheduleOpen(false);
+      navigate('/dashboard');
+    } catch (error) {
+      console.error('Error scheduling application:', error);
+      setIsScheduleOpen(false);
+      handleSubmitError(error, 'Failed to schedule application');
     } finally {
       setIsSaving(false);
     }
   };
   
   const handleCreateApplication = async (values: FormValues) => {
+    if (hasLeftoverPlaceholders(values) || hasAttachmentProblems(values) || isUnconfirmedDuplicate()) return;
     setIsSaving(true);
     try {
       // Check if email settings are configured
@@ -115,18 +295,22 @@ const NewApplicationPage = () => {
         return;
       }
       
+      const company = getCompanyName(values.company);
       // Use the applications API to create the application directly
       // The backend will handle email sending based on the status
-      const response = await applicationsApi.create({
+      const result = await saveWithAttachments(values, outgoing => applicationsApi.create({
         // Application data
         recipient_email: values.recipient_email,
-        company: values.company,
+        recipient_name: values.recipient_name,
+        company,
         position: values.position,
         subject: values.subject,
-        content: values.content,
+        ...toEmailContent(values.content_html),
         full_name: values.full_name,
         portfolio_url: values.portfolio_url || '',
         linkedin_url: values.linkedin_url || '',
+        ...templateSource,
+        ...getAttachmentFields(outgoing),
         
         // Email sending settings - backend will use these to send email
         sender_email: emailSettings.senderEmail,
@@ -135,15 +319,24 @@ const NewApplicationPage = () => {
         
         // Set status to 'processing' to trigger email sending in the backend
         status: 'processing'
-      });
+      }));
+      useCompanyStore.getState().ensureCompany(values.company, values.recipient_email);
+      
+      // Only once the email is confirmed sent; what was sent to them is read from the server
+      if (result.email_sent !== false) {
+        useContactStore.getState().addRecipient({
+          email: values.recipient_email,
+          name: values.recipient_name,
+          company
+        });
+      }
       
       // If we reach here, the request was successful
       toast.success('Application created successfully');
       navigate('/dashboard');
     } catch (error) {
       console.error('Error creating application:', error);
-      // Display the error message directly from the caught error
-      toast.error(error instanceof Error ? error.message : 'Failed to create application');
+      handleSubmitError(error, 'Failed to create application');
     } finally {
       setIsSaving(false);
     }
@@ -170,7 +363,7 @@ const NewApplicationPage = () => {
           <CardHeader>
             <CardTitle>Job Application Details</CardTitle>
             <CardDescription>
-              Fill out the form below to create a new job application. You can save it as a draft or send it immediately.
+              Fill out the form below to create a new job application. You can save it as a draft, send it immediately or schedule it for later.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -184,7 +377,7 @@ const NewApplicationPage = () => {
                       <FormItem>
                         <FormLabel>Recipient Email *</FormLabel>
                         <FormControl>
-                          <Input placeholder="hiring@company.com" {...field} />
+                          <RecipientInput placeholder="hiring@company.com" onSelectContact={handleSelectContact} {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -193,13 +386,14 @@ const NewApplicationPage = () => {
                   
                   <FormField
                     control={form.control}
-                    name="full_name"
+                    name="recipient_name"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Your Full Name *</FormLabel>
+                        <FormLabel>Recipient Name</FormLabel>
                         <FormControl>
-                          <Input placeholder="Your Name" {...field} />
+                          <Input placeholder="Jane Smith" {...field} />
                         </FormControl>
+                        <FormDescription>Fills in {'{recipientName}'} in templates.</FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -216,6 +410,11 @@ const NewApplicationPage = () => {
                         <FormControl>
                           <Input placeholder="Company Name" {...field} />
                         </FormControl>
+                        {matchedCompany && matchedCompany.name !== field.value.trim() && (
+                          <FormDescription>
+                            Saved as <Link to={`/companies/${matchedCompany.id}`} className="underline">{matchedCompany.name}</Link>.
+                          </FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -236,6 +435,12 @@ const NewApplicationPage = () => {
                   />
                 </div>
                 
+                <DuplicateApplicationAlert
+                  duplicates={duplicates}
+                  confirmed={confirmedDuplicate}
+                  onConfirmedChange={setConfirmedDuplicate}
+                />
+                
                 <FormField
                   control={form.control}
                   name="subject"
@@ -261,31 +466,46 @@ const NewApplicationPage = () => {
                       <FormItem className="w-full">
                         <FormLabel>Email Content *</FormLabel>
                         <div className="flex justify-end mb-2">
-                          <Button 
-                            type="button" 
-                            variant="outline" 
-                            size="sm" 
-                            onClick={applyJobApplicationTemplate}
-                            className="flex items-center"
-                          >
-                            <FileText className="h-4 w-4 mr-2" />
-                            Apply Template
-                          </Button>
+                          <TemplatePicker type={EmailTemplateType.JOB_APPLICATION} onApply={applyTemplate} />
                         </div>
                         <FormControl>
-                          <Textarea 
-                            placeholder="Your application email content" 
-                            className="min-h-[200px]" 
-                            {...field} 
+                          <RichTextEditor
+                            value={form.watch('content_html')}
+                            onChange={(html) => {
+                              form.setValue('content_html', html);
+                              field.onChange(htmlToPlainText(html));
+                            }}
+                            placeholder="Your application email content"
                           />
                         </FormControl>
                         <FormMessage />
+                        <PlainTextVersion text={field.value} />
                       </FormItem>
                     )}
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label>Attachments</Label>
+                  <AttachmentPicker value={attachments} onChange={setAttachments} disabled={isSaving} />
+                  <CoverLetterSection coverLetter={coverLetter} author={formValues.full_name} disabled={isSaving} />
+                </div>
                 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="full_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Your Full Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Your Name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
                   <FormField
                     control={form.control}
                     name="portfolio_url"
@@ -325,6 +545,15 @@ const NewApplicationPage = () => {
                     <Save className="mr-2 h-4 w-4" />
                     Save as Draft
                   </Button>
+                  <Button 
+                    type="button"
+                    variant="outline" 
+                    onClick={() => setIsScheduleOpen(true)}
+                    disabled={isSaving || !form.formState.isValid}
+                  >
+                    <Clock className="mr-2 h-4 w-4" />
+                    Send Later
+                  </Button>
                   <Button 
                     type="button"
                     onClick={() => handleCreateApplication(form.getValues())}
@@ -338,6 +567,13 @@ const NewApplicationPage = () => {
             </Form>
           </CardContent>
         </Card>
+        
+        <ScheduleSendDialog
+          open={isScheduleOpen}
+          onOpenChange={setIsScheduleOpen}
+          onConfirm={(scheduledAt) => handleScheduleApplication(form.getValues(), scheduledAt)}
+          isSubmitting={isSaving}
+        />
       </main>
     </div>
   );
@@ -5,11 +5,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
-import { Mail, User, Server, Key, ShieldAlert, ArrowLeft, FileText } from 'lucide-react';
+import { Mail, User, Server, Key, ShieldAlert, ArrowLeft, FileText, ListOrdered, Paperclip } from 'lucide-react';
 import { useEmailSettingsStore, EmailTemplates } from '@/store/emailSettingsStore';
 import { toast } from 'sonner';
 import { Link } from 'react-router-dom';
 import TemplatesManager from '@/components/email-templates/TemplatesManager';
+import TemplateIssuesAlert from '@/components/email-templates/TemplateIssuesAlert';
+import SequencesManager from '@/components/follow-up-sequences/SequencesManager';
+import AttachmentsManager from '@/components/attachments/AttachmentsManager';
 
 const Settings = () => {
   // Get email settings from the store
@@ -30,7 +33,7 @@ const Settings = () => {
     jobApplication: settings.templates?.jobApplication || 
       `Dear {recipientName},
 
-I am writing to express my interest in the {position} position at {company}. With my background in {skill}, I believe I would be a great fit for this role.
+I am writing to express my interest in the {position} position at {company}. With my background and experience, I believe I would be a great fit for this role.
 
 {customMessage}
 
@@ -165,6 +168,20 @@ Best regards,
                 <FileText className="h-4 w-4 mr-2" />
                 Email Templates
               </TabsTrigger>
+              <TabsTrigger 
+                value="sequences" 
+                className="justify-start text-left px-4 py-3 data-[state=active]:bg-muted"
+              >
+                <ListOrdered className="h-4 w-4 mr-2" />
+                Follow-up Sequences
+              </TabsTrigger>
+              <TabsTrigger 
+                value="attachments" 
+                className="justify-start text-left px-4 py-3 data-[state=active]:bg-muted"
+              >
+                <Paperclip className="h-4 w-4 mr-2" />
+                Attachments
+              </TabsTrigger>
             </TabsList>
           </Tabs>
         </Card>
@@ -330,6 +347,7 @@ Best regards,
                       className="min-h-[200px] font-mono text-sm"
                       required
                     />
+                    <TemplateIssuesAlert template={templates.jobApplication} context="application" />
                   </div>
                   
                   <div className="space-y-2">
@@ -346,6 +364,7 @@ Best regards,
                       className="min-h-[200px] font-mono text-sm"
                       required
                     />
+                    <TemplateIssuesAlert template={templates.followUp} context="followUp" />
                   </div>
                   
                   <Button type="submit" className="mt-6">
@@ -361,6 +380,20 @@ Best regards,
                 <TemplatesManager />
               </CardContent>
             </TabsContent>
+            
+            {/* Follow-up Sequences */}
+            <TabsContent value="sequences" className="m-0">
+              <CardContent className="p-6">
+                <SequencesManager />
+              </CardContent>
+            </TabsContent>
+
+            {/* Attachments */}
+            <TabsContent value="attachments" className="m-0">
+              <CardContent className="p-6">
+                <AttachmentsManager />
+              </CardContent>
+            </TabsContent>
           </Tabs>
         </Card>
       </div>
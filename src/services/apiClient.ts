@@ -1,7 +1,15 @@
 import { useAuthStore } from '@/store/authStore';
+import { ApiError, toApiError } from './apiErrors';
 
 // Get the API URL from environment variables or use default
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+const API_URL = import.meta.env.VITE_API_URL || 'http://127.0.0.1:8081/api';
+
+// Requests that take longer than this are aborted and reported as timeouts
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Requests that send an email wait on the SMTP server, which can be slow. Giving up
+// early doesn't stop the server from sending, so these get much longer.
+export const SEND_TIMEOUT_MS = 120000;
 
 // Types
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
@@ -12,11 +20,15 @@ interface RequestOptions {
   body?: any;
   requiresAuth?: boolean;
   skipRefreshToken?: boolean; // Skip refresh token flow
+  params?: Record<string, string | number | undefined | null>; // Query string parameters
+  timeout?: number; // Timeout in milliseconds
+  responseType?: 'json' | 'blob'; // 'blob' returns successful responses as raw file data
 }
 
-interface ApiResponse<T = any> {
+export interface ApiResponse<T = any> {
   data: T | null;
   error: string | null;
+  apiError: ApiError | null; // Typed error, set whenever error is set
   status: number;
 }
 
@@ -80,7 +92,43 @@ class ApiClient {
     // Ensure API_URL doesn't end with a slash
     const baseUrl = API_URL.endsWith('/') ? API_URL.slice(0, -1) : API_URL;
     
-    return `${baseUrl}/${cleanEndpoint}`;
+    // Deployed environments like Render may be configured without the '/api' suffix
+    const apiBaseUrl = baseUrl.endsWith('/api') ? baseUrl : `${baseUrl}/api`;
+    
+    return `${apiBaseUrl}/${cleanEndpoint}`;
+  }
+
+  /**
+   * Append query string parameters, skipping empty values
+   */
+  private appendParams(url: string, params?: RequestOptions['params']): string {
+    if (!params) {
+      return url;
+    }
+
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        searchParams.append(key, value.toString());
+      }
+    });
+
+    const query = searchParams.toString();
+    return query ? `${url}?${query}` : url;
+  }
+
+  /**
+   * Run fetch with an abort timeout
+   */
+  private async fetchWithTimeout(url: string, init: RequestInit, timeout: number): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } finally {
+      clearTimeout(timeoutId);
+    }
   }
 
   /**
@@ -103,13 +151,13 @@ class ApiClient {
           return;
         }
 
-        const response = await fetch(this.formatUrl('users/refresh-token'), {
+        const response = await this.fetchWithTimeout(this.formatUrl('users/refresh-token'), {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({ refreshToken }),
-        });
+        }, DEFAULT_TIMEOUT_MS);
 
         if (!response.ok) {
           // Refresh token is invalid, logout
@@ -152,14 +200,21 @@ class ApiClient {
       body,
       requiresAuth = true,
       skipRefreshToken = false,
+      params,
+      timeout = DEFAULT_TIMEOUT_MS,
+      responseType = 'json',
     } = options;
 
+    // File uploads go as multipart form data, with the boundary set by the browser
+    const isFormData = body instanceof FormData;
+    const serializeBody = () => (isFormData ? body : JSON.stringify(body));
+
     // Prepare URL
-    const url = this.formatUrl(endpoint);
+    const url = this.appendParams(this.formatUrl(endpoint), params);
 
     // Prepare headers
     const requestHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
       ...headers,
     };
 
@@ -172,6 +227,7 @@ class ApiClient {
         return {
           data: null,
           error: 'Authentication required',
+          apiError: { code: 'auth', message: 'Authentication required', status: 401 },
           status: 401,
         };
       }
@@ -185,12 +241,12 @@ class ApiClient {
 
     // Add body if provided
     if (body) {
-      requestOptions.body = JSON.stringify(body);
+      requestOptions.body = serializeBody();
     }
 
     try {
       // Make the request
-      let response = await fetch(url, requestOptions);
+      let response = await this.fetchWithTimeout(url, requestOptions, timeout);
       let status = response.status;
 
       // Debug the request (remove in production)
@@ -198,7 +254,7 @@ class ApiClient {
         url,
         method,
         headers: requestHeaders,
-        body: body ? JSON.stringify(body) : null,
+        body: body && !isFormData ? JSON.stringify(body) : null,
         status,
       });
 
@@ -229,9 +285,11 @@ class ApiClient {
         
         if (!refreshSuccess) {
           console.debug('Token refresh failed');
+          const message = 'Authentication failed. Please log in again.';
           return {
             data: null,
-            error: 'Authentication failed. Please log in again.',
+            error: message,
+            apiError: { code: 'auth', message, status: 401 },
             status: 401,
           };
         }
@@ -243,7 +301,7 @@ class ApiClient {
         if (token) {
           // Create fresh headers with the new token
           const newHeaders = {
-            'Content-Type': 'application/json',
+            ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
             'Authorization': `Bearer ${token}`,
             ...headers,
           };
@@ -256,7 +314,7 @@ class ApiClient {
           
           // Add body if it was in the original request
           if (body) {
-            newRequestOptions.body = JSON.stringify(body);
+            newRequestOptions.body = serializeBody();
           }
           
           console.debug('Retrying request with new token:', {
@@ -266,16 +324,29 @@ class ApiClient {
           });
           
           // Make the new request
-          response = await fetch(url, newRequestOptions);
+          response = await this.fetchWithTimeout(url, newRequestOptions, timeout);
           status = response.status;
           
+          // Read the retried response instead of the original 401 body
+          try {
+            responseText = await response.clone().text();
+          } catch (e) {
+            responseText = undefined;
+          }
+          
           console.debug('Retry response status:', status);
         }
       }
 
+      // Files are returned as they are; errors still come back as JSON
+      if (responseType === 'blob' && response.ok) {
+        return { data: (await response.blob()) as unknown as T, error: null, apiError: null, status };
+      }
+
       // Parse response
       let data = null;
       let error = null;
+      let apiError: ApiError | null = null;
 
       // Try to parse JSON response if available
       try {
@@ -300,6 +371,7 @@ class ApiClient {
           } catch (e) {
             console.error('Error parsing JSON response:', e);
             error = 'Invalid JSON response';
+            apiError = { code: 'server', message: error, status };
           }
         } else {
           // For non-JSON responses, just store the text
@@ -311,15 +383,29 @@ class ApiClient {
 
       // Check if response is not ok
       if (!response.ok) {
-        error = data?.message || data?.error || response.statusText || 'An error occurred';
+        apiError = toApiError(status, data, response.statusText || 'An error occurred');
+        error = apiError.message;
       }
 
-      return { data, error, status };
+      return { data, error, apiError, status };
     } catch (error) {
       console.error('API request failed:', error);
+      
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        const message = 'Request timed out. The server might be unresponsive.';
+        return {
+          data: null,
+          error: message,
+          apiError: { code: 'timeout', message, status: 0 },
+          status: 0,
+        };
+      }
+      
+      const message = error instanceof Error ? error.message : 'Network error';
       return {
         data: null,
-        error: error instanceof Error ? error.message : 'Network error',
+        error: message,
+        apiError: { code: 'network', message, status: 0 },
         status: 0,
       };
     }
@@ -330,15 +416,15 @@ class ApiClient {
     return this.request<T>(endpoint, { ...options, method: 'GET' });
   }
 
-  async post<T = any>(endpoint: string, body: any, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<ApiResponse<T>> {
+  async post<T = any>(endpoint: string, body?: any, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: 'POST', body });
   }
 
-  async put<T = any>(endpoint: string, body: any, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<ApiResponse<T>> {
+  async put<T = any>(endpoint: string, body?: any, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: 'PUT', body });
   }
 
-  async patch<T = any>(endpoint: string, body: any, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<ApiResponse<T>> {
+  async patch<T = any>(endpoint: string, body?: any, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: 'PATCH', body });
   }
 
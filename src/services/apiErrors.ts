@@ -0,0 +1,137 @@
+/**
+ * Machine-readable error model shared by every API call
+ */
+export type ApiErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'auth'
+  | 'validation'
+  | 'smtp'
+  | 'send_unknown'
+  | 'server'
+  | 'not_found';
+
+interface ApiErrorBase {
+  message: string;
+  status: number;
+}
+
+export type ApiError =
+  | (ApiErrorBase & { code: 'network' })
+  | (ApiErrorBase & { code: 'timeout' })
+  | (ApiErrorBase & { code: 'auth' })
+  | (ApiErrorBase & { code: 'validation'; fieldErrors: Record<string, string> })
+  | (ApiErrorBase & { code: 'smtp' })
+  | (ApiErrorBase & { code: 'send_unknown' }) // Gave up waiting, but the server may still have sent it
+  | (ApiErrorBase & { code: 'server' })
+  | (ApiErrorBase & { code: 'not_found' });
+
+/**
+ * Error thrown by the API layer, carrying the typed ApiError
+ */
+export class ApiRequestError extends Error {
+  readonly error: ApiError;
+
+  constructor(error: ApiError) {
+    super(error.message);
+    this.name = 'ApiRequestError';
+    this.error = error;
+  }
+
+  get code(): ApiErrorCode {
+    return this.error.code;
+  }
+}
+
+// The backend does not tag SMTP failures, so recognise them from the message
+const SMTP_ERROR_PATTERN = /smtp|email sending|send email|authentication failed|535|username and password not accepted/i;
+
+/**
+ * Extract per-field messages from the shapes our backend uses for validation errors:
+ * { errors: { field: message } } or { errors: [{ field | path | param, message | msg }] }
+ */
+const extractFieldErrors = (body: Record<string, unknown> | null): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+  const errors = body?.errors;
+
+  if (Array.isArray(errors)) {
+    errors.forEach((entry) => {
+      const item = entry as Record<string, unknown>;
+      const field = item.field || item.path || item.param;
+      const message = item.message || item.msg;
+      if (typeof field === 'string' && typeof message === 'string') {
+        fieldErrors[field] = message;
+      }
+    });
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors).forEach(([field, message]) => {
+      if (typeof message === 'string') {
+        fieldErrors[field] = message;
+      } else if (Array.isArray(message) && typeof message[0] === 'string') {
+        fieldErrors[field] = message[0];
+      }
+    });
+  }
+
+  return fieldErrors;
+};
+
+/**
+ * Classify a failed HTTP response into an ApiError
+ */
+export const toApiError = (status: number, body: unknown, fallbackMessage: string): ApiError => {
+  const data = body && typeof body === 'object' ? body as Record<string, unknown> : null;
+  const message = [data?.message, data?.error, data?.email_error]
+    .find((value): value is string => typeof value === 'string' && value.length > 0) || fallbackMessage;
+
+  // Use the backend's explicit code when present, otherwise fall back to the message
+  const isSmtpFailure = data?.code === 'smtp' || SMTP_ERROR_PATTERN.test(message);
+  if (isSmtpFailure && status !== 401 && status !== 404) {
+    return { code: 'smtp', message, status };
+  }
+
+  if (status === 401 || status === 403) {
+    return { code: 'auth', message, status };
+  }
+
+  if (status === 404) {
+    return { code: 'not_found', message, status };
+  }
+
+  if (status === 400 || status === 409 || status === 422) {
+    return { code: 'validation', message, status, fieldErrors: extractFieldErrors(data) };
+  }
+
+  return { code: 'server', message, status };
+};
+
+/**
+ * Check whether an unknown caught value is an API error, optionally of a given code
+ */
+export const isApiError = (error: unknown, code?: ApiErrorCode): error is ApiRequestError => {
+  return error instanceof ApiRequestError && (!code || error.code === code);
+};
+
+/**
+ * User-facing message for any caught error
+ */
+export const getErrorMessage = (error: unknown, fallback: string = 'An unexpected error occurred'): string => {
+  if (error instanceof ApiRequestError) {
+    switch (error.code) {
+      case 'network':
+        return 'Cannot reach the server. Please check your connection and that the backend is running.';
+      case 'timeout':
+        return 'The server took too long to respond. Please try again.';
+      case 'auth':
+        return 'Your session has expired. Please log in again.';
+      case 'smtp':
+        return `Email sending failed: ${error.message}. Please check your email settings.`;
+      case 'send_unknown':
+        return 'The server took too long to confirm the email was sent. Check your sent folder before sending it again.';
+      default:
+        return error.message || fallback;
+    }
+  }
+
+  return error instanceof Error && error.message ? error.message : fallback;
+};
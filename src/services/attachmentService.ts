@@ -0,0 +1,89 @@
+import { Attachment, AttachmentKind } from '@/lib/api';
+import apiClient, { ApiResponse } from './apiClient';
+import { ApiRequestError } from './apiErrors';
+
+const ATTACHMENTS_ENDPOINT = 'attachments';
+
+// Uploads can take a while on slow connections
+const UPLOAD_TIMEOUT_MS = 60000;
+
+/**
+ * Unwrap the { data } envelope used by the attachments endpoints,
+ * throwing when the request failed
+ */
+const unwrap = <T>(response: ApiResponse<{ data: T }>): T => {
+  if (response.apiError) {
+    throw new ApiRequestError(response.apiError);
+  }
+  return response.data?.data;
+};
+
+/**
+ * Fetch every uploaded attachment
+ */
+export const getAllAttachments = async (): Promise<Attachment[]> => {
+  try {
+    const response = await apiClient.get<{ data: Attachment[] }>(ATTACHMENTS_ENDPOINT);
+    return unwrap(response);
+  } catch (error) {
+    console.error('Error fetching attachments:', error);
+    throw error;
+  }
+};
+
+/**
+ * Upload a file as a new attachment version
+ */
+export const uploadAttachment = async (
+  file: File,
+  details: { kind: AttachmentKind; label: string; version: number; checksum: string }
+): Promise<Attachment> => {
+  try {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('kind', details.kind);
+    formData.append('label', details.label);
+    formData.append('version', String(details.version));
+    formData.append('checksum', details.checksum);
+
+    const response = await apiClient.post<{ data: Attachment }>(ATTACHMENTS_ENDPOINT, formData, {
+      timeout: UPLOAD_TIMEOUT_MS
+    });
+    return unwrap(response);
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    throw error;
+  }
+};
+
+/**
+ * Download an attachment's file, e.g. for previewing it
+ */
+export const getAttachmentFile = async (id: string): Promise<Blob> => {
+  const response = await apiClient.get<Blob>(`${ATTACHMENTS_ENDPOINT}/${id}/file`, {
+    responseType: 'blob',
+    timeout: UPLOAD_TIMEOUT_MS
+  });
+  if (response.apiError) {
+    throw new ApiRequestError(response.apiError);
+  }
+  if (!response.data) {
+    throw new ApiRequestError({ code: 'server', message: 'Failed to download attachment', status: response.status });
+  }
+  return response.data;
+};
+
+/**
+ * Delete an attachment. Applications that sent it keep their record of it.
+ */
+export const deleteAttachment = async (id: string): Promise<void> => {
+  try {
+    const response = await apiClient.delete(`${ATTACHMENTS_ENDPOINT}/${id}`);
+    if (response.apiError) {
+      throw new ApiRequestError(response.apiError);
+    }
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    throw error;
+  }
+};
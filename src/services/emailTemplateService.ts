@@ -1,17 +1,27 @@
 import { EmailTemplate } from '../store/emailSettingsStore';
-import axios from 'axios';
+import apiClient, { ApiResponse } from './apiClient';
+import { ApiRequestError } from './apiErrors';
 
-// Original: const API_URL = `${import.meta.env.VITE_API_URL || 'http://localhost:3000'}/api/email-templates`;
-// The VITE_API_URL already includes '/api', so we avoid duplication
-const API_URL = `${import.meta.env.VITE_API_URL || 'http://localhost:8081/api'}/email-templates`;
+const TEMPLATES_ENDPOINT = 'email-templates';
+
+/**
+ * Unwrap the { data } envelope used by the templates endpoints,
+ * throwing when the request failed
+ */
+const unwrap = <T>(response: ApiResponse<{ data: T }>): T => {
+  if (response.apiError) {
+    throw new ApiRequestError(response.apiError);
+  }
+  return response.data?.data;
+};
 
 /**
  * Fetch all email templates
  */
 export const getAllTemplates = async (): Promise<EmailTemplate[]> => {
   try {
-    const response = await axios.get(API_URL);
-    return response.data.data;
+    const response = await apiClient.get<{ data: EmailTemplate[] }>(TEMPLATES_ENDPOINT);
+    return unwrap(response);
   } catch (error) {
     console.error('Error fetching email templates:', error);
     throw error;
@@ -23,8 +33,8 @@ export const getAllTemplates = async (): Promise<EmailTemplate[]> => {
  */
 export const getTemplatesByType = async (type: string): Promise<EmailTemplate[]> => {
   try {
-    const response = await axios.get(`${API_URL}?type=${type}`);
-    return response.data.data;
+    const response = await apiClient.get<{ data: EmailTemplate[] }>(TEMPLATES_ENDPOINT, { params: { type } });
+    return unwrap(response);
   } catch (error) {
     console.error(`Error fetching ${type} templates:`, error);
     throw error;
@@ -36,8 +46,8 @@ export const getTemplatesByType = async (type: string): Promise<EmailTemplate[]>
  */
 export const getTemplateById = async (id: string): Promise<EmailTemplate> => {
   try {
-    const response = await axios.get(`${API_URL}/${id}`);
-    return response.data.data;
+    const response = await apiClient.get<{ data: EmailTemplate }>(`${TEMPLATES_ENDPOINT}/${id}`);
+    return unwrap(response);
   } catch (error) {
     console.error('Error fetching template details:', error);
     throw error;
@@ -49,8 +59,8 @@ export const getTemplateById = async (id: string): Promise<EmailTemplate> => {
  */
 export const createTemplate = async (template: Omit<EmailTemplate, '_id'>): Promise<EmailTemplate> => {
   try {
-    const response = await axios.post(API_URL, template);
-    return response.data.data;
+    const response = await apiClient.post<{ data: EmailTemplate }>(TEMPLATES_ENDPOINT, template);
+    return unwrap(response);
   } catch (error) {
     console.error('Error creating template:', error);
     throw error;
@@ -62,8 +72,8 @@ export const createTemplate = async (template: Omit<EmailTemplate, '_id'>): Prom
  */
 export const updateTemplate = async (id: string, template: Partial<EmailTemplate>): Promise<EmailTemplate> => {
   try {
-    const response = await axios.put(`${API_URL}/${id}`, template);
-    return response.data.data;
+    const response = await apiClient.put<{ data: EmailTemplate }>(`${TEMPLATES_ENDPOINT}/${id}`, template);
+    return unwrap(response);
   } catch (error) {
     console.error('Error updating template:', error);
     throw error;
@@ -75,7 +85,10 @@ export const updateTemplate = async (id: string, template: Partial<EmailTemplate
  */
 export const deleteTemplate = async (id: string): Promise<void> => {
   try {
-    await axios.delete(`${API_URL}/${id}`);
+    const response = await apiClient.delete(`${TEMPLATES_ENDPOINT}/${id}`);
+    if (response.apiError) {
+      throw new ApiRequestError(response.apiError);
+    }
   } catch (error) {
     console.error('Error deleting template:', error);
     throw error;
@@ -87,10 +100,10 @@ export const deleteTemplate = async (id: string): Promise<void> => {
  */
 export const setDefaultTemplate = async (id: string): Promise<EmailTemplate> => {
   try {
-    const response = await axios.patch(`${API_URL}/${id}/set-default`);
-    return response.data.data;
+    const response = await apiClient.patch<{ data: EmailTemplate }>(`${TEMPLATES_ENDPOINT}/${id}/set-default`);
+    return unwrap(response);
   } catch (error) {
     console.error('Error setting template as default:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
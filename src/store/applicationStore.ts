@@ -14,12 +14,15 @@ export interface Application {
   linkedIn?: string;
   lastFollowUp?: string;
   followUpCount: number;
-  autoFollowUp: {
+  // Legacy local follow-up policy. Follow-up settings now live on the server
+  // application; this is only kept until it has been migrated across.
+  autoFollowUp?: {
     enabled: boolean;
     intervalType: 'days' | 'hours' | 'minutes'; // New field to specify the unit of time
     interval: number; // Amount of time in the specified unit
     maxFollowUps: number;
   };
+  serverId?: string; // _id of the matching application on the server, once known
   status: 'draft' | 'sent'; // New field to track application status
 }
 
@@ -154,12 +157,6 @@ export const useApplicationStore = create<ApplicationState>()(
               ...application,
               id,
               followUpCount: 0,
-              autoFollowUp: {
-                enabled: false,
-                intervalType: 'days',
-                interval: 2,
-                maxFollowUps: 5
-              },
               status: 'sent'
             }
           ]
@@ -198,12 +195,6 @@ export const useApplicationStore = create<ApplicationState>()(
                   portfolio: draft.portfolio || '',
                   linkedIn: draft.linkedIn || '',
                   followUpCount: 0,
-                  autoFollowUp: {
-                    enabled: false,
-                    intervalType: 'days',
-                    interval: 2,
-                    maxFollowUps: 5
-                  },
                   status: 'draft'
                 }
               ]
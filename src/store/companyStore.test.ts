@@ -0,0 +1,63 @@
+import { getEmailDomain, normalizeCompanyName, useCompanyStore } from '@/store/companyStore';
+
+describe('normalizeCompanyName', () => {
+  it('ignores case, accents, punctuation and spacing', () => {
+    expect(normalizeCompanyName('  Tech-Corp ')).toBe('techcorp');
+    expect(normalizeCompanyName('Café Müller')).toBe('cafemuller');
+    expect(normalizeCompanyName('AT&T')).toBe('atandt');
+  });
+
+  it('drops legal suffixes from the end, but never the whole name', () => {
+    expect(normalizeCompanyName('Acme Inc.')).toBe('acme');
+    expect(normalizeCompanyName('Acme Holdings Ltd GmbH')).toBe('acmeholdings');
+    expect(normalizeCompanyName('Limited')).toBe('limited');
+  });
+
+  it('keeps letters of every script', () => {
+    expect(normalizeCompanyName('Яндекс')).toBe('яндекс');
+    expect(normalizeCompanyName('ЯНДЕКС')).toBe('яндекс');
+    expect(normalizeCompanyName('株式会社 メルカリ')).toBe('株式会社メルカリ');
+    expect(normalizeCompanyName('グーグル')).not.toBe(normalizeCompanyName('クークル'));
+    expect(normalizeCompanyName('इन्फोसिस')).not.toBe('');
+  });
+
+  it('compares names without letters or digits as typed', () => {
+    expect(normalizeCompanyName(' *** ')).toBe('***');
+    expect(normalizeCompanyName('')).toBe('');
+  });
+});
+
+describe('getEmailDomain', () => {
+  it('returns the company domain of an address', () => {
+    expect(getEmailDomain(' Jane@Acme.com ')).toBe('acme.com');
+  });
+
+  it('ignores personal mailboxes and malformed addresses', () => {
+    expect(getEmailDomain('jane@gmail.com')).toBeNull();
+    expect(getEmailDomain('jane')).toBeNull();
+    expect(getEmailDomain('jane@localhost')).toBeNull();
+  });
+});
+
+describe('ensureCompany', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    useCompanyStore.setState({ companies: [] });
+  });
+
+  it('adds a company once, however its name is written', () => {
+    const first = useCompanyStore.getState().ensureCompany('Яндекс', 'hr@yandex.ru');
+    const second = useCompanyStore.getState().ensureCompany('ЯНДЕКС', 'hr@yandex.ru');
+
+    expect(second.id).toBe(first.id);
+    expect(useCompanyStore.getState().companies).toHaveLength(1);
+    expect(first.domain).toBe('yandex.ru');
+  });
+
+  it('keeps companies in other scripts apart', () => {
+    useCompanyStore.getState().ensureCompany('Яндекс');
+    useCompanyStore.getState().ensureCompany('Касперский');
+
+    expect(useCompanyStore.getState().companies.map(company => company.name)).toEqual(['Яндекс', 'Касперский']);
+  });
+});
@@ -0,0 +1,136 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export type CompanySize = '1-10' | '11-50' | '51-200' | '201-1000' | '1000+';
+
+export interface Company {
+  id: string;
+  name: string; // As first written, shown everywhere the company appears
+  normalizedName: string; // "TechCorp Inc." and "techcorp" are the same company
+  domain: string; // e.g. "techcorp.com", also matches contacts at that domain
+  website: string;
+  size: CompanySize | null;
+  notes: string;
+  logoUrl: string; // Initials are shown when empty or the image fails to load
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CompanyDetails = Pick<Company, 'name' | 'domain' | 'website' | 'size' | 'notes' | 'logoUrl'>;
+
+// Dropped from the end of names, so "Acme Inc." and "ACME" are one company
+const LEGAL_SUFFIXES = new Set(['inc', 'incorporated', 'llc', 'ltd', 'limited', 'corporation', 'gmbh', 'plc', 'ag', 'sa', 'bv']);
+
+// Personal mailboxes say nothing about the company
+const PERSONAL_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com', 'yahoo.com',
+  'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com', 'mail.com',
+]);
+
+/**
+ * Comparable form of a company name: case, accents, punctuation, spacing and
+ * legal suffixes are ignored. Letters of every script count (marks other
+ * scripts need are kept), and a name with none, e.g. only symbols, is compared
+ * as typed, ignoring case.
+ */
+export const normalizeCompanyName = (name: string): string => {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean);
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join('') || name.trim().toLowerCase();
+};
+
+/**
+ * Company domain of an email address, or null for personal mailboxes
+ */
+export const getEmailDomain = (email: string): string | null => {
+  const domain = email.trim().toLowerCase().split('@')[1];
+  if (!domain || !domain.includes('.') || PERSONAL_EMAIL_DOMAINS.has(domain)) return null;
+  return domain;
+};
+
+interface CompanyState {
+  companies: Company[];
+  addCompany: (company: CompanyDetails) => string;
+  updateCompany: (id: string, company: Partial<CompanyDetails>) => void;
+  deleteCompany: (id: string) => void;
+  findCompany: (name: string) => Company | undefined;
+  ensureCompany: (name: string, email?: string | null) => Company;
+}
+
+export const useCompanyStore = create<CompanyState>()(
+  persist(
+    (set, get) => ({
+      companies: [],
+
+      addCompany: (company) => {
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        set((state) => ({
+          companies: [
+            ...state.companies,
+            { ...company, name: company.name.trim(), normalizedName: normalizeCompanyName(company.name), id, createdAt: now, updatedAt: now }
+          ]
+        }));
+        return id;
+      },
+
+      updateCompany: (id, company) => set((state) => ({
+        companies: state.companies.map(c =>
+          c.id === id
+            ? {
+                ...c,
+                ...company,
+                ...(company.name !== undefined && { name: company.name.trim(), normalizedName: normalizeCompanyName(company.name) }),
+                updatedAt: new Date().toISOString()
+              }
+            : c
+        )
+      })),
+
+      deleteCompany: (id) => set((state) => ({
+        companies: state.companies.filter(c => c.id !== id)
+      })),
+
+      findCompany: (name) => {
+        const normalized = normalizeCompanyName(name);
+        return normalized ? get().companies.find(c => c.normalizedName === normalized) : undefined;
+      },
+
+      // The company an application is for, added the first time it's applied to.
+      // The recipient's address fills in a missing domain.
+      ensureCompany: (name, email) => {
+        const existing = get().findCompany(name);
+        if (existing) {
+          if (!existing.domain) {
+            const domain = getEmailDomain(email ?? '');
+            if (domain) get().updateCompany(existing.id, { domain });
+          }
+          return existing;
+        }
+
+        const id = get().addCompany({
+          name,
+          domain: getEmailDomain(email ?? '') ?? '',
+          website: '',
+          size: null,
+          notes: '',
+          logoUrl: '',
+        });
+        const company = get().companies.find(c => c.id === id);
+        if (!company) throw new Error('Failed to add company');
+        return company;
+      },
+    }),
+    {
+      name: 'company-storage',
+    }
+  )
+);
@@ -0,0 +1,86 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export interface Contact {
+  id: string;
+  name: string;
+  role: string; // e.g. "Technical Recruiter"
+  company: string;
+  email: string;
+  linkedinUrl: string;
+  notes: string;
+  lastContactedAt: string | null; // Set by hand for calls and meetings; emails are counted from the applications and follow-ups sent
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ContactDetails = Pick<Contact, 'name' | 'role' | 'company' | 'email' | 'linkedinUrl' | 'notes' | 'lastContactedAt'>;
+
+interface ContactState {
+  contacts: Contact[];
+  addContact: (contact: ContactDetails) => string;
+  updateContact: (id: string, contact: Partial<ContactDetails>) => void;
+  deleteContact: (id: string) => void;
+  getContactByEmail: (email: string) => Contact | undefined;
+  addRecipient: (recipient: { email: string; name?: string | null; company?: string | null }) => void;
+}
+
+// Addresses are compared case-insensitively
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const useContactStore = create<ContactState>()(
+  persist(
+    (set, get) => ({
+      contacts: [],
+
+      addContact: (contact) => {
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        set((state) => ({
+          contacts: [...state.contacts, { ...contact, email: contact.email.trim(), id, createdAt: now, updatedAt: now }]
+        }));
+        return id;
+      },
+
+      updateContact: (id, contact) => set((state) => ({
+        contacts: state.contacts.map(c =>
+          c.id === id ? { ...c, ...contact, updatedAt: new Date().toISOString() } : c
+        )
+      })),
+
+      deleteContact: (id) => set((state) => ({
+        contacts: state.contacts.filter(c => c.id !== id)
+      })),
+
+      getContactByEmail: (email) => get().contacts.find(c => normalizeEmail(c.email) === normalizeEmail(email)),
+
+      // Add a recipient the first time they're emailed, or fill in a missing name or company.
+      // Names and companies already saved aren't overwritten.
+      addRecipient: (recipient) => {
+        const existing = get().getContactByEmail(recipient.email);
+        if (!existing) {
+          get().addContact({
+            name: recipient.name?.trim() ?? '',
+            role: '',
+            company: recipient.company?.trim() ?? '',
+            email: recipient.email,
+            linkedinUrl: '',
+            notes: '',
+            lastContactedAt: null,
+          });
+          return;
+        }
+
+        if ((!existing.name && recipient.name?.trim()) || (!existing.company && recipient.company?.trim())) {
+          get().updateContact(existing.id, {
+            name: existing.name || recipient.name?.trim() || '',
+            company: existing.company || recipient.company?.trim() || '',
+          });
+        }
+      },
+    }),
+    {
+      name: 'contact-storage',
+    }
+  )
+);
@@ -3,7 +3,8 @@ import { persist } from 'zustand/middleware';
 
 export enum EmailTemplateType {
   JOB_APPLICATION = 'job_application',
-  FOLLOW_UP = 'follow_up'
+  FOLLOW_UP = 'follow_up',
+  COVER_LETTER = 'cover_letter' // Rendered into a document attached to the application
 }
 
 export interface EmailTemplate {
@@ -13,10 +14,21 @@ export interface EmailTemplate {
   subject: string;
   body: string;
   isDefault: boolean;
+  weight?: number; // Relative share of sends for the main wording when there are variants
+  variants?: TemplateVariant[]; // Alternative wordings tested against the main one
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// An A/B variant of a template, picked at random in proportion to its weight
+export interface TemplateVariant {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  weight: number;
+}
+
 export interface EmailTemplates {
   jobApplication: string;
   followUp: string;
@@ -52,7 +64,7 @@ const DEFAULT_SETTINGS: EmailSettings = {
   templates: {
     jobApplication: `Dear {recipientName},
 
-I am writing to express my interest in the {position} position at {company}. With my background in {skill}, I believe I would be a great fit for this role.
+I am writing to express my interest in the {position} position at {company}. With my background and experience, I believe I would be a great fit for this role.
 
 {customMessage}
 
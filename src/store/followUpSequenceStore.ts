@@ -0,0 +1,129 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { FollowUpIntervalUnit } from '@/lib/api';
+
+// How a step's subject line is built
+export type SubjectStrategy =
+  | 'reply' // "Re: <original subject>", keeps the thread together
+  | 'original' // The original subject unchanged
+  | 'custom'; // The step's own subject template
+
+export interface FollowUpSequenceStep {
+  id: string;
+  name: string;
+  delay: number; // Wait after the previous email (the application itself for step 1)
+  delayUnit: FollowUpIntervalUnit;
+  subjectStrategy: SubjectStrategy;
+  subject: string; // Only used with the custom strategy
+  body: string; // Supports the same placeholders as the follow-up template
+}
+
+export interface FollowUpSequence {
+  id: string;
+  name: string;
+  steps: FollowUpSequenceStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface FollowUpSequenceState {
+  sequences: FollowUpSequence[];
+  addSequence: (sequence: Pick<FollowUpSequence, 'name' | 'steps'>) => string;
+  updateSequence: (id: string, sequence: Partial<Pick<FollowUpSequence, 'name' | 'steps'>>) => void;
+  deleteSequence: (id: string) => void;
+  getSequence: (id: string) => FollowUpSequence | undefined;
+}
+
+export const createSequenceStep = (step: Partial<FollowUpSequenceStep> = {}): FollowUpSequenceStep => ({
+  id: crypto.randomUUID(),
+  name: '',
+  delay: 7,
+  delayUnit: 'days',
+  subjectStrategy: 'reply',
+  subject: '',
+  body: '',
+  ...step,
+});
+
+// Starter sequence: a gentle nudge, a value-add, then a final check-in
+const DEFAULT_SEQUENCE: FollowUpSequence = {
+  id: 'default-escalation',
+  name: 'Nudge, value-add, final check-in',
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString(),
+  steps: [
+    createSequenceStep({
+      id: 'default-escalation-1',
+      name: 'Gentle nudge',
+      delay: 5,
+      body: `Dear {recipientName},
+
+I hope you're well. I wanted to briefly follow up on my application for the {position} position at {company}, which I sent on {applicationDate}.
+
+I'm still very interested and would be glad to answer any questions.
+
+Best regards,
+{senderName}`,
+    }),
+    createSequenceStep({
+      id: 'default-escalation-2',
+      name: 'Value-add',
+      delay: 7,
+      body: `Dear {recipientName},
+
+Following up on my application for the {position} role: since writing, I've been thinking about how I could contribute at {company}, and I'd welcome the chance to share a few concrete ideas.
+
+I'd be happy to share examples of my recent work if that would be helpful.
+
+Best regards,
+{senderName}`,
+    }),
+    createSequenceStep({
+      id: 'default-escalation-3',
+      name: 'Final check-in',
+      delay: 10,
+      subjectStrategy: 'custom',
+      subject: 'Checking in one last time - {position}',
+      body: `Dear {recipientName},
+
+I wanted to check in one final time about the {position} position. If the role has been filled or the timing isn't right, I completely understand, and I'd appreciate being kept in mind for future openings at {company}.
+
+Thank you for your time.
+
+Best regards,
+{senderName}`,
+    }),
+  ],
+};
+
+export const useFollowUpSequenceStore = create<FollowUpSequenceState>()(
+  persist(
+    (set, get) => ({
+      sequences: [DEFAULT_SEQUENCE],
+
+      addSequence: (sequence) => {
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        set((state) => ({
+          sequences: [...state.sequences, { ...sequence, id, createdAt: now, updatedAt: now }]
+        }));
+        return id;
+      },
+
+      updateSequence: (id, sequence) => set((state) => ({
+        sequences: state.sequences.map(s =>
+          s.id === id ? { ...s, ...sequence, updatedAt: new Date().toISOString() } : s
+        )
+      })),
+
+      deleteSequence: (id) => set((state) => ({
+        sequences: state.sequences.filter(s => s.id !== id)
+      })),
+
+      getSequence: (id) => get().sequences.find(s => s.id === id),
+    }),
+    {
+      name: 'follow-up-sequence-storage',
+    }
+  )
+);
@@ -0,0 +1,104 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { EmailTemplate } from './emailSettingsStore';
+
+// One saved state of a library template
+export interface TemplateVersion {
+  id: string;
+  templateId: string;
+  version: number; // 1 for the first recorded state, counting up
+  name: string;
+  subject: string;
+  body: string;
+  author: string;
+  createdAt: string;
+  note?: string; // e.g. "Restored from v2"
+}
+
+// Author of changes made outside this app, or before history was kept
+export const UNKNOWN_AUTHOR = 'Unknown';
+
+type VersionedContent = Pick<EmailTemplate, '_id' | 'name' | 'subject' | 'body'>;
+
+/**
+ * Fingerprint of a version's wording (cyrb53). Version numbers only exist in
+ * the browser that recorded them; the same subject and body hash the same
+ * everywhere, so applications record this to be grouped by wording.
+ */
+export const getContentHash = ({ subject, body }: Pick<TemplateVersion, 'subject' | 'body'>): string => {
+  const text = `${subject}\u0000${body}`;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+interface TemplateVersionState {
+  histories: Record<string, TemplateVersion[]>; // Oldest first, by template id
+  recordVersion: (
+    template: VersionedContent,
+    author: string,
+    options?: { note?: string; createdAt?: string }
+  ) => TemplateVersion | undefined;
+  getVersions: (templateId: string) => TemplateVersion[];
+  getLatestVersion: (templateId: string) => TemplateVersion | undefined;
+  deleteHistory: (templateId: string) => void;
+}
+
+const isSameContent = (version: TemplateVersion, template: VersionedContent) =>
+  version.name === template.name && version.subject === template.subject && version.body === template.body;
+
+export const useTemplateVersionStore = create<TemplateVersionState>()(
+  persist(
+    (set, get) => ({
+      histories: {},
+
+      // Saving without changing anything doesn't add a version
+      recordVersion: (template, author, options = {}) => {
+        if (!template._id) return undefined;
+
+        const versions = get().histories[template._id] ?? [];
+        const latest = versions[versions.length - 1];
+        if (latest && isSameContent(latest, template)) return latest;
+
+        const version: TemplateVersion = {
+          id: crypto.randomUUID(),
+          templateId: template._id,
+          version: (latest?.version ?? 0) + 1,
+          name: template.name,
+          subject: template.subject,
+          body: template.body,
+          author,
+          createdAt: options.createdAt ?? new Date().toISOString(),
+          note: options.note,
+        };
+        set((state) => ({
+          histories: { ...state.histories, [version.templateId]: [...versions, version] }
+        }));
+        return version;
+      },
+
+      getVersions: (templateId) => get().histories[templateId] ?? [],
+
+      getLatestVersion: (templateId) => {
+        const versions = get().getVersions(templateId);
+        return versions[versions.length - 1];
+      },
+
+      deleteHistory: (templateId) => set((state) => {
+        const histories = { ...state.histories };
+        delete histories[templateId];
+        return { histories };
+      }),
+    }),
+    {
+      name: 'template-version-storage',
+    }
+  )
+);
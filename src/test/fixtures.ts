@@ -0,0 +1,41 @@
+// Builders for the data unit tests work with. Each fills in every required
+// field, so a test only spells out what it's about.
+import { FollowUpSettings, JobApplication } from '@/lib/api';
+
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Up to three follow-ups, three days apart, none sent yet
+ */
+export const makeFollowUpSettings = (overrides: Partial<FollowUpSettings> = {}): FollowUpSettings => ({
+  type: 'periodic_limited',
+  interval_days: 3,
+  interval_minutes: 3 * DAY_MINUTES,
+  interval_unit: 'days',
+  max_count: 3,
+  follow_up_count: 0,
+  last_follow_up_date: null,
+  next_follow_up_date: null,
+  ...overrides,
+});
+
+/**
+ * A sent application to jane@acme.com with the default follow-up settings
+ */
+export const makeApplication = (overrides: Partial<JobApplication> = {}): JobApplication => ({
+  _id: 'app',
+  recipient_email: 'jane@acme.com',
+  company: 'Acme',
+  position: 'Engineer',
+  subject: 'Application',
+  content: 'Hello',
+  status: 'sent',
+  follow_up_settings: makeFollowUpSettings(),
+  full_name: null,
+  portfolio_url: null,
+  linkedin_url: null,
+  created_at: '2026-03-01T00:00:00Z',
+  sent_at: null,
+  updated_at: '2026-03-01T00:00:00Z',
+  ...overrides,
+});